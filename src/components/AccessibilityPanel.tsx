@@ -0,0 +1,275 @@
+/**
+ * Accessibility Panel Component
+ * Audit of the selected element and page-wide violation scan with annotations
+ */
+
+import { useEffect, useMemo, useReducer, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { cn, POSITION_STYLES } from '../lib/utils'
+import { auditElement, scanAccessibility } from '../lib/accessibility'
+import { getElementInfo } from '../lib/elementInfo'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { generateSelector } from '../lib/selector'
+import type { AccessibilityPanelOptions, AccessibilityRule, AccessibilityViolation, ContrastResult } from '../lib/types'
+import { createAnnotation, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
+import { ElementHighlight } from './ElementHighlight'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const RULE_LABELS: Record<AccessibilityRule, string> = {
+  name: 'Name',
+  contrast: 'Contrast',
+  focusable: 'Keyboard',
+  tabindex: 'Tab order',
+}
+
+// Violations listed at once; the rest are summarised
+const MAX_LISTED = 100
+
+// ============================================================================
+// Selected Element Report
+// ============================================================================
+
+function ContrastRow({ contrast }: { contrast: ContrastResult }) {
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-gray-400 w-14 shrink-0">Contrast</span>
+      <span
+        className="inline-flex items-center justify-center w-5 h-3 text-[8px] border border-white/20 rounded-sm"
+        style={{ color: contrast.foreground, background: contrast.background }}
+      >
+        Aa
+      </span>
+      <span className={contrast.aa ? 'text-green-400' : 'text-red-400'}>{contrast.ratio.toFixed(2)}:1</span>
+      <span className={cn('text-[9px] px-1 rounded', contrast.aa ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400')}>
+        AA
+      </span>
+      <span className={cn('text-[9px] px-1 rounded', contrast.aaa ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-gray-500')}>
+        AAA
+      </span>
+      {contrast.estimated && <span className="text-[9px] text-yellow-400" title="Background image or gradient involved">~</span>}
+    </div>
+  )
+}
+
+function ElementReport({ element }: { element: HTMLElement }) {
+  const report = useMemo(() => auditElement(element), [element])
+
+  return (
+    <div className="p-2 border-b border-white/10 text-[10px] space-y-0.5">
+      <div className="text-[9px] text-gray-400 mb-0.5">SELECTED ELEMENT</div>
+      <div className="flex gap-1">
+        <span className="text-gray-400 w-14 shrink-0">Role</span>
+        <span className={report.role ? 'text-purple-300' : 'text-gray-600'}>{report.role ?? 'none'}</span>
+      </div>
+      <div className="flex gap-1">
+        <span className="text-gray-400 w-14 shrink-0">Name</span>
+        <span className={cn('truncate', report.name ? 'text-white/80' : 'text-gray-600')} title={report.name}>
+          {report.name ? `"${report.name}"` : 'none'}
+        </span>
+      </div>
+      {report.contrast && <ContrastRow contrast={report.contrast} />}
+      <div className="flex gap-1">
+        <span className="text-gray-400 w-14 shrink-0">Focus</span>
+        <span className="text-white/80">
+          {report.tabOrder !== undefined
+            ? `Tab stop ${report.tabOrder} of ${report.tabStops}`
+            : report.focusable
+              ? 'Focusable, not in tab order'
+              : 'Not focusable'}
+        </span>
+      </div>
+      {report.violations.map((violation, i) => (
+        <div key={i} className={violation.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+          • {violation.message}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// ============================================================================
+// Accessibility Panel Component
+// ============================================================================
+
+/**
+ * AccessibilityPanel - Accessible name, role, contrast and focus audit
+ * Scans the page on demand; hover a violation to highlight its element.
+ *
+ * @param element - Element to audit, e.g. the inspector's selection
+ * @param position - Position of the panel
+ * @param className - Additional CSS classes
+ * @param customAtom - Custom Jotai atom for created annotations
+ */
+export function AccessibilityPanel({
+  element,
+  position = 'top-left',
+  className,
+  customAtom,
+}: AccessibilityPanelOptions & { customAtom?: ReturnType<typeof createAnnotationsAtom> }) {
+  const [violations, setViolations] = useState<AccessibilityViolation[] | null>(null)
+  const [ruleFilter, setRuleFilter] = useState<AccessibilityRule | 'all'>('all')
+  const [hovered, setHovered] = useState<AccessibilityViolation | null>(null)
+  const [annotated, setAnnotated] = useState<Set<AccessibilityViolation>>(() => new Set())
+  const [, setAnnotations] = useDebugAnnotations(customAtom)
+  // Re-render to follow the highlighted element while scrolling
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0)
+
+  useEffect(() => {
+    if (!hovered) return
+    window.addEventListener('scroll', forceUpdate, true)
+    return () => window.removeEventListener('scroll', forceUpdate, true)
+  }, [hovered])
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<AccessibilityRule, number>> = {}
+    violations?.forEach((violation) => {
+      result[violation.rule] = (result[violation.rule] ?? 0) + 1
+    })
+    return result
+  }, [violations])
+
+  const filtered = useMemo(
+    () => (violations ?? []).filter((violation) => ruleFilter === 'all' || violation.rule === ruleFilter),
+    [violations, ruleFilter]
+  )
+
+  // Selector generation queries the document, so do it once per list rather than per hover
+  const listed = useMemo(
+    () => filtered.slice(0, MAX_LISTED).map((violation) => ({ violation, selector: generateSelector(violation.element) })),
+    [filtered]
+  )
+
+  const handleScan = () => {
+    setViolations(scanAccessibility())
+    setAnnotated(new Set())
+    setHovered(null)
+  }
+
+  const handleAnnotate = (violation: AccessibilityViolation) => {
+    if (!(violation.element instanceof HTMLElement)) return
+    const info = getElementInfo(violation.element)
+    const annotation = createAnnotation(
+      {
+        tagName: info.tagName,
+        id: info.id,
+        uniqueSelector: info.uniqueSelector,
+        componentName: info.componentName,
+        textContent: info.textContent,
+        source: info.source,
+      },
+      `Accessibility (${RULE_LABELS[violation.rule]}): ${violation.message}.`
+    )
+    setAnnotations((prev) => ({ ...prev, [annotation.id]: annotation }))
+    setAnnotated((prev) => new Set(prev).add(violation))
+  }
+
+  return (
+    <>
+      <div
+        data-debug-panel
+        className={cn(
+          'fixed z-[9999] w-72',
+          'bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+          'font-mono text-xs',
+          POSITION_STYLES[position],
+          className
+        )}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-2 py-1 border-b border-white/10">
+          <span className="text-[10px] text-gray-400">ACCESSIBILITY</span>
+          <button
+            onClick={handleScan}
+            className="text-[9px] px-2 py-0.5 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+          >
+            {violations ? 'Rescan page' : 'Scan page'}
+          </button>
+        </div>
+
+        {/* Selected Element */}
+        {element?.isConnected && <ElementReport element={element} />}
+        {!element && !violations && (
+          <div className="p-2 text-[10px] text-gray-500">Select an element with the inspector or scan the page</div>
+        )}
+
+        {/* Scan Results */}
+        {violations && (
+          <div className="p-1">
+            <div className="flex gap-1 flex-wrap px-1 mb-1">
+              {(['all', 'name', 'contrast', 'focusable', 'tabindex'] as const).map((rule) => (
+                <button
+                  key={rule}
+                  onClick={() => setRuleFilter(rule)}
+                  className={cn(
+                    'text-[9px] px-1.5 py-0.5 rounded transition-colors',
+                    ruleFilter === rule ? 'bg-white/15 text-white' : 'text-gray-400 hover:bg-white/10'
+                  )}
+                >
+                  {rule === 'all' ? `All ${violations.length}` : `${RULE_LABELS[rule]} ${counts[rule] ?? 0}`}
+                </button>
+              ))}
+            </div>
+
+            {filtered.length === 0 && <div className="px-1 pb-1 text-[10px] text-green-400">No violations found</div>}
+
+            <div className="max-h-64 overflow-y-auto space-y-px">
+              {listed.map(({ violation, selector }, i) => (
+                <div
+                  key={i}
+                  onMouseEnter={() => setHovered(violation)}
+                  onMouseLeave={() => setHovered((prev) => (prev === violation ? null : prev))}
+                  onClick={() => violation.element.scrollIntoView({ block: 'center', behavior: 'smooth' })}
+                  className="px-1.5 py-1 rounded text-[10px] cursor-pointer hover:bg-white/5"
+                >
+                  <div className="flex items-start gap-1">
+                    <span className={violation.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>●</span>
+                    <span className="text-white/80 flex-1">{violation.message}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleAnnotate(violation)
+                      }}
+                      disabled={annotated.has(violation) || !(violation.element instanceof HTMLElement)}
+                      className={cn(
+                        'shrink-0 text-[9px] px-1.5 rounded transition-colors',
+                        annotated.has(violation) ? 'bg-green-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      )}
+                    >
+                      {annotated.has(violation) ? 'Filed' : 'Annotate'}
+                    </button>
+                  </div>
+                  <div className="font-mono text-[9px] text-yellow-300/70 truncate pl-3">
+                    {selector}
+                  </div>
+                </div>
+              ))}
+              {filtered.length > MAX_LISTED && (
+                <div className="px-1.5 text-[9px] text-gray-500">… {filtered.length - MAX_LISTED} more</div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Hovered Violation Highlight */}
+      {hovered?.element.isConnected &&
+        createPortal(
+          <div data-debug-inspector>
+            <ElementHighlight
+              rect={hovered.element.getBoundingClientRect()}
+              label={RULE_LABELS[hovered.rule]}
+              tone={hovered.severity === 'error' ? 'red' : 'yellow'}
+            />
+          </div>,
+          document.body
+        )}
+    </>
+  )
+}
+
+registerDebugComponent(AccessibilityPanel)
+
+export default AccessibilityPanel
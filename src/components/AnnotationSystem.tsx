@@ -3,12 +3,18 @@
  * Persistent element comments stored in localStorage
  */
 
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { useAtom } from 'jotai'
 import { atomWithStorage } from 'jotai/utils'
-import { cn, generateId } from '../lib/utils'
-import type { AnnotationSystemOptions, DebugAnnotation } from '../lib/types'
+import { cn, DEBUG_UI_SELECTOR, generateId } from '../lib/utils'
+import { getElementInfo } from '../lib/elementInfo'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { resolveSelector } from '../lib/selector'
+import { addDeepListener, getViewportRect } from '../lib/deepDom'
+import { addPointerGestures } from '../lib/pointerGestures'
+import { formatSourceLocation, openInEditor } from '../lib/sourceLocation'
+import type { AnnotationSystemOptions, DebugAnnotation, EditorTarget, SourceLocation } from '../lib/types'
 
 // ============================================================================
 // Types
@@ -21,7 +27,9 @@ interface AnnotationDialogProps {
     uniqueSelector: string
     componentName?: string
     textContent?: string
+    source?: SourceLocation
   }
+  editor: EditorTarget
   onSave: (annotation: DebugAnnotation) => void
   onClose: () => void
 }
@@ -34,6 +42,7 @@ function generateAIPrompt(elementInfo: AnnotationDialogProps['elementInfo'], com
   return `// #NP-DEBUG - Session-only fix request
 // Element: ${elementInfo.uniqueSelector}
 // React Component: ${elementInfo.componentName || 'Unknown'}
+// Source: ${elementInfo.source ? formatSourceLocation(elementInfo.source) : 'Unknown'}
 // Text Content: ${elementInfo.textContent || 'N/A'}
 
 // User Request:
@@ -50,6 +59,28 @@ before committing to main codebase.
 #NP-DEBUG-END */`
 }
 
+/**
+ * Build a new pending annotation for an element
+ * @param elementInfo - Element the annotation is attached to
+ * @param comment - Annotation text
+ */
+export function createAnnotation(
+  elementInfo: DebugAnnotation['elementInfo'] & { source?: SourceLocation },
+  comment: string
+): DebugAnnotation {
+  return {
+    id: generateId(),
+    selector: elementInfo.uniqueSelector,
+    elementInfo,
+    comment,
+    aiPrompt: generateAIPrompt(elementInfo, comment),
+    timestamp: Date.now(),
+    status: 'pending',
+    url: window.location.href,
+    source: elementInfo.source,
+  }
+}
+
 function formatExport(annotations: DebugAnnotation[]): string {
   let output = `// Debug Annotations Export - ${new Date().toISOString()}\n`
   output += `// Total annotations: ${annotations.length}\n\n`
@@ -57,6 +88,7 @@ function formatExport(annotations: DebugAnnotation[]): string {
   annotations.forEach((anno, index) => {
     output += `// [${index + 1}] ${anno.selector}\n`
     output += `// Component: ${anno.elementInfo.componentName || 'Unknown'}\n`
+    if (anno.source) output += `// Source: ${formatSourceLocation(anno.source)}\n`
     output += `// Comment: ${anno.comment}\n`
     output += `// Generated Prompt:\n${anno.aiPrompt}\n`
     output += `// ----------------------------------------\n\n`
@@ -71,6 +103,7 @@ function formatExport(annotations: DebugAnnotation[]): string {
 
 function AnnotationDialog({
   elementInfo,
+  editor,
   onSave,
   onClose,
 }: AnnotationDialogProps) {
@@ -85,15 +118,7 @@ function AnnotationDialog({
   const handleSave = () => {
     if (!comment.trim()) return
 
-    onSave({
-      id: generateId(),
-      selector: elementInfo.uniqueSelector,
-      elementInfo,
-      comment,
-      aiPrompt,
-      timestamp: Date.now(),
-      status: 'pending',
-    })
+    onSave(createAnnotation(elementInfo, comment))
   }
 
   const handleCopyPrompt = () => {
@@ -117,7 +142,7 @@ function AnnotationDialog({
       onClick={onClose}
     >
       <div
-        className="bg-black/95 rounded-lg p-4 shadow-2xl border border-blue-500/50 max-w-md w-full mx-4"
+        className="bg-black/95 rounded-lg p-4 shadow-2xl border border-blue-500/50 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -127,7 +152,7 @@ function AnnotationDialog({
           </h3>
           <button
             onClick={onClose}
-            className="p-1 hover:bg-white/10 rounded transition-colors text-white/60 hover:text-white"
+            className="p-1 [@media(pointer:coarse)]:p-2.5 hover:bg-white/10 rounded transition-colors text-white/60 hover:text-white"
             title="Close (ESC)"
           >
             ✕
@@ -147,6 +172,22 @@ function AnnotationDialog({
               Component: <span className="text-cyan-400">{elementInfo.componentName}</span>
             </div>
           )}
+          {elementInfo.source && (
+            <div className="flex items-center gap-2 text-[10px] text-gray-400 mt-1">
+              <span className="truncate">
+                Source:{' '}
+                <span className="text-blue-300" title={formatSourceLocation(elementInfo.source)}>
+                  {formatSourceLocation(elementInfo.source, true)}
+                </span>
+              </span>
+              <button
+                onClick={() => elementInfo.source && openInEditor(elementInfo.source, editor)}
+                className="ml-auto shrink-0 text-[9px] px-2 py-0.5 [@media(pointer:coarse)]:py-2 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+              >
+                Open in editor
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Comment Input */}
@@ -176,7 +217,7 @@ function AnnotationDialog({
               <button
                 onClick={handleCopyPrompt}
                 className={cn(
-                  'text-[9px] px-2 py-0.5 rounded transition-colors',
+                  'text-[9px] px-2 py-0.5 [@media(pointer:coarse)]:py-2 rounded transition-colors',
                   copied
                     ? 'bg-green-500 text-white'
                     : 'bg-white/10 text-white/70 hover:bg-white/20'
@@ -197,7 +238,7 @@ function AnnotationDialog({
             onClick={handleSave}
             disabled={!comment.trim()}
             className={cn(
-              'flex-1 px-3 py-2 text-xs rounded transition-colors',
+              'flex-1 px-3 py-2 [@media(pointer:coarse)]:py-3 text-xs rounded transition-colors',
               comment.trim()
                 ? 'bg-blue-500 text-white hover:bg-blue-600'
                 : 'bg-white/10 text-white/40 cursor-not-allowed'
@@ -216,6 +257,7 @@ function AnnotationDialog({
                   aiPrompt,
                   timestamp: Date.now(),
                   status: 'pending',
+                  source: elementInfo.source,
                 },
               ])
               navigator.clipboard.writeText(exportText)
@@ -224,7 +266,7 @@ function AnnotationDialog({
             }}
             disabled={!comment.trim()}
             className={cn(
-              'flex-1 px-3 py-2 text-xs rounded transition-colors',
+              'flex-1 px-3 py-2 [@media(pointer:coarse)]:py-3 text-xs rounded transition-colors',
               comment.trim()
                 ? 'bg-green-500 text-white hover:bg-green-600'
                 : 'bg-white/10 text-white/40 cursor-not-allowed'
@@ -235,7 +277,7 @@ function AnnotationDialog({
           </button>
           <button
             onClick={onClose}
-            className="px-4 py-2 text-xs text-white/60 hover:text-white transition-colors"
+            className="px-4 py-2 [@media(pointer:coarse)]:py-3 text-xs text-white/60 hover:text-white transition-colors"
           >
             Cancel
           </button>
@@ -315,14 +357,20 @@ export function useDebugAnnotations(customAtom?: ReturnType<typeof createAnnotat
 
 /**
  * AnnotationSystem - Click-to-annotate functionality
+ * On touch screens and with pens, a tap opens the dialog instead of activating the
+ * tapped control; presses that scroll are left alone.
  * 
  * @param enabled - Whether annotation mode is active
+ * @param selectorStrategies - Selector strategies in order of preference
+ * @param editor - How "Open in editor" opens source locations
  * @param onAnnotationCountChange - Callback when annotation count changes
  * @param storageKey - Custom localStorage key
  * @param customAtom - Custom Jotai atom (bypasses storageKey if provided)
  */
 export function AnnotationSystem({
   enabled,
+  selectorStrategies,
+  editor = 'vscode',
   onAnnotationCountChange,
   storageKey,
   customAtom,
@@ -336,28 +384,42 @@ export function AnnotationSystem({
   const [dialogElementInfo, setDialogElementInfo] = useState<
     AnnotationDialogProps['elementInfo'] | null
   >(null)
+  const pointerTypeRef = useRef('mouse')
 
-  const handleClick = useCallback(
-    (e: MouseEvent) => {
-      if (!enabled) return
+  /**
+   * Open the dialog for an event's target
+   * @returns Whether the target can be annotated
+   */
+  const annotateTarget = useCallback(
+    (e: Event) => {
+      if (!enabled) return false
 
-      const target = e.target as HTMLElement
-      if (!target || target.closest('[data-debug-annotation]')) return
+      // The innermost target, inside open shadow roots rather than their host
+      const target = e.composedPath()[0] as HTMLElement | undefined
+      if (target?.nodeType !== Node.ELEMENT_NODE || target.closest(DEBUG_UI_SELECTOR)) return false
 
-      const elementInfo = {
-        tagName: target.tagName.toLowerCase(),
-        id: target.id || undefined,
-        uniqueSelector: target.id
-          ? `#${target.id}`
-          : `${target.tagName.toLowerCase()}${target.className ? '.' + Array.from(target.classList).slice(0, 2).join('.') : ''}`,
-        componentName: undefined,
-        textContent: target.textContent?.trim()?.slice(0, 50) || undefined,
-      }
+      const info = getElementInfo(target, { strategies: selectorStrategies })
 
       setDialogElement(target)
-      setDialogElementInfo(elementInfo)
+      setDialogElementInfo({
+        tagName: info.tagName,
+        id: info.id,
+        uniqueSelector: info.uniqueSelector,
+        componentName: info.componentName,
+        textContent: info.textContent,
+        source: info.source,
+      })
+      return true
     },
-    [enabled]
+    [enabled, selectorStrategies]
+  )
+
+  const handleClick = useCallback(
+    (e: MouseEvent) => {
+      // Touch and pen annotate on tap, see addPointerGestures below
+      if (pointerTypeRef.current === 'mouse') annotateTarget(e)
+    },
+    [annotateTarget]
   )
 
   const handleSaveAnnotation = useCallback(
@@ -380,9 +442,19 @@ export function AnnotationSystem({
       return
     }
 
-    document.addEventListener('click', handleClick, true)
-    return () => document.removeEventListener('click', handleClick, true)
-  }, [enabled, handleClick])
+    // Clicks inside same-origin iframes don't reach this document
+    const removePointerDown = addDeepListener('pointerdown', (e) => {
+      pointerTypeRef.current = e.pointerType
+    })
+    const removeClick = addDeepListener('click', handleClick)
+    const removeGestures = addPointerGestures({ onTap: annotateTarget })
+
+    return () => {
+      removePointerDown()
+      removeClick()
+      removeGestures()
+    }
+  }, [enabled, handleClick, annotateTarget])
 
   const annotationCounts = useMemo(() => {
     const counts = new Map<string, number>()
@@ -399,6 +471,7 @@ export function AnnotationSystem({
       {enabled && dialogElement && dialogElementInfo && (
         <AnnotationDialog
           elementInfo={dialogElementInfo}
+          editor={editor}
           onSave={handleSaveAnnotation}
           onClose={() => {
             setDialogElement(null)
@@ -410,9 +483,9 @@ export function AnnotationSystem({
       {/* Annotation Badges */}
       {enabled &&
         Array.from(annotationCounts.entries()).map(([selector, count]) => {
-          const element = document.querySelector(selector) as HTMLElement
+          const element = resolveSelector(selector)
           if (!element) return null
-          const rect = element.getBoundingClientRect()
+          const rect = getViewportRect(element)
           return (
             <AnnotationBadge
               key={selector}
@@ -425,4 +498,6 @@ export function AnnotationSystem({
   )
 }
 
+registerDebugComponent(AnnotationSystem)
+
 export default AnnotationSystem
@@ -5,7 +5,9 @@
 
 import { useMemo, useState } from 'react'
 import { cn } from '../lib/utils'
-import type { AnnotationStatus, DebugAnnotation } from '../lib/types'
+import { annotationToPlaywrightTest } from '../lib/locators'
+import { formatSourceLocation, openInEditor } from '../lib/sourceLocation'
+import type { AnnotationStatus, DebugAnnotation, EditorTarget } from '../lib/types'
 
 // ============================================================================
 // Constants
@@ -40,7 +42,14 @@ function exportAsMarkdown(annotations: DebugAnnotation[]): string {
     md += `## ${cfg.icon} ${anno.elementInfo.uniqueSelector}\n\n`
     md += `- **Status:** ${cfg.label}\n`
     md += `- **Component:** ${anno.elementInfo.componentName || 'Unknown'}\n`
-    md += `- **Created:** ${date}\n\n`
+    md += `- **Created:** ${date}\n`
+    if (anno.url) md += `- **URL:** ${anno.url}\n`
+    if (anno.source) md += `- **Source:** \`${formatSourceLocation(anno.source)}\`\n`
+    if (anno.metrics) {
+      const metrics = Object.entries(anno.metrics).map(([key, value]) => `${key}=${Math.round(value * 100) / 100}`)
+      md += `- **Metrics:** ${metrics.join(', ')}\n`
+    }
+    md += '\n'
     md += `> ${anno.comment}\n\n`
     if (anno.aiPrompt) md += '```\n' + anno.aiPrompt + '\n```\n\n'
     md += '---\n\n'
@@ -56,6 +65,7 @@ interface AnnotationsDashboardProps {
   annotations: Record<string, DebugAnnotation>
   onUpdateAnnotations: (annotations: Record<string, DebugAnnotation>) => void
   onToast?: (message: string, description?: string) => void
+  editor?: EditorTarget
 }
 
 /**
@@ -64,11 +74,13 @@ interface AnnotationsDashboardProps {
  * @param annotations - Current annotations object
  * @param onUpdateAnnotations - Callback to update annotations
  * @param onToast - Optional toast notification function
+ * @param editor - How "Open in editor" opens source locations
  */
 export function AnnotationsDashboard({
   annotations,
   onUpdateAnnotations,
   onToast,
+  editor = 'vscode',
 }: AnnotationsDashboardProps) {
   const [filter, setFilter] = useState<FilterOption>('all')
 
@@ -116,6 +128,11 @@ export function AnnotationsDashboard({
     onToast?.(`Copied ${format.toUpperCase()} to clipboard`, `${list.length} annotation(s) exported`)
   }
 
+  const copyTest = (anno: DebugAnnotation) => {
+    navigator.clipboard.writeText(annotationToPlaywrightTest(anno))
+    onToast?.('Copied Playwright test to clipboard')
+  }
+
   if (Object.keys(annotations).length === 0) {
     return (
       <div className="text-center py-8 text-gray-400">
@@ -188,6 +205,15 @@ export function AnnotationsDashboard({
                   {anno.elementInfo.componentName && (
                     <div className="text-[10px] text-cyan-400">{anno.elementInfo.componentName}</div>
                   )}
+                  {anno.source && (
+                    <button
+                      onClick={() => anno.source && openInEditor(anno.source, editor)}
+                      className="block text-[10px] text-blue-300 hover:underline truncate max-w-full"
+                      title={`Open ${formatSourceLocation(anno.source)} in editor`}
+                    >
+                      {formatSourceLocation(anno.source, true)}
+                    </button>
+                  )}
                 </div>
                 <select
                   value={anno.status}
@@ -203,17 +229,26 @@ export function AnnotationsDashboard({
               {/* Comment */}
               <p className="text-xs text-gray-200">{anno.comment}</p>
 
-              {/* Footer: date + delete */}
+              {/* Footer: date + actions */}
               <div className="flex items-center justify-between">
                 <span className="text-[10px] text-gray-500">
                   {new Date(anno.timestamp).toLocaleDateString()} {new Date(anno.timestamp).toLocaleTimeString()}
                 </span>
-                <button
-                  onClick={() => deleteAnnotation(anno.id)}
-                  className="text-[10px] text-red-400/60 hover:text-red-400 transition-colors"
-                >
-                  Delete
-                </button>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => copyTest(anno)}
+                    className="text-[10px] text-blue-300/70 hover:text-blue-300 transition-colors"
+                    title="Copy a Playwright test stub for this annotation"
+                  >
+                    Copy test
+                  </button>
+                  <button
+                    onClick={() => deleteAnnotation(anno.id)}
+                    className="text-[10px] text-red-400/60 hover:text-red-400 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
               </div>
             </div>
           )
@@ -0,0 +1,86 @@
+/**
+ * Budget Panel Component
+ * Pass/fail state of the configured performance budgets
+ */
+
+import { cn, POSITION_STYLES } from '../lib/utils'
+import { formatBudgetValue } from '../lib/budgets'
+import { registerDebugComponent } from '../lib/reactFiber'
+import type { BudgetPanelOptions, BudgetStatus } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STATE_STYLES: Record<BudgetStatus['state'], { icon: string; text: string }> = {
+  pass: { icon: '✓', text: 'text-green-400' },
+  fail: { icon: '✗', text: 'text-red-400' },
+  inactive: { icon: '–', text: 'text-gray-500' },
+}
+
+// ============================================================================
+// Budget Panel Component
+// ============================================================================
+
+/**
+ * BudgetPanel - Lists performance budgets with their current value and violations
+ *
+ * @param statuses - Current budget statuses
+ * @param position - Position of the panel
+ * @param className - Additional CSS classes
+ */
+export function BudgetPanel({ statuses, position = 'top-left', className }: BudgetPanelOptions) {
+  const failing = statuses.filter((status) => status.state === 'fail').length
+
+  return (
+    <div
+      data-debug-panel
+      className={cn(
+        'fixed z-[9999] w-64',
+        'bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+        'font-mono text-xs',
+        POSITION_STYLES[position],
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-white/10 text-[10px] text-gray-400">
+        <span>BUDGETS</span>
+        {failing > 0 && <span className="text-red-400">{failing} failing</span>}
+      </div>
+
+      {/* Budgets */}
+      <div className="p-1">
+        {statuses.length === 0 && (
+          <div className="px-1.5 py-0.5 text-[10px] text-gray-500">No budgets configured</div>
+        )}
+
+        {statuses.map((status) => {
+          const style = STATE_STYLES[status.state]
+          return (
+            <div
+              key={status.id}
+              className="flex items-center gap-2 px-1.5 py-0.5 text-[10px]"
+              title={status.lastViolation ? `Last violation: ${new Date(status.lastViolation.timestamp).toLocaleTimeString()}` : undefined}
+            >
+              <span className={cn('w-3', style.text)}>{style.icon}</span>
+              <span className={cn('truncate', status.state === 'inactive' ? 'text-gray-500' : 'text-white/80')}>
+                {status.label}
+              </span>
+              <span className={cn('ml-auto tabular-nums', style.text)}>
+                {formatBudgetValue(status.budget.metric, status.value)}
+              </span>
+              {status.violationCount > 0 && (
+                <span className="text-red-400/70 tabular-nums">×{status.violationCount}</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+registerDebugComponent(BudgetPanel)
+
+export default BudgetPanel
@@ -0,0 +1,249 @@
+/**
+ * Component Panel Component
+ * Props, state, hooks, context and owner chain of the component rendering an element
+ */
+
+import { useEffect, useMemo, useReducer, useState, type ReactNode } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { getValueEntries, getValuePreview, inspectComponent, isExpandableValue } from '../lib/componentInspector'
+import { getComponentFibers, getCurrentFiber, getFiberName, registerDebugComponent, type Fiber } from '../lib/reactFiber'
+import { subscribeToCommits } from '../lib/reactCommits'
+import type { HookKind } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HOOK_LABELS: Record<HookKind, string> = {
+  state: 'State',
+  effect: 'Effect',
+  ref: 'Ref',
+  memo: 'Memo',
+  other: 'Hook',
+}
+
+function getValueColor(value: unknown): string {
+  switch (typeof value) {
+    case 'string':
+      return 'text-green-300'
+    case 'number':
+    case 'bigint':
+      return 'text-blue-300'
+    case 'boolean':
+      return 'text-orange-300'
+    case 'function':
+      return 'text-cyan-400'
+    case 'undefined':
+      return 'text-gray-500'
+    default:
+      return value === null ? 'text-gray-500' : 'text-white/70'
+  }
+}
+
+/**
+ * Whether a fiber's props, state or context values differ from a previous version
+ * Identity alone isn't enough: React clones bailed-out fibers on every parent render.
+ */
+function hasFiberChanged(prev: Fiber, next: Fiber): boolean {
+  if (prev.memoizedProps !== next.memoizedProps || prev.memoizedState !== next.memoizedState) return true
+
+  let prevDep = prev.dependencies?.firstContext ?? null
+  let nextDep = next.dependencies?.firstContext ?? null
+  while (prevDep && nextDep) {
+    if (!Object.is(prevDep.memoizedValue, nextDep.memoizedValue)) return true
+    prevDep = prevDep.next
+    nextDep = nextDep.next
+  }
+  return prevDep !== nextDep
+}
+
+// ============================================================================
+// Value Tree
+// ============================================================================
+
+interface ValueNodeProps {
+  label: string
+  value: unknown
+  /** Objects on the path from the root, for cycle detection */
+  ancestors: object[]
+}
+
+function ValueNode({ label, value, ancestors }: ValueNodeProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  const circular = typeof value === 'object' && value !== null && ancestors.includes(value)
+  const expandable = !circular && isExpandableValue(value)
+  const children = useMemo(
+    () => (expanded && expandable ? getValueEntries(value) : null),
+    [expanded, expandable, value]
+  )
+
+  return (
+    <div className="leading-tight">
+      <button
+        onClick={() => expandable && setExpanded(!expanded)}
+        className={cn('flex gap-1 w-full text-left min-w-0', expandable && 'hover:bg-white/5')}
+      >
+        <span className="w-2 shrink-0 text-gray-500">{expandable ? (expanded ? '▾' : '▸') : ''}</span>
+        <span className="text-purple-300 shrink-0">{label}:</span>
+        <span className={cn('truncate', circular ? 'text-gray-500 italic' : getValueColor(value))}>
+          {circular ? '[Circular]' : getValuePreview(value)}
+        </span>
+      </button>
+      {children && (
+        <div className="pl-3">
+          {children.entries.map((entry) => (
+            <ValueNode key={entry.key} label={entry.key} value={entry.value} ancestors={[...ancestors, value as object]} />
+          ))}
+          {children.total > children.entries.length && (
+            <div className="pl-3 text-gray-500">… {children.total - children.entries.length} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface SectionProps {
+  title: string
+  children: ReactNode
+}
+
+function Section({ title, children }: SectionProps) {
+  return (
+    <div className="border-t border-white/10 pt-1 mt-1 first:border-t-0 first:mt-0 first:pt-0">
+      <div className="text-[9px] text-gray-400 mb-0.5">{title}</div>
+      {children}
+    </div>
+  )
+}
+
+// ============================================================================
+// Component Panel Component
+// ============================================================================
+
+interface ComponentPanelProps {
+  element: HTMLElement
+  className?: string
+}
+
+/**
+ * ComponentPanel - React DevTools-style view of the component that rendered an element
+ * Values update after each commit in which the component's props, state or context changed.
+ *
+ * @param element - Element whose owning component is inspected
+ * @param className - Additional CSS classes (positioning is left to the caller)
+ */
+export function ComponentPanel({ element, className }: ComponentPanelProps) {
+  const fibers = useMemo(() => getComponentFibers(element), [element])
+  const [depth, setDepth] = useState(0)
+  const [, refresh] = useReducer((n: number) => n + 1, 0)
+
+  useEffect(() => setDepth(0), [fibers])
+
+  const fiber = fibers[depth] ? getCurrentFiber(fibers[depth]) : undefined
+
+  // Only re-render for changes to the inspected component; this panel's own renders commit too
+  useEffect(() => {
+    const inspected = fibers[depth]
+    if (!inspected) return
+
+    let last = getCurrentFiber(inspected)
+    return subscribeToCommits(() => {
+      const current = getCurrentFiber(inspected)
+      if (hasFiberChanged(last, current)) {
+        last = current
+        refresh()
+      }
+    })
+  }, [fibers, depth])
+
+  const inspection = fiber ? inspectComponent(fiber) : null
+
+  return (
+    <div
+      data-debug-panel
+      className={cn(
+        'w-72 max-h-[80vh] flex flex-col',
+        'bg-black/90 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+        'font-mono text-xs text-white/80',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-white/10">
+        <span className="text-cyan-400 truncate flex-1">
+          {inspection ? `<${inspection.name}>` : 'No component'}
+          {inspection?.key != null && <span className="text-gray-500"> key="{inspection.key}"</span>}
+        </span>
+        <button onClick={refresh} className="p-0.5 rounded hover:bg-white/10 text-white/60" title="Refresh">
+          <RefreshCw className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="p-2 overflow-y-auto text-[10px]">
+        {!inspection && <div className="text-gray-500">This element wasn't rendered by a React component</div>}
+
+        {inspection && (
+          <>
+            <Section title="PROPS">
+              {Object.keys(inspection.props).length === 0 && <div className="text-gray-600">None</div>}
+              {Object.entries(inspection.props).map(([key, value]) => (
+                <ValueNode key={key} label={key} value={value} ancestors={[]} />
+              ))}
+            </Section>
+
+            {inspection.state !== undefined && inspection.state !== null && (
+              <Section title="STATE">
+                <ValueNode label="state" value={inspection.state} ancestors={[]} />
+              </Section>
+            )}
+
+            {inspection.hooks.length > 0 && (
+              <Section title="HOOKS">
+                {inspection.hooks.map((hook) => (
+                  <ValueNode
+                    key={hook.index}
+                    label={`${hook.index} ${HOOK_LABELS[hook.kind]}`}
+                    value={hook.value}
+                    ancestors={[]}
+                  />
+                ))}
+              </Section>
+            )}
+
+            {inspection.contexts.length > 0 && (
+              <Section title="CONTEXT">
+                {inspection.contexts.map((context, index) => (
+                  <ValueNode key={index} label={context.name} value={context.value} ancestors={[]} />
+                ))}
+              </Section>
+            )}
+          </>
+        )}
+
+        {fibers.length > 1 && (
+          <Section title="RENDERED BY">
+            {fibers.map((owner, index) => (
+              <button
+                key={index}
+                onClick={() => setDepth(index)}
+                className={cn(
+                  'block w-full text-left truncate rounded px-1 transition-colors',
+                  index === depth ? 'bg-cyan-500/20 text-cyan-300' : 'text-white/60 hover:bg-white/10'
+                )}
+              >
+                {getFiberName(owner) || 'Anonymous'}
+              </button>
+            ))}
+          </Section>
+        )}
+      </div>
+    </div>
+  )
+}
+
+registerDebugComponent(ComponentPanel)
+
+export default ComponentPanel
@@ -0,0 +1,264 @@
+/**
+ * Component Search Component
+ * Highlights every instance of a React component, with step-through and bulk annotation
+ */
+
+import { useCallback, useEffect, useReducer, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { cn } from '../lib/utils'
+import { findComponentInstances } from '../lib/componentSearch'
+import { getElementInfo } from '../lib/elementInfo'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { formatSourceLocation } from '../lib/sourceLocation'
+import type { ComponentInstance, ComponentSearchOptions } from '../lib/types'
+import { createAnnotation, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
+import { ElementHighlight } from './ElementHighlight'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Searching walks the whole fiber tree, so it waits for a pause in typing
+const SEARCH_DELAY = 150
+
+const INPUT_CLASS =
+  'min-w-0 bg-white/5 rounded px-1.5 py-0.5 text-[10px] border border-white/10 focus:border-blue-500/50 focus:outline-none text-white'
+
+function getFirstHTMLElement(instance: ComponentInstance): HTMLElement | undefined {
+  return instance.elements.find((element): element is HTMLElement => element instanceof HTMLElement)
+}
+
+// ============================================================================
+// Component Search Component
+// ============================================================================
+
+/**
+ * ComponentSearch - Find where a component is used on the current screen
+ * Every DOM root of every matching instance is outlined with its index. Results list
+ * the props of each instance; Enter / Shift+Enter step through them, scrolling each
+ * into view, and all of them can be annotated at once.
+ *
+ * @param enabled - Whether the search is open
+ * @param initialQuery - Component name to search for when the search opens or the value changes
+ * @param onClose - Callback when the search should be closed (ESC)
+ * @param className - Additional CSS classes
+ * @param customAtom - Custom Jotai atom for created annotations
+ */
+export function ComponentSearch({
+  enabled,
+  initialQuery = '',
+  onClose,
+  className,
+  customAtom,
+}: ComponentSearchOptions & { customAtom?: ReturnType<typeof createAnnotationsAtom> }) {
+  const [query, setQuery] = useState(initialQuery)
+  const [instances, setInstances] = useState<ComponentInstance[]>([])
+  const [current, setCurrent] = useState(0)
+  const [comment, setComment] = useState('')
+  const [annotatedCount, setAnnotatedCount] = useState(0)
+  // Bumped to search again after the page changes
+  const [searchCount, refresh] = useReducer((n: number) => n + 1, 0)
+  const [, setAnnotations] = useDebugAnnotations(customAtom)
+  // Re-render to follow the elements while scrolling
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0)
+
+  useEffect(() => {
+    if (enabled && initialQuery) setQuery(initialQuery)
+  }, [enabled, initialQuery])
+
+  useEffect(() => {
+    if (!enabled) return
+    const timeout = setTimeout(() => {
+      setInstances(findComponentInstances(query))
+      setCurrent(0)
+      setAnnotatedCount(0)
+    }, SEARCH_DELAY)
+    return () => clearTimeout(timeout)
+  }, [enabled, query, searchCount])
+
+  const step = useCallback(
+    (delta: number) => {
+      if (instances.length === 0) return
+      const next = (current + delta + instances.length) % instances.length
+      setCurrent(next)
+      instances[next].elements[0]?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    },
+    [instances, current]
+  )
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose?.()
+    },
+    [onClose]
+  )
+
+  useEffect(() => {
+    if (!enabled) return
+
+    document.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('scroll', forceUpdate, true)
+    window.addEventListener('resize', forceUpdate)
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('scroll', forceUpdate, true)
+      window.removeEventListener('resize', forceUpdate)
+    }
+  }, [enabled, handleKeyDown])
+
+  const handleAnnotateAll = () => {
+    const text = comment.trim()
+    if (!text) return
+
+    const created = instances.flatMap((instance) => {
+      const element = getFirstHTMLElement(instance)
+      if (!element) return []
+      const info = getElementInfo(element)
+      return [
+        createAnnotation(
+          {
+            tagName: info.tagName,
+            id: info.id,
+            uniqueSelector: info.uniqueSelector,
+            componentName: instance.name,
+            textContent: info.textContent,
+            source: instance.source ?? info.source,
+          },
+          text
+        ),
+      ]
+    })
+
+    setAnnotations((prev) => ({ ...prev, ...Object.fromEntries(created.map((a) => [a.id, a])) }))
+    setAnnotatedCount(created.length)
+    setComment('')
+  }
+
+  if (!enabled) return null
+
+  return createPortal(
+    <div data-debug-inspector className={className}>
+      {/* Instance Highlights */}
+      {instances.map((instance, i) =>
+        instance.elements
+          .filter((element) => element.isConnected)
+          .map((element, j) => (
+            <ElementHighlight
+              key={`${instance.index}-${j}`}
+              rect={element.getBoundingClientRect()}
+              tone={i === current ? 'green' : 'yellow'}
+              label={j === 0 ? `#${instance.index} ${instance.name}` : undefined}
+            />
+          ))
+      )}
+
+      {/* Panel */}
+      <div
+        data-debug-panel
+        className="fixed z-[9999] top-2 left-1/2 -translate-x-1/2 w-96 max-h-[60vh] flex flex-col bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10 font-mono text-xs"
+      >
+        <div className="flex items-center gap-1 px-2 py-1 border-b border-white/10">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && step(e.shiftKey ? -1 : 1)}
+            placeholder="Component name…"
+            className={cn(INPUT_CLASS, 'flex-1')}
+          />
+          <span className="text-[10px] text-gray-400 shrink-0">
+            {instances.length > 0 ? `${current + 1}/${instances.length}` : '0'}
+          </span>
+          <button
+            onClick={() => step(-1)}
+            disabled={instances.length === 0}
+            className="px-1 rounded text-white/70 hover:bg-white/10 disabled:text-white/20"
+            title="Previous (Shift+Enter)"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => step(1)}
+            disabled={instances.length === 0}
+            className="px-1 rounded text-white/70 hover:bg-white/10 disabled:text-white/20"
+            title="Next (Enter)"
+          >
+            ↓
+          </button>
+          <button
+            onClick={refresh}
+            className="px-1 rounded text-white/70 hover:bg-white/10"
+            title="Search again"
+          >
+            ⟳
+          </button>
+        </div>
+
+        {/* Results */}
+        <div className="overflow-y-auto text-[10px]">
+          {query.trim() && instances.length === 0 && (
+            <div className="px-2 py-1 text-gray-500">No mounted components match "{query.trim()}"</div>
+          )}
+          {instances.map((instance, i) => (
+            <button
+              key={instance.index}
+              onClick={() => {
+                setCurrent(i)
+                instance.elements[0]?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+              }}
+              className={cn(
+                'block w-full text-left px-2 py-0.5 leading-tight transition-colors',
+                i === current ? 'bg-green-500/15' : 'hover:bg-white/10'
+              )}
+            >
+              <div className="flex items-center gap-1.5">
+                <span className="text-gray-500">#{instance.index}</span>
+                <span className="text-cyan-400">{instance.name}</span>
+                {instance.elements.length === 0 && <span className="text-gray-500">renders nothing</span>}
+                {instance.source && (
+                  <span className="ml-auto text-blue-300 truncate" title={formatSourceLocation(instance.source)}>
+                    {formatSourceLocation(instance.source, true)}
+                  </span>
+                )}
+              </div>
+              {instance.propsSummary && (
+                <div className="text-white/60 truncate" title={instance.propsSummary}>
+                  {instance.propsSummary}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* Bulk Annotation */}
+        {instances.length > 0 && (
+          <div className="flex items-center gap-1 px-2 py-1 border-t border-white/10">
+            <input
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAnnotateAll()}
+              placeholder={annotatedCount > 0 ? `Annotated ${annotatedCount} instances` : 'Note for every instance…'}
+              className={cn(INPUT_CLASS, 'flex-1')}
+            />
+            <button
+              onClick={handleAnnotateAll}
+              disabled={!comment.trim()}
+              className={cn(
+                'shrink-0 text-[10px] px-1.5 py-0.5 rounded transition-colors',
+                comment.trim() ? 'bg-white/10 text-white/70 hover:bg-white/20' : 'text-white/20 cursor-not-allowed'
+              )}
+            >
+              Annotate all
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
+
+registerDebugComponent(ComponentSearch)
+
+export default ComponentSearch
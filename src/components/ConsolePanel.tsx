@@ -0,0 +1,174 @@
+/**
+ * Console Panel Component
+ * Searchable log of console output, runtime errors and caught render errors
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { cn, POSITION_STYLES } from '../lib/utils'
+import { captureConsole, clearConsoleEntries, getConsoleEntries, subscribeToConsole } from '../lib/consoleCapture'
+import { registerDebugComponent } from '../lib/reactFiber'
+import type { ConsoleEntry, ConsoleLevel, ConsolePanelOptions } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LEVEL_FILTERS = ['all', 'error', 'warn', 'log'] as const
+type LevelFilter = (typeof LEVEL_FILTERS)[number]
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  error: 'text-red-400 bg-red-500/5',
+  warn: 'text-yellow-300 bg-yellow-500/5',
+  log: 'text-white/80',
+}
+
+const SOURCE_LABELS: Record<ConsoleEntry['source'], string> = {
+  console: '',
+  runtime: 'uncaught',
+  promise: 'rejection',
+  react: 'boundary',
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.toLocaleTimeString([], { hour12: false })}.${date.getMilliseconds().toString().padStart(3, '0')}`
+}
+
+// ============================================================================
+// Console Panel Component
+// ============================================================================
+
+/**
+ * ConsolePanel - Captured console messages and errors
+ * Capture starts when the panel mounts if DebugOverlay has not already started it
+ *
+ * @param position - Position of the panel
+ * @param className - Additional CSS classes
+ */
+export function ConsolePanel({ position = 'bottom-left', className }: ConsolePanelOptions) {
+  const [entries, setEntries] = useState<ConsoleEntry[]>(getConsoleEntries)
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all')
+  const [search, setSearch] = useState('')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stop = captureConsole()
+    const unsubscribe = subscribeToConsole(setEntries)
+    setEntries(getConsoleEntries())
+    return () => {
+      unsubscribe()
+      stop()
+    }
+  }, [])
+
+  const counts = useMemo(() => {
+    const result: Record<LevelFilter, number> = { all: entries.length, error: 0, warn: 0, log: 0 }
+    entries.forEach((entry) => result[entry.level]++)
+    return result
+  }, [entries])
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return entries.filter(
+      (entry) =>
+        (levelFilter === 'all' || entry.level === levelFilter) &&
+        (!query || entry.message.toLowerCase().includes(query) || entry.stack?.toLowerCase().includes(query))
+    )
+  }, [entries, levelFilter, search])
+
+  return (
+    <div
+      data-debug-panel
+      className={cn(
+        'fixed z-[9999] w-[26rem] max-w-[calc(100vw-1rem)]',
+        'bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+        'font-mono text-xs',
+        POSITION_STYLES[position],
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-white/10">
+        <span className="text-[10px] text-gray-400">CONSOLE</span>
+        <button
+          onClick={() => {
+            clearConsoleEntries()
+            setExpanded(null)
+          }}
+          className="p-0.5 hover:bg-white/10 rounded transition-colors"
+          title="Clear"
+        >
+          <Trash2 className="w-3 h-3 text-white/50" />
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-1 px-2 py-1">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search messages…"
+          className="flex-1 min-w-0 bg-white/5 rounded px-1.5 py-0.5 text-[10px] border border-white/10
+                     focus:border-blue-500/50 focus:outline-none text-white"
+        />
+        {LEVEL_FILTERS.map((opt) => (
+          <button
+            key={opt}
+            onClick={() => setLevelFilter(opt)}
+            className={cn(
+              'text-[10px] px-1.5 py-0.5 rounded transition-colors',
+              levelFilter === opt ? 'bg-blue-500 text-white' : 'text-white/60 hover:bg-white/10'
+            )}
+          >
+            {opt} ({counts[opt]})
+          </button>
+        ))}
+      </div>
+
+      {/* Entries */}
+      <div className="max-h-72 overflow-y-auto px-1 pb-1 space-y-px">
+        {filtered.length === 0 && (
+          <div className="px-1 py-2 text-[10px] text-gray-500">
+            {entries.length === 0 ? 'No messages captured yet' : 'No messages match the filter'}
+          </div>
+        )}
+
+        {filtered.map((entry) => {
+          const hasDetails = !!entry.stack || !!entry.componentStack
+          return (
+            <div key={entry.id} className={cn('rounded px-1 py-0.5 text-[10px]', LEVEL_STYLES[entry.level])}>
+              <button
+                onClick={() => hasDetails && setExpanded((prev) => (prev === entry.id ? null : entry.id))}
+                className={cn('flex gap-2 w-full text-left', hasDetails && 'cursor-pointer')}
+              >
+                <span className="text-white/30 shrink-0">{formatTime(entry.timestamp)}</span>
+                <span className={cn('break-words min-w-0', expanded !== entry.id && 'line-clamp-3')}>
+                  {SOURCE_LABELS[entry.source] && (
+                    <span className="text-white/40">[{SOURCE_LABELS[entry.source]}] </span>
+                  )}
+                  {entry.message}
+                </span>
+              </button>
+
+              {expanded === entry.id && (
+                <div className="mt-0.5 ml-4 space-y-1">
+                  {entry.componentStack && (
+                    <pre className="text-[9px] text-cyan-300/80 whitespace-pre-wrap break-all">{entry.componentStack}</pre>
+                  )}
+                  {entry.stack && (
+                    <pre className="text-[9px] text-gray-500 whitespace-pre-wrap break-all max-h-32 overflow-auto">{entry.stack}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+registerDebugComponent(ConsolePanel)
+
+export default ConsolePanel
@@ -0,0 +1,74 @@
+/**
+ * Debug Error Boundary Component
+ * Reports caught render errors, with component stacks, to the console panel log
+ */
+
+import { Component, type ErrorInfo, type ReactNode } from 'react'
+import { reportConsoleEntry } from '../lib/consoleCapture'
+import type { DebugErrorBoundaryProps } from '../lib/types'
+
+interface DebugErrorBoundaryState {
+  error: Error | null
+}
+
+/**
+ * DebugErrorBoundary - Error boundary that logs caught errors to the debug console
+ *
+ * @param children - Subtree to guard
+ * @param fallback - Rendered instead of the subtree after an error; receives a reset function
+ * @param onError - Called with the error and component stack
+ *
+ * @example
+ * ```tsx
+ * <DebugErrorBoundary fallback={(error, reset) => <button onClick={reset}>Retry</button>}>
+ *   <Dashboard />
+ * </DebugErrorBoundary>
+ * ```
+ */
+export class DebugErrorBoundary extends Component<DebugErrorBoundaryProps, DebugErrorBoundaryState> {
+  state: DebugErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): DebugErrorBoundaryState {
+    return { error }
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    const componentStack = info.componentStack ?? undefined
+    reportConsoleEntry({
+      level: 'error',
+      source: 'react',
+      message: `${error.name}: ${error.message}`,
+      stack: error.stack,
+      componentStack: componentStack?.trim(),
+    })
+    this.props.onError?.(error, componentStack)
+  }
+
+  reset = () => {
+    this.setState({ error: null })
+  }
+
+  render(): ReactNode {
+    const { error } = this.state
+    if (!error) return this.props.children
+
+    const { fallback } = this.props
+    if (typeof fallback === 'function') return fallback(error, this.reset)
+    if (fallback !== undefined) return fallback
+
+    return (
+      <div className="rounded-md border border-red-500/50 bg-red-500/10 p-3 text-xs text-red-300 font-mono">
+        <div className="font-semibold mb-1">Something went wrong</div>
+        <div className="break-words">{error.message}</div>
+        <button
+          onClick={this.reset}
+          className="mt-2 px-2 py-1 rounded bg-red-500/20 hover:bg-red-500/30 text-red-200 transition-colors"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  }
+}
+
+export default DebugErrorBoundary
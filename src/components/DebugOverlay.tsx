@@ -3,13 +3,27 @@
  * Main container combining FPS, element inspector, and annotation features
  */
 
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react'
 import { createPortal } from 'react-dom'
-import { cn } from '../lib/utils'
+import { cn, downloadFile, POSITION_STYLES } from '../lib/utils'
+import { exportRecordingAsJson, exportRecordingAsTrace, PerformanceRecorder } from '../lib/recorder'
+import { getReactFiberName, registerDebugComponent } from '../lib/reactFiber'
+import { captureConsole, getConsoleEntries, subscribeToConsole } from '../lib/consoleCapture'
+import { BudgetMonitor, formatBudgetValue } from '../lib/budgets'
 import { FPSOverlay } from './FPSOverlay'
+import { RenderProfilerPanel } from './RenderProfilerPanel'
+import { RenderHighlighter } from './RenderHighlighter'
+import { LayoutShiftVisualizer } from './LayoutShiftVisualizer'
+import { WebVitalsPanel } from './WebVitalsPanel'
+import { NetworkPanel } from './NetworkPanel'
+import { ConsolePanel } from './ConsolePanel'
+import { BudgetPanel } from './BudgetPanel'
+import { AccessibilityPanel } from './AccessibilityPanel'
 import { ElementInspector } from './ElementInspector'
-import { AnnotationSystem, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
-import type { DebugOverlayOptions, OverlayPosition } from '../lib/types'
+import { MeasureTool } from './MeasureTool'
+import { ComponentSearch } from './ComponentSearch'
+import { AnnotationSystem, createAnnotation, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
+import type { BudgetStatus, BudgetViolation, DebugOverlayOptions, OverlayPosition, PerformanceRecording } from '../lib/types'
 
 import {
   Activity,
@@ -22,6 +36,20 @@ import {
   Power,
   Cpu,
   MessageSquare,
+  Circle,
+  Square,
+  Flag,
+  Download,
+  Gauge,
+  Sparkles,
+  Timer,
+  Globe,
+  Terminal,
+  Target,
+  Scan,
+  Accessibility,
+  Ruler,
+  Search,
 } from 'lucide-react'
 
 // ============================================================================
@@ -30,14 +58,37 @@ import {
 
 interface MiniControlPanelProps {
   showFps: boolean
+  showProfiler: boolean
+  showWebVitals: boolean
+  showNetwork: boolean
+  showConsole: boolean
+  errorCount: number
+  showBudgets: boolean
+  hasBudgets: boolean
+  failingBudgetCount: number
   showInspector: boolean
+  showMeasure: boolean
+  showComponentSearch: boolean
+  showRenderHighlights: boolean
+  showLayoutShifts: boolean
+  showAccessibility: boolean
   showProcessInfo: boolean
   showAnnotations: boolean
   annotationCount: number
   position: OverlayPosition
   minimized: boolean
   onToggleFps: () => void
+  onToggleProfiler: () => void
+  onToggleWebVitals: () => void
+  onToggleNetwork: () => void
+  onToggleConsole: () => void
+  onToggleBudgets: () => void
   onToggleInspector: () => void
+  onToggleMeasure: () => void
+  onToggleComponentSearch: () => void
+  onToggleRenderHighlights: () => void
+  onToggleLayoutShifts: () => void
+  onToggleAccessibility: () => void
   onToggleProcessInfo: () => void
   onToggleAnnotations: () => void
   onChangePosition: (pos: OverlayPosition) => void
@@ -48,6 +99,42 @@ interface MiniControlPanelProps {
   onColdReloadCancel: () => void
   coldReloadActive: boolean
   coldReloadProgress: number
+  recording: boolean
+  recordingElapsed: number
+  hasRecording: boolean
+  onToggleRecording: () => void
+  onAddMark: () => void
+  onExportRecording: (format: 'json' | 'trace') => void
+}
+
+// Panels in a stack flow in its column rather than each being pinned to the corner
+const STACKED_PANEL_CLASS = 'static'
+
+function formatElapsed(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = seconds % 60
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+// ============================================================================
+// Panel Stack
+// ============================================================================
+
+/**
+ * Column of panels sharing a corner, so each stays visible and usable
+ */
+function PanelStack({ position, children }: { position: OverlayPosition; children: ReactNode }) {
+  return (
+    <div
+      className={cn(
+        'fixed z-[9999] flex flex-col gap-2 max-h-[calc(100vh-1rem)] overflow-y-auto',
+        position.endsWith('right') ? 'items-end' : 'items-start',
+        POSITION_STYLES[position]
+      )}
+    >
+      {children}
+    </div>
+  )
 }
 
 // ============================================================================
@@ -56,14 +143,37 @@ interface MiniControlPanelProps {
 
 function MiniControlPanel({
   showFps,
+  showProfiler,
+  showWebVitals,
+  showNetwork,
+  showConsole,
+  errorCount,
+  showBudgets,
+  hasBudgets,
+  failingBudgetCount,
   showInspector,
+  showMeasure,
+  showComponentSearch,
+  showRenderHighlights,
+  showLayoutShifts,
+  showAccessibility,
   showProcessInfo,
   showAnnotations,
   annotationCount,
   position,
   minimized,
   onToggleFps,
+  onToggleProfiler,
+  onToggleWebVitals,
+  onToggleNetwork,
+  onToggleConsole,
+  onToggleBudgets,
   onToggleInspector,
+  onToggleMeasure,
+  onToggleComponentSearch,
+  onToggleRenderHighlights,
+  onToggleLayoutShifts,
+  onToggleAccessibility,
   onToggleProcessInfo,
   onToggleAnnotations,
   onChangePosition,
@@ -74,6 +184,12 @@ function MiniControlPanel({
   onColdReloadCancel,
   coldReloadActive,
   coldReloadProgress,
+  recording,
+  recordingElapsed,
+  hasRecording,
+  onToggleRecording,
+  onAddMark,
+  onExportRecording,
 }: MiniControlPanelProps) {
   const positions: OverlayPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right']
   const currentIndex = positions.indexOf(position)
@@ -88,31 +204,36 @@ function MiniControlPanel({
       <div className="fixed bottom-2 right-2 z-[9999]">
         <button
           onClick={onToggleMinimize}
-          className="bg-black/80 backdrop-blur-sm rounded-md p-2 shadow-lg border border-white/10 hover:bg-black/90 transition-colors"
-          title="Expand debug panel"
+          className="relative bg-black/80 backdrop-blur-sm rounded-md p-2 shadow-lg border border-white/10 hover:bg-black/90 transition-colors"
+          title={errorCount > 0 ? `Expand debug panel (${errorCount} errors)` : 'Expand debug panel'}
         >
           <Maximize2 className="w-4 h-4 text-white/70" />
+          {errorCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full min-w-4 h-4 px-1 flex items-center justify-center text-[8px] font-bold">
+              {errorCount > 99 ? '99+' : errorCount}
+            </span>
+          )}
         </button>
       </div>
     )
   }
 
   return (
-    <div className="fixed bottom-2 right-2 z-[9999] bg-black/80 backdrop-blur-sm rounded-lg shadow-xl border border-white/10">
+    <div className="fixed bottom-2 right-2 z-[9999] max-h-[calc(100vh-1rem)] overflow-y-auto bg-black/80 backdrop-blur-sm rounded-lg shadow-xl border border-white/10">
       {/* Header */}
       <div className="flex items-center justify-between px-2 py-1 border-b border-white/10">
         <span className="text-[10px] font-mono text-gray-400">DEBUG</span>
         <div className="flex items-center gap-1">
           <button
             onClick={onToggleMinimize}
-            className="p-0.5 hover:bg-white/10 rounded transition-colors"
+            className="p-0.5 [@media(pointer:coarse)]:p-2 hover:bg-white/10 rounded transition-colors"
             title="Minimize"
           >
             <Minimize2 className="w-3 h-3 text-white/50" />
           </button>
           <button
             onClick={onClose}
-            className="p-0.5 hover:bg-white/10 rounded transition-colors"
+            className="p-0.5 [@media(pointer:coarse)]:p-2 hover:bg-white/10 rounded transition-colors"
             title="Close debug mode"
           >
             <X className="w-3 h-3 text-white/50" />
@@ -126,7 +247,7 @@ function MiniControlPanel({
         <button
           onClick={onToggleFps}
           className={cn(
-            'flex items-center gap-2 w-full px-2 py-1 rounded text-xs transition-colors',
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
             showFps
               ? 'bg-green-500/20 text-green-400'
               : 'hover:bg-white/10 text-white/70'
@@ -137,11 +258,107 @@ function MiniControlPanel({
           <span className="ml-auto text-[10px] opacity-60">{showFps ? 'ON' : 'OFF'}</span>
         </button>
 
+        {/* Render Profiler Toggle */}
+        <button
+          onClick={onToggleProfiler}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showProfiler
+              ? 'bg-cyan-500/20 text-cyan-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Record React commits and show why components rendered"
+        >
+          <Gauge className="w-3 h-3" />
+          <span>Render Profiler</span>
+          <span className="ml-auto text-[10px] opacity-60">{showProfiler ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Web Vitals Toggle */}
+        <button
+          onClick={onToggleWebVitals}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showWebVitals
+              ? 'bg-emerald-500/20 text-emerald-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Core Web Vitals with culprit elements"
+        >
+          <Timer className="w-3 h-3" />
+          <span>Web Vitals</span>
+          <span className="ml-auto text-[10px] opacity-60">{showWebVitals ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Network Toggle */}
+        <button
+          onClick={onToggleNetwork}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showNetwork
+              ? 'bg-indigo-500/20 text-indigo-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Capture fetch and XMLHttpRequest traffic"
+        >
+          <Globe className="w-3 h-3" />
+          <span>Network</span>
+          <span className="ml-auto text-[10px] opacity-60">{showNetwork ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Console Toggle */}
+        <button
+          onClick={onToggleConsole}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showConsole
+              ? 'bg-orange-500/20 text-orange-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Console messages and runtime errors"
+        >
+          <Terminal className="w-3 h-3" />
+          <span>Console</span>
+          <span className="ml-auto flex items-center gap-1">
+            {errorCount > 0 && (
+              <span className="bg-red-500 text-white rounded-full min-w-4 h-4 px-1 flex items-center justify-center text-[8px]">
+                {errorCount > 99 ? '99+' : errorCount}
+              </span>
+            )}
+            <span className="text-[10px] opacity-60">{showConsole ? 'ON' : 'OFF'}</span>
+          </span>
+        </button>
+
+        {/* Budgets Toggle */}
+        {hasBudgets && (
+          <button
+            onClick={onToggleBudgets}
+            className={cn(
+              'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+              showBudgets
+                ? 'bg-teal-500/20 text-teal-400'
+                : 'hover:bg-white/10 text-white/70'
+            )}
+            title="Performance budgets and violations"
+          >
+            <Target className="w-3 h-3" />
+            <span>Budgets</span>
+            <span className="ml-auto flex items-center gap-1">
+              {failingBudgetCount > 0 && (
+                <span className="bg-red-500 text-white rounded-full min-w-4 h-4 px-1 flex items-center justify-center text-[8px]">
+                  {failingBudgetCount}
+                </span>
+              )}
+              <span className="text-[10px] opacity-60">{showBudgets ? 'ON' : 'OFF'}</span>
+            </span>
+          </button>
+        )}
+
         {/* Inspector Toggle */}
         <button
           onClick={onToggleInspector}
           className={cn(
-            'flex items-center gap-2 w-full px-2 py-1 rounded text-xs transition-colors',
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
             showInspector
               ? 'bg-blue-500/20 text-blue-400'
               : 'hover:bg-white/10 text-white/70'
@@ -152,11 +369,91 @@ function MiniControlPanel({
           <span className="ml-auto text-[10px] opacity-60">{showInspector ? 'ON' : 'OFF'}</span>
         </button>
 
+        {/* Measure Toggle */}
+        <button
+          onClick={onToggleMeasure}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showMeasure
+              ? 'bg-rose-500/20 text-rose-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Measure distances between elements, with a grid overlay"
+        >
+          <Ruler className="w-3 h-3" />
+          <span>Measure</span>
+          <span className="ml-auto text-[10px] opacity-60">{showMeasure ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Component Search Toggle */}
+        <button
+          onClick={onToggleComponentSearch}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showComponentSearch
+              ? 'bg-amber-500/20 text-amber-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Highlight every instance of a React component"
+        >
+          <Search className="w-3 h-3" />
+          <span>Find Component</span>
+          <span className="ml-auto text-[10px] opacity-60">{showComponentSearch ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Render Highlight Toggle */}
+        <button
+          onClick={onToggleRenderHighlights}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showRenderHighlights
+              ? 'bg-yellow-500/20 text-yellow-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Outline elements whose components re-rendered"
+        >
+          <Sparkles className="w-3 h-3" />
+          <span>Highlight Renders</span>
+          <span className="ml-auto text-[10px] opacity-60">{showRenderHighlights ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Layout Shift Toggle */}
+        <button
+          onClick={onToggleLayoutShifts}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showLayoutShifts
+              ? 'bg-red-500/20 text-red-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Flash layout shifts and moved or resized regions; click one to inspect it"
+        >
+          <Scan className="w-3 h-3" />
+          <span>Layout Shifts</span>
+          <span className="ml-auto text-[10px] opacity-60">{showLayoutShifts ? 'ON' : 'OFF'}</span>
+        </button>
+
+        {/* Accessibility Toggle */}
+        <button
+          onClick={onToggleAccessibility}
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+            showAccessibility
+              ? 'bg-violet-500/20 text-violet-400'
+              : 'hover:bg-white/10 text-white/70'
+          )}
+          title="Audit names, contrast and keyboard access of the selection or page"
+        >
+          <Accessibility className="w-3 h-3" />
+          <span>Accessibility</span>
+          <span className="ml-auto text-[10px] opacity-60">{showAccessibility ? 'ON' : 'OFF'}</span>
+        </button>
+
         {/* Process Info Toggle */}
         <button
           onClick={onToggleProcessInfo}
           className={cn(
-            'flex items-center gap-2 w-full px-2 py-1 rounded text-xs transition-colors',
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
             showProcessInfo
               ? 'bg-purple-500/20 text-purple-400'
               : 'hover:bg-white/10 text-white/70'
@@ -171,7 +468,7 @@ function MiniControlPanel({
         <button
           onClick={onToggleAnnotations}
           className={cn(
-            'flex items-center gap-2 w-full px-2 py-1 rounded text-xs transition-colors',
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
             showAnnotations
               ? 'bg-pink-500/20 text-pink-400'
               : 'hover:bg-white/10 text-white/70'
@@ -193,7 +490,7 @@ function MiniControlPanel({
         {/* Position Cycle */}
         <button
           onClick={cyclePosition}
-          className="flex items-center gap-2 w-full px-2 py-1 rounded text-xs hover:bg-white/10 text-white/70 transition-colors"
+          className="flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs hover:bg-white/10 text-white/70 transition-colors"
         >
           <Move className="w-3 h-3" />
           <span>Position</span>
@@ -203,10 +500,61 @@ function MiniControlPanel({
         {/* Divider */}
         <div className="border-t border-white/10 my-1" />
 
+        {/* Performance Recording */}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleRecording}
+            className={cn(
+              'flex items-center gap-2 flex-1 px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors',
+              recording
+                ? 'bg-red-500/20 text-red-400'
+                : 'hover:bg-white/10 text-white/70'
+            )}
+            title={recording ? 'Stop performance recording' : 'Start performance recording'}
+          >
+            {recording ? <Square className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+            <span>{recording ? 'Stop' : 'Record'}</span>
+            {recording && (
+              <span className="ml-auto text-[10px] opacity-60 font-mono">{formatElapsed(recordingElapsed)}</span>
+            )}
+          </button>
+          {recording && (
+            <button
+              onClick={onAddMark}
+              className="p-1 [@media(pointer:coarse)]:p-2.5 rounded hover:bg-white/10 text-white/70 transition-colors"
+              title="Add a mark to the recording"
+            >
+              <Flag className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        {!recording && hasRecording && (
+          <div className="flex items-center gap-1 pl-2 text-[10px]">
+            <Download className="w-3 h-3 text-white/50" />
+            <button
+              onClick={() => onExportRecording('json')}
+              className="px-1.5 py-0.5 [@media(pointer:coarse)]:py-2 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+              title="Download recording as JSON"
+            >
+              JSON
+            </button>
+            <button
+              onClick={() => onExportRecording('trace')}
+              className="px-1.5 py-0.5 [@media(pointer:coarse)]:py-2 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+              title="Download as Chrome trace (chrome://tracing, Perfetto)"
+            >
+              Trace
+            </button>
+          </div>
+        )}
+
+        {/* Divider */}
+        <div className="border-t border-white/10 my-1" />
+
         {/* Hot Reload Button */}
         <button
           onClick={onHotReload}
-          className="flex items-center gap-2 w-full px-2 py-1 rounded text-xs
+          className="flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs
                          bg-orange-500/20 text-orange-400
                          hover:bg-orange-500/30 transition-colors"
           title="Hot reload (refresh current page)"
@@ -217,11 +565,13 @@ function MiniControlPanel({
 
         {/* Cold Reload Button */}
         <button
-          onMouseDown={onColdReloadStart}
-          onMouseUp={onColdReloadCancel}
-          onMouseLeave={onColdReloadCancel}
+          onPointerDown={onColdReloadStart}
+          onPointerUp={onColdReloadCancel}
+          onPointerLeave={onColdReloadCancel}
+          onPointerCancel={onColdReloadCancel}
+          onContextMenu={(e) => e.preventDefault()}
           className={cn(
-            'flex items-center gap-2 w-full px-2 py-1 rounded text-xs transition-colors',
+            'flex items-center gap-2 w-full px-2 py-1 [@media(pointer:coarse)]:py-2.5 rounded text-xs transition-colors touch-none select-none',
             coldReloadActive
               ? 'bg-red-500 text-white animate-pulse'
               : 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
@@ -249,7 +599,17 @@ function MiniControlPanel({
 interface DebugOverlayState {
   enabled: boolean
   showFps: boolean
+  showProfiler: boolean
+  showWebVitals: boolean
+  showNetwork: boolean
+  showConsole: boolean
+  showBudgets: boolean
   showInspector: boolean
+  showMeasure: boolean
+  showComponentSearch: boolean
+  showRenderHighlights: boolean
+  showLayoutShifts: boolean
+  showAccessibility: boolean
   showAnnotations: boolean
   position: OverlayPosition
 }
@@ -260,6 +620,10 @@ interface DebugOverlayState {
  * @param className - Additional CSS classes
  * @param onClose - Callback when debug mode is closed
  * @param getProcessInfo - Optional function to fetch backend process info
+ * @param budgets - Performance budgets to enforce while debug mode is on
+ * @param annotateBudgetViolations - Whether violations create annotations automatically
+ * @param selectorStrategies - Selector strategies for the inspector and annotations
+ * @param editor - How "Open in editor" opens source locations
  * 
  * @example
  * ```tsx
@@ -275,12 +639,30 @@ interface DebugOverlayState {
  * }
  * ```
  */
-export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverlayOptions) {
+export function DebugOverlay({
+  className,
+  onClose,
+  getProcessInfo,
+  budgets,
+  annotateBudgetViolations = true,
+  selectorStrategies,
+  editor,
+}: DebugOverlayOptions) {
   // Internal state (can be controlled via external state management if needed)
   const [state, setState] = useState<DebugOverlayState>({
     enabled: true,
     showFps: false,
+    showProfiler: false,
+    showWebVitals: false,
+    showNetwork: false,
+    showConsole: false,
+    showBudgets: false,
     showInspector: false,
+    showMeasure: false,
+    showComponentSearch: false,
+    showRenderHighlights: false,
+    showLayoutShifts: false,
+    showAccessibility: false,
     showAnnotations: false,
     position: 'top-right',
   })
@@ -291,8 +673,81 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
   const [coldReloadProgress, setColdReloadProgress] = useState(0)
   const coldReloadTimeoutRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
+  const recorderRef = useRef<PerformanceRecorder | null>(null)
+  const markCountRef = useRef(0)
+  const [recording, setRecording] = useState(false)
+  const [recordingElapsed, setRecordingElapsed] = useState(0)
+  const [lastRecording, setLastRecording] = useState<PerformanceRecording | null>(null)
+
   // Get annotations for the count
-  const [annotations] = useDebugAnnotations()
+  const [annotations, setAnnotations] = useDebugAnnotations()
+
+  // Enforce performance budgets while debug mode is on
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([])
+  const budgetMonitorRef = useRef<BudgetMonitor | null>(null)
+  const annotateBudgetViolationsRef = useRef(annotateBudgetViolations)
+  annotateBudgetViolationsRef.current = annotateBudgetViolations
+
+  const hasBudgets = !!budgets && budgets.length > 0
+  useEffect(() => {
+    if (!state.enabled || !hasBudgets) return
+
+    const handleViolation = (violation: BudgetViolation) => {
+      if (!annotateBudgetViolationsRef.current) return
+      const annotation = createAnnotation(
+        violation.elementInfo ?? { tagName: 'body', uniqueSelector: 'body' },
+        `Budget violated: ${violation.label} (was ${formatBudgetValue(violation.metric, violation.value)}).`
+      )
+      setAnnotations((prev) => ({
+        ...prev,
+        [annotation.id]: {
+          ...annotation,
+          url: violation.url,
+          metrics: {
+            ...Object.fromEntries(
+              Object.entries(violation.snapshot).filter((entry): entry is [string, number] => entry[1] !== undefined)
+            ),
+            threshold: violation.threshold,
+          },
+        },
+      }))
+    }
+
+    // Budgets are applied by the effect below
+    const monitor = new BudgetMonitor([], { onViolation: handleViolation })
+    budgetMonitorRef.current = monitor
+    const unsubscribe = monitor.subscribe(setBudgetStatuses)
+    monitor.start()
+
+    return () => {
+      unsubscribe()
+      monitor.stop()
+      budgetMonitorRef.current = null
+    }
+  }, [state.enabled, hasBudgets, setAnnotations])
+
+  // Budgets are often declared inline, so swap them in without restarting the monitor
+  useEffect(() => {
+    budgetMonitorRef.current?.setBudgets(budgets ?? [])
+  }, [budgets, state.enabled, hasBudgets])
+
+  const failingBudgetCount = budgetStatuses.filter((status) => status.state === 'fail').length
+
+  // Capture console output while debug mode is on, counting errors for the badge
+  const [errorCount, setErrorCount] = useState(0)
+  useEffect(() => {
+    if (!state.enabled) return
+
+    const countErrors = () => getConsoleEntries().filter((entry) => entry.level === 'error').length
+    const stop = captureConsole()
+    const unsubscribe = subscribeToConsole(() => setErrorCount(countErrors()))
+    setErrorCount(countErrors())
+
+    return () => {
+      unsubscribe()
+      stop()
+    }
+  }, [state.enabled])
 
   const handleClose = useCallback(() => {
     setState((prev) => ({ ...prev, enabled: false }))
@@ -303,8 +758,49 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
     setState((prev) => ({ ...prev, showFps: !prev.showFps }))
   }, [])
 
+  const handleToggleProfiler = useCallback(() => {
+    setState((prev) => ({ ...prev, showProfiler: !prev.showProfiler }))
+  }, [])
+
+  const handleToggleWebVitals = useCallback(() => {
+    setState((prev) => ({ ...prev, showWebVitals: !prev.showWebVitals }))
+  }, [])
+
+  const handleToggleNetwork = useCallback(() => {
+    setState((prev) => ({ ...prev, showNetwork: !prev.showNetwork }))
+  }, [])
+
+  const handleToggleConsole = useCallback(() => {
+    setState((prev) => ({ ...prev, showConsole: !prev.showConsole }))
+  }, [])
+
+  const handleToggleBudgets = useCallback(() => {
+    setState((prev) => ({ ...prev, showBudgets: !prev.showBudgets }))
+  }, [])
+
+  // The inspector and measure tool both take over clicks, so only one runs at a time
   const handleToggleInspector = useCallback(() => {
-    setState((prev) => ({ ...prev, showInspector: !prev.showInspector }))
+    setState((prev) => ({ ...prev, showInspector: !prev.showInspector, showMeasure: false }))
+  }, [])
+
+  const handleToggleMeasure = useCallback(() => {
+    setState((prev) => ({ ...prev, showMeasure: !prev.showMeasure, showInspector: false }))
+  }, [])
+
+  const handleToggleComponentSearch = useCallback(() => {
+    setState((prev) => ({ ...prev, showComponentSearch: !prev.showComponentSearch }))
+  }, [])
+
+  const handleToggleRenderHighlights = useCallback(() => {
+    setState((prev) => ({ ...prev, showRenderHighlights: !prev.showRenderHighlights }))
+  }, [])
+
+  const handleToggleLayoutShifts = useCallback(() => {
+    setState((prev) => ({ ...prev, showLayoutShifts: !prev.showLayoutShifts }))
+  }, [])
+
+  const handleToggleAccessibility = useCallback(() => {
+    setState((prev) => ({ ...prev, showAccessibility: !prev.showAccessibility }))
   }, [])
 
   const handleToggleAnnotations = useCallback(() => {
@@ -331,6 +827,8 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
   }, [])
 
   const handleColdReloadStart = useCallback(() => {
+    // A second finger on the button shouldn't start a second countdown
+    if (coldReloadTimeoutRef.current) clearInterval(coldReloadTimeoutRef.current)
     setColdReloadActive(true)
     let progress = 0
     const interval = setInterval(() => {
@@ -353,14 +851,71 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
     setColdReloadProgress(0)
   }, [])
 
+  const handleToggleRecording = useCallback(() => {
+    if (recorderRef.current?.isRecording) {
+      setLastRecording(recorderRef.current.stop())
+      setRecording(false)
+      return
+    }
+
+    recorderRef.current = new PerformanceRecorder({ getProcessInfo })
+    recorderRef.current.start()
+    markCountRef.current = 0
+    setRecordingElapsed(0)
+    setRecording(true)
+  }, [getProcessInfo])
+
+  // Marks are numbered rather than prompted for, so adding one doesn't block the main thread
+  const handleAddMark = useCallback(() => {
+    markCountRef.current++
+    recorderRef.current?.mark(`Mark ${markCountRef.current}`)
+  }, [])
+
+  const handleExportRecording = useCallback(
+    (format: 'json' | 'trace') => {
+      if (!lastRecording) return
+      const stamp = new Date(lastRecording.startedAt).toISOString().replace(/[:.]/g, '-')
+      if (format === 'json') {
+        downloadFile(`perf-recording-${stamp}.json`, exportRecordingAsJson(lastRecording))
+      } else {
+        downloadFile(`perf-trace-${stamp}.json`, exportRecordingAsTrace(lastRecording))
+      }
+    },
+    [lastRecording]
+  )
+
+  // Tick the elapsed recording time
+  useEffect(() => {
+    if (!recording) return
+    const interval = setInterval(() => setRecordingElapsed((prev) => prev + 1), 1000)
+    return () => clearInterval(interval)
+  }, [recording])
+
+  // Stop any recording on unmount
+  useEffect(() => () => {
+    recorderRef.current?.stop()
+  }, [])
+
+  const [selectedElement, setSelectedElement] = useState<HTMLElement | null>(null)
+
   const handleElementSelect = useCallback(
     (element: HTMLElement, info: unknown) => {
+      setSelectedElement(element)
       console.log('[Debug] Selected element:', element)
       console.log('[Debug] Element info:', info)
     },
     []
   )
 
+  // Selecting from another tool shows the element in the inspector
+  const handleExternalSelect = useCallback(
+    (element: HTMLElement, info: unknown) => {
+      handleElementSelect(element, info)
+      setState((prev) => ({ ...prev, showInspector: true, showMeasure: false }))
+    },
+    [handleElementSelect]
+  )
+
   // Don't render if not enabled
   if (!state.enabled) {
     return null
@@ -374,28 +929,91 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
           position={state.position}
           showMemory={true}
           showProcessInfo={showProcessInfo}
+          budgetStatuses={hasBudgets ? budgetStatuses : undefined}
           getProcessInfo={getProcessInfo}
         />
       )}
 
+      {/* Render Profiler, Network and Console */}
+      <PanelStack position="bottom-left">
+        {state.showProfiler && <RenderProfilerPanel className={STACKED_PANEL_CLASS} />}
+        {state.showNetwork && <NetworkPanel className={STACKED_PANEL_CLASS} />}
+        {state.showConsole && <ConsolePanel className={STACKED_PANEL_CLASS} />}
+      </PanelStack>
+
+      {/* Web Vitals, Budgets and Accessibility */}
+      <PanelStack position="top-left">
+        {state.showWebVitals && <WebVitalsPanel className={STACKED_PANEL_CLASS} />}
+        {state.showBudgets && hasBudgets && <BudgetPanel statuses={budgetStatuses} className={STACKED_PANEL_CLASS} />}
+        {state.showAccessibility && <AccessibilityPanel element={selectedElement} className={STACKED_PANEL_CLASS} />}
+      </PanelStack>
+
       {/* Element Inspector */}
       <ElementInspector
         enabled={state.showInspector}
+        selectedElement={selectedElement}
+        selectorStrategies={selectorStrategies}
+        editor={editor}
         onElementSelect={handleElementSelect}
-        onDisable={() => setState((prev) => ({ ...prev, showInspector: false }))}
+        onDisable={() => {
+          setSelectedElement(null)
+          setState((prev) => ({ ...prev, showInspector: false }))
+        }}
+      />
+
+      {/* Measure Tool */}
+      <MeasureTool
+        enabled={state.showMeasure}
+        onDisable={() => setState((prev) => ({ ...prev, showMeasure: false }))}
       />
 
+      {/* Component Search */}
+      <ComponentSearch
+        enabled={state.showComponentSearch}
+        initialQuery={selectedElement ? getReactFiberName(selectedElement) : undefined}
+        onClose={() => setState((prev) => ({ ...prev, showComponentSearch: false }))}
+      />
+
+      {/* Render Highlighter */}
+      <RenderHighlighter enabled={state.showRenderHighlights} />
+
+      {/* Layout Shift Visualizer */}
+      <LayoutShiftVisualizer enabled={state.showLayoutShifts} onElementSelect={handleExternalSelect} />
+
       {/* Mini Control Panel */}
       <MiniControlPanel
         showFps={state.showFps}
+        showProfiler={state.showProfiler}
+        showWebVitals={state.showWebVitals}
+        showNetwork={state.showNetwork}
+        showConsole={state.showConsole}
+        errorCount={errorCount}
+        showBudgets={state.showBudgets}
+        hasBudgets={hasBudgets}
+        failingBudgetCount={failingBudgetCount}
         showInspector={state.showInspector}
+        showMeasure={state.showMeasure}
+        showComponentSearch={state.showComponentSearch}
+        showRenderHighlights={state.showRenderHighlights}
+        showLayoutShifts={state.showLayoutShifts}
+        showAccessibility={state.showAccessibility}
         showProcessInfo={showProcessInfo}
         showAnnotations={state.showAnnotations}
         annotationCount={Object.keys(annotations).length}
         position={state.position}
         minimized={minimized}
         onToggleFps={handleToggleFps}
+        onToggleProfiler={handleToggleProfiler}
+        onToggleWebVitals={handleToggleWebVitals}
+        onToggleNetwork={handleToggleNetwork}
+        onToggleConsole={handleToggleConsole}
+        onToggleBudgets={handleToggleBudgets}
         onToggleInspector={handleToggleInspector}
+        onToggleMeasure={handleToggleMeasure}
+        onToggleComponentSearch={handleToggleComponentSearch}
+        onToggleRenderHighlights={handleToggleRenderHighlights}
+        onToggleLayoutShifts={handleToggleLayoutShifts}
+        onToggleAccessibility={handleToggleAccessibility}
         onToggleProcessInfo={handleToggleProcessInfo}
         onToggleAnnotations={handleToggleAnnotations}
         onChangePosition={handleChangePosition}
@@ -406,11 +1024,19 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
         onColdReloadCancel={handleColdReloadCancel}
         coldReloadActive={coldReloadActive}
         coldReloadProgress={coldReloadProgress}
+        recording={recording}
+        recordingElapsed={recordingElapsed}
+        hasRecording={lastRecording !== null}
+        onToggleRecording={handleToggleRecording}
+        onAddMark={handleAddMark}
+        onExportRecording={handleExportRecording}
       />
 
       {/* Annotation System */}
       <AnnotationSystem
         enabled={state.showAnnotations}
+        selectorStrategies={selectorStrategies}
+        editor={editor}
         onAnnotationCountChange={() => {}}
       />
     </div>,
@@ -418,6 +1044,8 @@ export function DebugOverlay({ className, onClose, getProcessInfo }: DebugOverla
   )
 }
 
+registerDebugComponent(DebugOverlay)
+
 export default DebugOverlay
 
 // Export utilities
@@ -0,0 +1,133 @@
+/**
+ * Element Highlight Component
+ * Fixed-position rectangle drawn over an element, shared by the inspector and panels
+ */
+
+import type { ReactNode } from 'react'
+import { cn } from '../lib/utils'
+import type { BoxEdges, BoxModel } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TONE_STYLES = {
+  blue: { box: 'border-blue-500 bg-blue-500/10', label: 'bg-blue-500' },
+  green: { box: 'border-green-500 bg-green-500/10', label: 'bg-green-500' },
+  yellow: { box: 'border-yellow-500 bg-yellow-500/10', label: 'bg-yellow-500' },
+  red: { box: 'border-red-500 bg-red-500/10', label: 'bg-red-500' },
+  pink: { box: 'border-pink-500 bg-pink-500/10', label: 'bg-pink-500' },
+} as const
+
+export type HighlightTone = keyof typeof TONE_STYLES
+
+// DevTools box model colours
+const BOX_MODEL_COLORS = {
+  margin: 'rgba(246, 178, 107, 0.55)',
+  border: 'rgba(255, 229, 153, 0.6)',
+  padding: 'rgba(147, 196, 125, 0.55)',
+  content: 'rgba(111, 168, 220, 0.55)',
+}
+
+function toBorderWidth(edges: BoxEdges): string {
+  // Negative margins overlap the box and can't be drawn as a band
+  return [edges.top, edges.right, edges.bottom, edges.left].map((size) => `${Math.max(0, size)}px`).join(' ')
+}
+
+// ============================================================================
+// Element Highlight Component
+// ============================================================================
+
+interface ElementHighlightProps {
+  rect: Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>
+  label?: ReactNode
+  tone?: HighlightTone
+  className?: string
+}
+
+/**
+ * ElementHighlight - Outline and label for a viewport rectangle
+ *
+ * @param rect - Viewport rectangle to outline
+ * @param label - Optional label drawn above the top-left corner
+ * @param tone - Colour of the outline and label
+ * @param className - Additional CSS classes
+ */
+export function ElementHighlight({ rect, label, tone = 'blue', className }: ElementHighlightProps) {
+  const styles = TONE_STYLES[tone]
+
+  return (
+    <div
+      className={cn('fixed pointer-events-none z-[9998] border-2', styles.box, className)}
+      style={{
+        left: rect.left,
+        top: rect.top,
+        width: rect.width,
+        height: rect.height,
+      }}
+    >
+      {label !== undefined && (
+        <div className={cn('absolute -top-5 left-0 text-white text-[10px] px-1 rounded-sm whitespace-nowrap', styles.label)}>
+          {label}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// Box Model Highlight Component
+// ============================================================================
+
+interface BoxModelHighlightProps {
+  rect: Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>
+  boxModel: BoxModel
+  label?: ReactNode
+}
+
+/**
+ * BoxModelHighlight - DevTools-style margin, border, padding and content layers
+ *
+ * @param rect - Border box of the element in viewport coordinates
+ * @param boxModel - Box model sizes of the element
+ * @param label - Optional label drawn above the margin box
+ */
+export function BoxModelHighlight({ rect, boxModel, label }: BoxModelHighlightProps) {
+  const { margin } = boxModel
+
+  return (
+    <div
+      className="fixed pointer-events-none z-[9998] box-content border-solid"
+      style={{
+        left: rect.left - Math.max(0, margin.left),
+        top: rect.top - Math.max(0, margin.top),
+        width: rect.width,
+        height: rect.height,
+        borderWidth: toBorderWidth(margin),
+        borderColor: BOX_MODEL_COLORS.margin,
+      }}
+    >
+      <div
+        className="w-full h-full box-border border-solid"
+        style={{ borderWidth: toBorderWidth(boxModel.border), borderColor: BOX_MODEL_COLORS.border }}
+      >
+        <div
+          className="w-full h-full box-border border-solid"
+          style={{
+            borderWidth: toBorderWidth(boxModel.padding),
+            borderColor: BOX_MODEL_COLORS.padding,
+            backgroundColor: BOX_MODEL_COLORS.content,
+          }}
+        />
+      </div>
+
+      {label !== undefined && (
+        <div className="absolute -top-5 left-0 bg-blue-500 text-white text-[10px] px-1 rounded-sm whitespace-nowrap">
+          {label}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ElementHighlight
@@ -3,171 +3,346 @@
  * Hover highlighting and element info display for DOM inspection
  */
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { Fragment, useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
-import type { ElementInfo, ElementInspectorOptions } from '../lib/types'
+import { cn, DEBUG_UI_SELECTOR } from '../lib/utils'
+import {
+  addDeepListener,
+  deepElementsFromPoint,
+  getComposedParent,
+  getInnerRoot,
+  getViewportRect,
+  isRootElement,
+} from '../lib/deepDom'
+import { getDomAncestors, getDomPath, getElementInfo } from '../lib/elementInfo'
+import { addPointerGestures } from '../lib/pointerGestures'
+import { getComponentRootElement, registerDebugComponent } from '../lib/reactFiber'
+import { formatSourceLocation, openInEditor } from '../lib/sourceLocation'
+import type { ElementInfo, ElementInspectorOptions, FrameOffset } from '../lib/types'
+import { ComponentPanel } from './ComponentPanel'
+import { BoxModelHighlight, ElementHighlight } from './ElementHighlight'
+import { LocatorMenu } from './LocatorMenu'
+import { StylePanel } from './StylePanel'
 
 // ============================================================================
-// Utility Functions
+// Selection Navigation
 // ============================================================================
 
-/**
- * Extract React component name from fiber internals
- */
-function getReactFiberName(element: HTMLElement): string | undefined {
-  const fiberKey = Object.keys(element).find(
-    (key) => key.startsWith('__reactFiber$') || key.startsWith('__reactInternalInstance$')
-  )
+type NavigationDirection = 'parent' | 'child' | 'previous' | 'next' | 'component'
+
+const NAVIGATION: Array<{ direction: NavigationDirection; key: string; label: string }> = [
+  { direction: 'parent', key: '↑', label: 'Parent' },
+  { direction: 'child', key: '↓', label: 'Child' },
+  { direction: 'previous', key: '←', label: 'Prev' },
+  { direction: 'next', key: '→', label: 'Next' },
+  { direction: 'component', key: 'C', label: 'Component' },
+]
+
+const KEY_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: 'parent',
+  ArrowDown: 'child',
+  ArrowLeft: 'previous',
+  ArrowRight: 'next',
+  c: 'component',
+}
 
-  if (!fiberKey) return undefined
+// Drag handle diameter in px, about a fingertip
+const HANDLE_SIZE = 44
 
-  try {
-    let fiber = (element as unknown as Record<string, unknown>)[fiberKey]
-    while (fiber) {
-      const name = (fiber as { type?: { displayName?: string; name?: string } }).type?.displayName || (fiber as { type?: { name?: string } }).type?.name
-      if (name && !name.startsWith('_') && name !== 'div' && name !== 'span') {
-        return name
-      }
-      fiber = (fiber as { return?: unknown }).return as typeof fiber
-    }
-  } catch {
-    // Ignore errors
-  }
+// How far above the finger the drag handle probes, so the finger doesn't hide the target
+const PROBE_OFFSET = 48
 
-  return undefined
+function isInspectable(element: Element | null): element is HTMLElement {
+  return !!element && !isRootElement(element) && !element.closest(DEBUG_UI_SELECTOR)
 }
 
 /**
- * Extract #NP comments from element
+ * Innermost inspectable element at a point in the top-level viewport
  */
-function extractNPComment(element: HTMLElement): string | undefined {
-  const npData = (element as HTMLElement & { dataset?: Record<string, string> }).dataset?.np || element.getAttribute('data-np')
-  if (npData) return npData
-
-  let parent = element.parentElement
-  let depth = 0
-  while (parent && depth < 3) {
-    const parentNp = (parent as HTMLElement & { dataset?: Record<string, string> }).dataset?.np || parent.getAttribute('data-np')
-    if (parentNp) return parentNp
-    parent = parent.parentElement
-    depth++
-  }
-
-  return undefined
+function getInspectableAt(x: number, y: number): HTMLElement | undefined {
+  return deepElementsFromPoint(x, y).find(isInspectable)
 }
 
 /**
- * Generate unique CSS selector for an element
+ * Element reached by moving the selection, skipping the toolkit's own UI
  */
-function generateUniqueSelector(element: HTMLElement): string {
-  if (element.id) {
-    return `#${element.id}`
-  }
-
-  const testId = element.getAttribute('data-testid')
-  if (testId) {
-    return `[data-testid="${testId}"]`
-  }
-
-  const npData = (element as HTMLElement & { dataset?: Record<string, string> }).dataset?.np
-  if (npData) {
-    return `[data-np="${npData}"]`
-  }
-
-  const path: string[] = []
-  let current: HTMLElement | null = element
-
-  while (current && current !== document.body) {
-    let selector = current.tagName.toLowerCase()
-
-    if (current.id) {
-      selector = `#${current.id}`
-      path.unshift(selector)
+function getNavigationTarget(element: HTMLElement, direction: NavigationDirection): HTMLElement | null {
+  let target: Element | null = null
+
+  switch (direction) {
+    case 'parent':
+      target = getComposedParent(element)
+      // From the top of a frame document to the iframe itself
+      while (target && isRootElement(target)) target = getComposedParent(target)
+      break
+    case 'child': {
+      // Into an open shadow root or same-origin frame when there is one
+      const inner = getInnerRoot(element)
+      const container = inner?.nodeType === Node.DOCUMENT_NODE ? (inner as Document).body : inner
+      target = container?.firstElementChild ?? element.firstElementChild
+      while (target && !isInspectable(target)) target = target.nextElementSibling
       break
     }
+    case 'previous':
+      target = element.previousElementSibling
+      while (target && !isInspectable(target)) target = target.previousElementSibling
+      break
+    case 'next':
+      target = element.nextElementSibling
+      while (target && !isInspectable(target)) target = target.nextElementSibling
+      break
+    case 'component':
+      target = getComponentRootElement(element)
+      break
+  }
 
-    if (current.className && typeof current.className === 'string') {
-      const classes = Array.from(current.classList)
-      if (classes.length > 0) {
-        selector += '.' + classes.slice(0, 2).join('.')
-      }
-    }
-
-    const siblings = Array.from(current.parentElement?.children || [])
-    const index = siblings.indexOf(current)
-    if (index >= 0) {
-      selector += `:nth-child(${index + 1})`
-    }
+  return isInspectable(target) ? target : null
+}
 
-    path.unshift(selector)
-    current = current.parentElement
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  )
+}
 
-    if (path.length > 10) break
-  }
+// ============================================================================
+// Selection Bar
+// ============================================================================
 
-  return path.join(' > ')
+interface SelectionBarProps {
+  element: HTMLElement
+  onSelect: (element: HTMLElement) => void
 }
 
 /**
- * Extract DOM path for element
+ * Clickable DOM path breadcrumb, navigation buttons and test locators for the selected element
  */
-function getDomPath(element: HTMLElement): string[] {
-  const path: string[] = []
-  let current: HTMLElement | null = element
-
-  while (current && current !== document.body) {
-    let part = current.tagName.toLowerCase()
-    if (current.id) {
-      part += `#${current.id}`
-    }
-    path.unshift(part)
-    current = current.parentElement
+function SelectionBar({ element, onSelect }: SelectionBarProps) {
+  const ancestors = getDomAncestors(element)
+  const domPath = getDomPath(element)
+
+  return (
+    <div
+      data-debug-panel
+      className="fixed z-[9999] bottom-2 left-1/2 -translate-x-1/2 max-w-[60vw] bg-black/90 backdrop-blur-sm rounded-md shadow-lg border border-white/10 font-mono text-[10px] px-2 py-1"
+    >
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-0.5 overflow-x-auto whitespace-nowrap">
+        {ancestors.map((ancestor, index) => (
+          <Fragment key={index}>
+            {index > 0 && <span className="text-gray-600">›</span>}
+            <button
+              onClick={() => onSelect(ancestor)}
+              className={cn(
+                'px-1 rounded transition-colors',
+                ancestor === element ? 'bg-green-500/20 text-green-400' : 'text-white/60 hover:bg-white/10'
+              )}
+            >
+              {domPath[index]}
+            </button>
+          </Fragment>
+        ))}
+      </div>
+
+      {/* Navigation */}
+      <div className="flex items-center gap-1 mt-1 border-t border-white/10 pt-1">
+        {NAVIGATION.map(({ direction, key, label }) => {
+          const target = getNavigationTarget(element, direction)
+          return (
+            <button
+              key={direction}
+              onClick={() => target && onSelect(target)}
+              disabled={!target}
+              className={cn(
+                'px-1.5 py-0.5 rounded transition-colors',
+                target ? 'text-white/70 hover:bg-white/10' : 'text-white/20 cursor-not-allowed'
+              )}
+            >
+              <span className="text-gray-400">{key}</span> {label}
+            </button>
+          )
+        })}
+        <LocatorMenu element={element} className="ml-auto" />
+      </div>
+    </div>
+  )
+}
 
-    if (path.length > 8) break
-  }
+// ============================================================================
+// Drag Handle
+// ============================================================================
 
-  return path
+interface DragHandleProps {
+  rect: DOMRect
+  /** Called with the probe point while dragging */
+  onMove: (point: { x: number; y: number }) => void
+  /** Called with the probe point when the handle is let go */
+  onRelease: (point: { x: number; y: number }) => void
 }
 
 /**
- * Extract text content for interactive elements
+ * Handle below the selection for touch and pen; dragging it moves the selection to the
+ * element under the crosshair drawn above the finger
  */
-function extractTextContent(element: HTMLElement): string | undefined {
-  const text = element.textContent?.trim()
-  if (!text) return undefined
-  if (text.length > 50) {
-    return text.slice(0, 47) + '...'
+function DragHandle({ rect, onMove, onRelease }: DragHandleProps) {
+  const [drag, setDrag] = useState<{ x: number; y: number } | null>(null)
+
+  const half = HANDLE_SIZE / 2
+  const position = drag ?? {
+    x: Math.max(half, Math.min(rect.left + rect.width / 2, window.innerWidth - half)),
+    y: Math.max(half, Math.min(rect.bottom + HANDLE_SIZE, window.innerHeight - half)),
   }
-  return text
+
+  return (
+    <>
+      {/* Probe Crosshair */}
+      {drag && (
+        <div
+          className="fixed z-[10000] pointer-events-none w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-green-400 bg-green-400/30"
+          style={{ left: drag.x, top: drag.y - PROBE_OFFSET }}
+        />
+      )}
+      <div
+        data-debug-panel
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          setDrag({ x: e.clientX, y: e.clientY })
+        }}
+        onPointerMove={(e) => {
+          if (!drag) return
+          setDrag({ x: e.clientX, y: e.clientY })
+          onMove({ x: e.clientX, y: e.clientY - PROBE_OFFSET })
+        }}
+        onPointerUp={(e) => {
+          if (!drag) return
+          setDrag(null)
+          onRelease({ x: e.clientX, y: e.clientY - PROBE_OFFSET })
+        }}
+        onPointerCancel={() => setDrag(null)}
+        className="fixed z-[10000] flex items-center justify-center -translate-x-1/2 -translate-y-1/2 rounded-full bg-green-500/80 border-2 border-white shadow-lg text-white text-lg touch-none select-none"
+        style={{ left: position.x, top: position.y, width: HANDLE_SIZE, height: HANDLE_SIZE }}
+        title="Drag to move the selection"
+      >
+        ✥
+      </div>
+    </>
+  )
 }
 
-/**
- * Get comprehensive element information
- */
-function getElementInfo(element: HTMLElement): ElementInfo {
-  const rect = element.getBoundingClientRect()
-
-  return {
-    tagName: element.tagName.toLowerCase(),
-    id: element.id || undefined,
-    classList: Array.from(element.classList),
-    dimensions: {
-      width: Math.round(rect.width),
-      height: Math.round(rect.height),
-    },
-    position: {
-      x: Math.round(rect.left),
-      y: Math.round(rect.top),
-    },
-    componentName: getReactFiberName(element),
-    npComment: extractNPComment(element),
-    uniqueSelector: generateUniqueSelector(element),
-    domPath: getDomPath(element),
-    ariaLabel: element.getAttribute('aria-label') || undefined,
-    textContent: extractTextContent(element),
-    role: element.getAttribute('role') || undefined,
-    dataTestId: element.getAttribute('data-testid') || undefined,
-  }
+// ============================================================================
+// Element Info Tooltip
+// ============================================================================
+
+interface ElementInfoTooltipProps {
+  info: ElementInfo
+  position: { x: number; y: number }
+  hint: string
+  /** Shows an "Open in editor" button and makes the tooltip interactive */
+  onOpenSource?: () => void
+}
+
+function ElementInfoTooltip({ info: elementInfo, position, hint, onOpenSource }: ElementInfoTooltipProps) {
+  const interactive = !!onOpenSource && !!elementInfo.source
+
+  return (
+    <div
+      data-debug-panel={interactive || undefined}
+      className={cn(
+        'fixed z-[9999] bg-black/90 backdrop-blur-sm rounded-lg p-2 shadow-xl border border-white/10 max-w-xs',
+        !interactive && 'pointer-events-none'
+      )}
+      style={{
+        left: Math.max(0, Math.min(position.x, window.innerWidth - 280)),
+        top: Math.max(0, Math.min(position.y, window.innerHeight - 200)),
+      }}
+    >
+      {/* Tag Name */}
+      <div className="font-mono text-xs">
+        <span className="text-purple-400">&lt;{elementInfo.tagName}</span>
+        {elementInfo.id && (
+          <span className="text-yellow-400"> id="{elementInfo.id}"</span>
+        )}
+        <span className="text-purple-400">&gt;</span>
+      </div>
+
+      {/* React Component Name */}
+      {elementInfo.componentName && (
+        <div className="text-xs mt-1">
+          <span className="text-gray-400">Component: </span>
+          <span className="text-cyan-400">{elementInfo.componentName}</span>
+        </div>
+      )}
+
+      {/* Source Location */}
+      {elementInfo.source && (
+        <div className="flex items-center gap-2 text-[10px] mt-1">
+          <span className="text-gray-400 shrink-0">Source: </span>
+          <span className="text-blue-300 truncate" title={formatSourceLocation(elementInfo.source)}>
+            {formatSourceLocation(elementInfo.source, true)}
+          </span>
+          {interactive && (
+            <button
+              onClick={onOpenSource}
+              className="ml-auto shrink-0 text-[9px] px-1.5 py-0.5 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+            >
+              Open in editor
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Classes */}
+      {elementInfo.classList.length > 0 && (
+        <div className="text-[10px] mt-1 text-gray-500 truncate max-w-[260px]">
+          .{elementInfo.classList.slice(0, 5).join(' .')}
+          {elementInfo.classList.length > 5 && ` (+${elementInfo.classList.length - 5})`}
+        </div>
+      )}
+
+      {/* NP Comment */}
+      {elementInfo.npComment && (
+        <div className="text-[10px] mt-1 text-green-400 border-t border-white/10 pt-1">
+          #NP: {elementInfo.npComment}
+        </div>
+      )}
+
+      {/* Unique Selector */}
+      <div className="text-[9px] mt-1 border-t border-white/10 pt-1">
+        <div className="text-gray-500 mb-0.5">Selector:</div>
+        <div className="font-mono text-yellow-300 break-all">
+          {elementInfo.uniqueSelector}
+        </div>
+      </div>
+
+      {/* Text Content */}
+      {elementInfo.textContent && (
+        <div className="text-[10px] mt-1">
+          <span className="text-gray-400">Text: </span>
+          <span className="text-white/80">"{elementInfo.textContent}"</span>
+        </div>
+      )}
+
+      {/* Accessibility Info */}
+      {(elementInfo.ariaLabel || elementInfo.role) && (
+        <div className="text-[10px] mt-1 text-gray-500">
+          {elementInfo.role && <span>Role: {elementInfo.role}</span>}
+          {elementInfo.ariaLabel && (
+            <span title={elementInfo.ariaLabel}>
+              {elementInfo.role ? ' • ' : ''}Label: "{elementInfo.ariaLabel.slice(0, 20)}{elementInfo.ariaLabel.length > 20 ? '...' : ''}"
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Instructions */}
+      <div className="text-[10px] mt-2 text-gray-500 border-t border-white/10 pt-1">
+        {hint}
+      </div>
+    </div>
+  )
 }
 
 // ============================================================================
@@ -176,14 +351,28 @@ function getElementInfo(element: HTMLElement): ElementInfo {
 
 /**
  * ElementInspector - Inspect DOM elements with hover highlighting
+ * Clicking pins the selection; arrow keys then move it to the parent, first child
+ * or siblings, and C jumps to the nearest React component's outermost element.
+ * On touch screens, tap-and-hold pins the element under the finger and a drag handle
+ * refines it; short taps reach the page. Pens hover and tap like a mouse.
  * 
  * @param enabled - Whether the inspector is active
- * @param onElementSelect - Callback when element is clicked
+ * @param selectedElement - Selected element; omit to let clicks select internally
+ * @param showStyles - Whether to show the style panel for the selected element
+ * @param showComponent - Whether to show the React component panel for the selected element
+ * @param editor - How "Open in editor" opens source locations
+ * @param selectorStrategies - Selector strategies in order of preference
+ * @param onElementSelect - Callback when an element is selected by click or navigation
  * @param onDisable - Callback when inspector should be disabled (ESC key)
  * @param className - Additional CSS classes
  */
 export function ElementInspector({
   enabled,
+  selectedElement: controlledSelection,
+  showStyles = true,
+  showComponent = true,
+  editor = 'vscode',
+  selectorStrategies,
   onElementSelect,
   onDisable,
   className,
@@ -191,176 +380,243 @@ export function ElementInspector({
   const [hoveredElement, setHoveredElement] = useState<HTMLElement | null>(null)
   const [elementInfo, setElementInfo] = useState<ElementInfo | null>(null)
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 })
-  const overlayRef = useRef<HTMLDivElement>(null)
-
-  const handleMouseMove = useCallback(
-    (e: MouseEvent) => {
-      if (!enabled) return
-
-      const elementsAtPoint = document.elementsFromPoint(e.clientX, e.clientY)
-      const targetElement = elementsAtPoint.find(
-        (el) =>
-          !el.closest('[data-debug-inspector]') &&
-          el !== document.documentElement &&
-          el !== document.body
-      ) as HTMLElement | undefined
+  const [internalSelection, setInternalSelection] = useState<HTMLElement | null>(null)
+  // Type of the last pointer pressed; touch and pen get the drag handle
+  const [pointerType, setPointerType] = useState('mouse')
+  const pointerTypeRef = useRef('mouse')
+  // Re-render to follow the selected element while scrolling
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0)
+
+  const selectedElement = controlledSelection !== undefined ? controlledSelection : internalSelection
+
+  const selectedInfo = useMemo(
+    () => (selectedElement?.isConnected ? getElementInfo(selectedElement, { strategies: selectorStrategies }) : null),
+    [selectedElement, selectorStrategies]
+  )
 
+  const inspectAt = useCallback(
+    (x: number, y: number, tooltip: { x: number; y: number }) => {
+      const targetElement = getInspectableAt(x, y)
       if (targetElement && targetElement !== hoveredElement) {
         setHoveredElement(targetElement)
-        setElementInfo(getElementInfo(targetElement))
+        setElementInfo(getElementInfo(targetElement, { strategies: selectorStrategies }))
+      }
+      setTooltipPosition(tooltip)
+      return targetElement
+    },
+    [hoveredElement, selectorStrategies]
+  )
+
+  const handlePointerMove = useCallback(
+    (e: PointerEvent, offset: FrameOffset) => {
+      // Touch has no hover; pens hover with no buttons pressed, and pressed they may be dragging the handle
+      if (!enabled || e.pointerType === 'touch' || (e.pointerType === 'pen' && e.buttons !== 0)) return
+
+      // Events from inside iframes are relative to the frame's viewport
+      const x = e.clientX + offset.x
+      const y = e.clientY + offset.y
+      const elementsAtPoint = deepElementsFromPoint(x, y)
+
+      // Pointer is over the toolkit's own UI; let it be used
+      if (elementsAtPoint[0]?.closest(DEBUG_UI_SELECTOR)) {
+        setHoveredElement(null)
+        setElementInfo(null)
+        return
       }
 
-      setTooltipPosition({
-        x: e.clientX + 15,
-        y: e.clientY + 15,
-      })
+      inspectAt(x, y, { x: x + 15, y: y + 15 })
     },
-    [enabled, hoveredElement]
+    [enabled, inspectAt]
   )
 
+  const handlePointerDown = useCallback((e: PointerEvent) => {
+    pointerTypeRef.current = e.pointerType
+    setPointerType(e.pointerType)
+  }, [])
+
   const handleClick = useCallback(
     (e: MouseEvent) => {
       if (!enabled || !hoveredElement || !elementInfo) return
+      if ((e.target as Element | null)?.closest?.(DEBUG_UI_SELECTOR)) return
+      // Taps reach the page; touch selects by holding instead
+      if (pointerTypeRef.current === 'touch') return
 
       e.preventDefault()
       e.stopPropagation()
 
+      setInternalSelection(hoveredElement)
       onElementSelect?.(hoveredElement, elementInfo)
     },
     [enabled, hoveredElement, elementInfo, onElementSelect]
   )
 
+  const selectElement = useCallback(
+    (element: HTMLElement) => {
+      setInternalSelection(element)
+      onElementSelect?.(element, getElementInfo(element, { strategies: selectorStrategies }))
+    },
+    [onElementSelect, selectorStrategies]
+  )
+
+  const handleHold = useCallback(
+    (_e: PointerEvent, point: { x: number; y: number }) => {
+      if (!enabled || deepElementsFromPoint(point.x, point.y)[0]?.closest(DEBUG_UI_SELECTOR)) return false
+      // Tooltip above the finger rather than under it
+      const target = inspectAt(point.x, point.y, { x: point.x + 15, y: point.y - 215 })
+      if (!target) return false
+      selectElement(target)
+      navigator.vibrate?.(10)
+    },
+    [enabled, inspectAt, selectElement]
+  )
+
+  const handleHandleMove = useCallback(
+    (point: { x: number; y: number }) => {
+      inspectAt(point.x, point.y, { x: point.x + 15, y: point.y - 215 })
+    },
+    [inspectAt]
+  )
+
+  const handleHandleRelease = useCallback(
+    (point: { x: number; y: number }) => {
+      const target = getInspectableAt(point.x, point.y)
+      if (target) selectElement(target)
+    },
+    [selectElement]
+  )
+
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
       if (e.key === 'Escape' && enabled) {
         setHoveredElement(null)
         setElementInfo(null)
+        setInternalSelection(null)
         onDisable?.()
+        return
       }
+
+      const direction = KEY_DIRECTIONS[e.key]
+      if (!enabled || !direction || !selectedElement) return
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return
+
+      e.preventDefault()
+      const target = getNavigationTarget(selectedElement, direction)
+      if (!target) return
+
+      target.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+      selectElement(target)
     },
-    [enabled, onDisable]
+    [enabled, onDisable, selectedElement, selectElement]
   )
 
   useEffect(() => {
     if (!enabled) {
       setHoveredElement(null)
       setElementInfo(null)
+      setInternalSelection(null)
       return
     }
 
-    document.addEventListener('mousemove', handleMouseMove, true)
-    document.addEventListener('click', handleClick, true)
+    // Pointer events inside same-origin iframes don't reach this document
+    const removePointerMove = addDeepListener('pointermove', handlePointerMove)
+    const removePointerDown = addDeepListener('pointerdown', handlePointerDown)
+    const removeClick = addDeepListener('click', handleClick)
     document.addEventListener('keydown', handleKeyDown)
 
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove, true)
-      document.removeEventListener('click', handleClick, true)
+      removePointerMove()
+      removePointerDown()
+      removeClick()
       document.removeEventListener('keydown', handleKeyDown)
     }
-  }, [enabled, handleMouseMove, handleClick, handleKeyDown])
+  }, [enabled, handlePointerMove, handlePointerDown, handleClick, handleKeyDown])
+
+  // Read through a ref: re-adding the listeners would drop a press in progress, and with
+  // it the click that follows a hold, which must not reach the page
+  const handleHoldRef = useRef(handleHold)
+  handleHoldRef.current = handleHold
+
+  useEffect(() => {
+    if (!enabled) return
+    return addPointerGestures({ onHold: (e, point) => handleHoldRef.current(e, point) }, ['touch'])
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled || !selectedElement) return
+    // Scrolling inside an iframe moves the selection too
+    const removeScroll = addDeepListener('scroll', forceUpdate)
+    window.addEventListener('resize', forceUpdate)
+    return () => {
+      removeScroll()
+      window.removeEventListener('resize', forceUpdate)
+    }
+  }, [enabled, selectedElement])
 
   if (!enabled) return null
 
-  const rect = hoveredElement?.getBoundingClientRect()
+  const rect = hoveredElement ? getViewportRect(hoveredElement) : undefined
+  const isTouch = pointerType === 'touch'
+  const selectedRect = selectedInfo && selectedElement ? getViewportRect(selectedElement) : undefined
 
   return createPortal(
     <div data-debug-inspector className={className}>
-      {/* Highlight Overlay */}
-      {hoveredElement && rect && (
-        <div
-          ref={overlayRef}
-          className="fixed pointer-events-none z-[9998] border-2 border-blue-500 bg-blue-500/10"
-          style={{
-            left: rect.left,
-            top: rect.top,
-            width: rect.width,
-            height: rect.height,
-          }}
-        >
-          <div className="absolute -top-5 left-0 bg-blue-500 text-white text-[10px] px-1 rounded-sm whitespace-nowrap">
-            {elementInfo?.dimensions.width} × {elementInfo?.dimensions.height}
-          </div>
-        </div>
+      {/* Box Model Overlay */}
+      {hoveredElement && rect && elementInfo && (
+        <BoxModelHighlight
+          rect={rect}
+          boxModel={elementInfo.boxModel}
+          label={`${elementInfo.dimensions.width} × ${elementInfo.dimensions.height}`}
+        />
       )}
 
-      {/* Element Info Tooltip */}
-      {hoveredElement && elementInfo && (
-        <div
-          className="fixed z-[9999] pointer-events-none bg-black/90 backdrop-blur-sm rounded-lg p-2 shadow-xl border border-white/10 max-w-xs"
-          style={{
-            left: Math.min(tooltipPosition.x, window.innerWidth - 280),
-            top: Math.min(tooltipPosition.y, window.innerHeight - 200),
-          }}
-        >
-          {/* Tag Name */}
-          <div className="font-mono text-xs">
-            <span className="text-purple-400">&lt;{elementInfo.tagName}</span>
-            {elementInfo.id && (
-              <span className="text-yellow-400"> id="{elementInfo.id}"</span>
-            )}
-            <span className="text-purple-400">&gt;</span>
-          </div>
-
-          {/* React Component Name */}
-          {elementInfo.componentName && (
-            <div className="text-xs mt-1">
-              <span className="text-gray-400">Component: </span>
-              <span className="text-cyan-400">{elementInfo.componentName}</span>
-            </div>
-          )}
-
-          {/* Classes */}
-          {elementInfo.classList.length > 0 && (
-            <div className="text-[10px] mt-1 text-gray-500 truncate max-w-[260px]">
-              .{elementInfo.classList.slice(0, 5).join(' .')}
-              {elementInfo.classList.length > 5 && ` (+${elementInfo.classList.length - 5})`}
-            </div>
-          )}
-
-          {/* NP Comment */}
-          {elementInfo.npComment && (
-            <div className="text-[10px] mt-1 text-green-400 border-t border-white/10 pt-1">
-              #NP: {elementInfo.npComment}
-            </div>
+      {/* Selected Element */}
+      {selectedElement && selectedInfo && selectedRect && (
+        <>
+          <ElementHighlight rect={selectedRect} tone="green" label={selectedInfo.uniqueSelector} />
+          {selectedElement !== hoveredElement && (
+            <ElementInfoTooltip
+              info={selectedInfo}
+              position={{ x: selectedRect.left, y: selectedRect.bottom + 8 }}
+              hint={isTouch ? 'Pinned • drag ✥ to refine • hold to pin another' : 'Pinned • ↑↓←→ to navigate • ESC to cancel'}
+              onOpenSource={() => selectedInfo.source && openInEditor(selectedInfo.source, editor)}
+            />
           )}
-
-          {/* Unique Selector */}
-          <div className="text-[9px] mt-1 border-t border-white/10 pt-1">
-            <div className="text-gray-500 mb-0.5">Selector:</div>
-            <div className="font-mono text-yellow-300 break-all">
-              {elementInfo.uniqueSelector}
-            </div>
-          </div>
-
-          {/* Text Content */}
-          {elementInfo.textContent && (
-            <div className="text-[10px] mt-1">
-              <span className="text-gray-400">Text: </span>
-              <span className="text-white/80">"{elementInfo.textContent}"</span>
-            </div>
+          <SelectionBar element={selectedElement} onSelect={selectElement} />
+          {pointerType !== 'mouse' && <DragHandle rect={selectedRect} onMove={handleHandleMove} onRelease={handleHandleRelease} />}
+          {showComponent && (
+            <ComponentPanel
+              element={selectedElement}
+              className="fixed z-[9999] left-2 top-1/2 -translate-y-1/2"
+            />
           )}
-
-          {/* Accessibility Info */}
-          {(elementInfo.ariaLabel || elementInfo.role) && (
-            <div className="text-[10px] mt-1 text-gray-500">
-              {elementInfo.role && <span>Role: {elementInfo.role}</span>}
-              {elementInfo.ariaLabel && (
-                <span title={elementInfo.ariaLabel}>
-                  {elementInfo.role ? ' • ' : ''}Label: "{elementInfo.ariaLabel.slice(0, 20)}{elementInfo.ariaLabel.length > 20 ? '...' : ''}"
-                </span>
-              )}
-            </div>
+          {showStyles && (
+            <StylePanel
+              element={selectedElement}
+              className="fixed z-[9999] right-2 top-1/2 -translate-y-1/2"
+            />
           )}
+        </>
+      )}
 
-          {/* Instructions */}
-          <div className="text-[10px] mt-2 text-gray-500 border-t border-white/10 pt-1">
-            Click to select • ESC to cancel
-          </div>
-        </div>
+      {/* Element Info Tooltip */}
+      {hoveredElement && elementInfo && (
+        <ElementInfoTooltip
+          info={elementInfo}
+          position={tooltipPosition}
+          hint={
+            isTouch
+              ? 'Hold to pin • drag ✥ to refine'
+              : selectedElement
+                ? 'Click to pin • ↑↓←→ to navigate • ESC to cancel'
+                : 'Click to pin • ESC to cancel'
+          }
+        />
       )}
     </div>,
     document.body
   )
 }
 
+registerDebugComponent(ElementInspector)
+
 export default ElementInspector
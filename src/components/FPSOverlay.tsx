@@ -5,7 +5,367 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { cn, formatBytes, getFpsColor, POSITION_STYLES } from '../lib/utils'
-import type { FPSOverlayOptions, PerformanceStats, ProcessInfo } from '../lib/types'
+import { getFrameTimeColor, JANK_THRESHOLDS } from '../lib/frameStats'
+import { observeLongTasks } from '../lib/longTasks'
+import { PerformanceMonitor } from '../lib/performanceMonitor'
+import { MemoryMonitor } from '../lib/memoryMonitor'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { formatBudgetValue } from '../lib/budgets'
+import type {
+  BudgetStatus,
+  FPSOverlayOptions,
+  FrameTimeStats,
+  LongTaskEvent,
+  MemoryReport,
+  PerformanceMonitorOptions,
+  PerformanceStats,
+  ProcessInfo,
+  ProcessType,
+} from '../lib/types'
+
+// ============================================================================
+// Frame Time Graph
+// ============================================================================
+
+const GRAPH_WIDTH = 160
+const GRAPH_HEIGHT = 32
+// Frame times above this are clipped to the top of the graph
+const GRAPH_MAX_MS = 66
+
+interface FrameTimeGraphProps {
+  frameTimes: FrameTimeStats
+  capacity: number
+}
+
+function FrameTimeGraph({ frameTimes, capacity }: FrameTimeGraphProps) {
+  const barWidth = GRAPH_WIDTH / capacity
+  const offset = capacity - frameTimes.samples.length
+  const toY = (ms: number) => GRAPH_HEIGHT - (Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS) * GRAPH_HEIGHT
+
+  return (
+    <div className="mt-1 border-t border-white/10 pt-1">
+      <svg
+        width={GRAPH_WIDTH}
+        height={GRAPH_HEIGHT}
+        className="block bg-white/5 rounded-sm"
+      >
+        {frameTimes.samples.map((delta, i) => {
+          const y = toY(delta)
+          return (
+            <rect
+              key={i}
+              x={(offset + i) * barWidth}
+              y={y}
+              width={Math.max(barWidth, 0.5)}
+              height={GRAPH_HEIGHT - y}
+              className={getFrameTimeColor(delta)}
+            />
+          )
+        })}
+        {/* 60 FPS and 30 FPS reference lines */}
+        <line x1={0} x2={GRAPH_WIDTH} y1={toY(JANK_THRESHOLDS.over16)} y2={toY(JANK_THRESHOLDS.over16)} className="stroke-white/30" strokeDasharray="2 2" />
+        <line x1={0} x2={GRAPH_WIDTH} y1={toY(JANK_THRESHOLDS.over33)} y2={toY(JANK_THRESHOLDS.over33)} className="stroke-white/20" strokeDasharray="2 2" />
+      </svg>
+
+      <div className="grid grid-cols-2 gap-x-3 mt-1 text-[10px]">
+        <div className="flex justify-between">
+          <span className="text-gray-400">1% low</span>
+          <span className={getFpsColor(frameTimes.low1)}>{frameTimes.low1}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">p95</span>
+          <span className="text-white/80">{frameTimes.p95.toFixed(1)}ms</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">5% low</span>
+          <span className={getFpsColor(frameTimes.low5)}>{frameTimes.low5}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">p99</span>
+          <span className="text-white/80">{frameTimes.p99.toFixed(1)}ms</span>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-0.5 text-[10px]">
+        <span className="text-gray-400">JANK:</span>
+        <span className="text-yellow-400" title="Frames over 16.7ms">{frameTimes.jank.over16}</span>
+        <span className="text-orange-400" title="Frames over 33.3ms">{frameTimes.jank.over33}</span>
+        <span className="text-red-400" title="Frames over 50ms">{frameTimes.jank.over50}</span>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Long Task List
+// ============================================================================
+
+// Number of long tasks kept in the overlay
+const MAX_LONG_TASKS = 5
+
+function getLongTaskSource(task: LongTaskEvent): string | undefined {
+  const script = [...task.scripts].sort((a, b) => b.duration - a.duration)[0]
+  if (!script) return undefined
+  const file = script.sourceURL?.split('/').pop()?.split('?')[0]
+  const location = [file, script.functionName].filter(Boolean).join(':')
+  return location || script.invoker
+}
+
+interface LongTaskListProps {
+  tasks: LongTaskEvent[]
+  supported: boolean
+}
+
+function LongTaskList({ tasks, supported }: LongTaskListProps) {
+  return (
+    <div className="mt-1 border-t border-white/10 pt-1 max-w-[220px]">
+      <div className="text-[9px] text-gray-400 mb-0.5">LONG TASKS</div>
+
+      {!supported && (
+        <div className="text-[10px] text-gray-500">Not supported in this browser</div>
+      )}
+
+      {supported && tasks.length === 0 && (
+        <div className="text-[10px] text-gray-500">None yet</div>
+      )}
+
+      {tasks.map((task) => {
+        const source = getLongTaskSource(task)
+        const component = task.components[0] ?? task.interaction?.componentName
+        return (
+          <div key={task.id} className="text-[10px] leading-tight mb-0.5">
+            <div className="flex items-center gap-1">
+              <span className={task.duration > 200 ? 'text-red-400' : task.duration > 100 ? 'text-orange-400' : 'text-yellow-400'}>
+                {Math.round(task.duration)}ms
+              </span>
+              {component && (
+                <span className="text-cyan-400 truncate">
+                  {component}
+                  {task.components.length > 1 && ` +${task.components.length - 1}`}
+                </span>
+              )}
+              {task.interaction && (
+                <span className="text-gray-500 ml-auto">{task.interaction.type}</span>
+              )}
+            </div>
+            {source && <div className="text-gray-500 truncate">{source}</div>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// ============================================================================
+// Memory Trend
+// ============================================================================
+
+interface MemorySeriesProps {
+  values: Array<number | undefined>
+  className: string
+  width?: number
+  height?: number
+}
+
+function MemorySeries({ values, className, width = GRAPH_WIDTH, height = GRAPH_HEIGHT }: MemorySeriesProps) {
+  const defined = values.filter((v): v is number => v !== undefined)
+  if (defined.length < 2) return null
+
+  const min = Math.min(...defined)
+  const range = Math.max(...defined) - min || 1
+  const step = width / Math.max(1, values.length - 1)
+  const points = values
+    .map((v, i) => (v === undefined ? null : `${i * step},${height - ((v - min) / range) * (height - 2) - 1}`))
+    .filter(Boolean)
+    .join(' ')
+
+  return <polyline points={points} fill="none" strokeWidth={1.5} className={className} />
+}
+
+interface MemoryTrendProps {
+  report: MemoryReport
+}
+
+function MemoryTrend({ report }: MemoryTrendProps) {
+  const last = report.samples[report.samples.length - 1]
+  if (!last) return null
+
+  return (
+    <div
+      className={cn(
+        'mt-1 border-t border-white/10 pt-1 max-w-[220px]',
+        report.leaking && 'bg-red-500/10 -mx-2 px-2 pb-1'
+      )}
+    >
+      <div className="flex items-center gap-2 text-[10px]">
+        <span className={report.leaking ? 'text-red-400' : 'text-gray-400'}>TREND:</span>
+        {report.heapTrend && (
+          <span className={report.heapTrend.slope > 0 ? 'text-orange-300' : 'text-green-300'}>
+            {report.heapTrend.slope >= 0 ? '+' : '-'}
+            {formatBytes(Math.abs(report.heapTrend.slope))}/min
+          </span>
+        )}
+        <span className="text-gray-500" title="DOM nodes">DOM {last.domNodes}</span>
+        {last.listeners !== undefined && (
+          <span className="text-gray-500" title="Event listeners">L {last.listeners}</span>
+        )}
+      </div>
+
+      {/* Warning state with sample chart */}
+      {report.leaking && (
+        <>
+          <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="block bg-white/5 rounded-sm mt-1">
+            <MemorySeries values={report.samples.map((s) => s.heapUsed)} className="stroke-blue-400" />
+            <MemorySeries values={report.samples.map((s) => s.mainProcessRss)} className="stroke-green-400" />
+            <MemorySeries values={report.samples.map((s) => s.domNodes)} className="stroke-white/30" />
+          </svg>
+          <div className="flex gap-2 text-[9px] text-gray-500">
+            <span className="text-blue-400">heap</span>
+            {last.mainProcessRss !== undefined && <span className="text-green-400">main</span>}
+            <span className="text-white/40">DOM</span>
+          </div>
+          {report.warnings.map((warning) => (
+            <div key={warning} className="text-[10px] text-red-400 leading-tight">
+              ⚠ {warning}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// Process Breakdown
+// ============================================================================
+
+const SPARKLINE_WIDTH = 40
+const SPARKLINE_HEIGHT = 10
+
+// Process info polls kept per process for the sparklines
+const PROCESS_HISTORY_SIZE = 30
+
+const PROCESS_STYLES: Record<ProcessType, { label: string; text: string; stroke: string }> = {
+  main: { label: 'Main', text: 'text-green-400', stroke: 'stroke-green-400' },
+  renderer: { label: 'Renderer', text: 'text-cyan-400', stroke: 'stroke-cyan-400' },
+  gpu: { label: 'GPU', text: 'text-purple-400', stroke: 'stroke-purple-400' },
+  utility: { label: 'Utility', text: 'text-orange-400', stroke: 'stroke-orange-400' },
+  other: { label: 'Other', text: 'text-gray-400', stroke: 'stroke-gray-400' },
+}
+
+function formatUptime(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h${m.toString().padStart(2, '0')}m` : `${m}m${Math.floor(seconds % 60).toString().padStart(2, '0')}s`
+}
+
+interface ProcessBreakdownProps {
+  info: ProcessInfo
+  /** Memory samples per pid, oldest first */
+  history: Map<number, number[]>
+}
+
+function ProcessBreakdown({ info, history }: ProcessBreakdownProps) {
+  const processes = [...(info.processes ?? [])].sort((a, b) => (b.memory ?? 0) - (a.memory ?? 0))
+  const total = processes.reduce((sum, p) => sum + (p.memory ?? 0), 0)
+  const totalCpu = processes.reduce((sum, p) => sum + (p.cpu ?? 0), 0)
+
+  return (
+    <>
+      {processes.map((process) => {
+        const style = PROCESS_STYLES[process.type]
+        return (
+          <div key={process.pid} className="flex items-center gap-1.5 text-[10px]" title={`PID ${process.pid}`}>
+            <span className={cn('truncate w-20', style.text)}>
+              {style.label}
+              {process.name && <span className="text-white/40"> {process.name}</span>}
+            </span>
+            <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="shrink-0">
+              <MemorySeries
+                values={history.get(process.pid) ?? []}
+                className={style.stroke}
+                width={SPARKLINE_WIDTH}
+                height={SPARKLINE_HEIGHT}
+              />
+            </svg>
+            {process.cpu !== undefined && (
+              <span className="text-gray-500 w-9 text-right tabular-nums">{process.cpu.toFixed(1)}%</span>
+            )}
+            <span className="ml-auto text-white/80 tabular-nums">
+              {process.memory !== undefined ? formatBytes(process.memory) : '—'}
+            </span>
+          </div>
+        )
+      })}
+
+      {/* Total Memory */}
+      <div className="flex justify-between text-[10px] font-semibold border-t border-white/10 mt-0.5 pt-0.5">
+        <span className="text-white">Total</span>
+        <span className="flex gap-2">
+          <span className="text-gray-400 font-normal">{totalCpu.toFixed(1)}%</span>
+          <span className="text-yellow-400">{formatBytes(total)}</span>
+        </span>
+      </div>
+    </>
+  )
+}
+
+// ============================================================================
+// Budget Alerts
+// ============================================================================
+
+interface BudgetAlertsProps {
+  statuses: BudgetStatus[]
+}
+
+function BudgetAlerts({ statuses }: BudgetAlertsProps) {
+  const failing = statuses.filter((status) => status.state === 'fail')
+  if (failing.length === 0) return null
+
+  return (
+    <div className="mt-1 border-t border-red-500/40 pt-1 max-w-[220px]">
+      {failing.map((status) => (
+        <div key={status.id} className="flex items-center gap-1 text-[10px] leading-tight text-red-400">
+          <span>⚠</span>
+          <span className="truncate">{status.label}</span>
+          <span className="ml-auto font-semibold">{formatBudgetValue(status.budget.metric, status.value)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// ============================================================================
+// Performance Stats Hook
+// ============================================================================
+
+/**
+ * Hook for live FPS, frame-time and heap stats
+ * Every mounted instance shares a single animation frame loop.
+ *
+ * @param options - Sample interval, frame history size and memory tracking
+ */
+export function usePerformanceStats(options: PerformanceMonitorOptions = {}): PerformanceStats {
+  const { sampleInterval, historySize, trackMemory } = options
+  const [stats, setStats] = useState<PerformanceStats>({ fps: 0, frameTime: 0 })
+
+  useEffect(() => {
+    const monitor = new PerformanceMonitor({ sampleInterval, historySize, trackMemory })
+    const unsubscribe = monitor.subscribe(setStats)
+    monitor.start()
+
+    return () => {
+      unsubscribe()
+      monitor.stop()
+    }
+  }, [sampleInterval, historySize, trackMemory])
+
+  return stats
+}
+
+// ============================================================================
+// FPS Overlay Component
+// ============================================================================
 
 /**
  * FPS Overlay - Displays real-time FPS and memory statistics
@@ -13,6 +373,12 @@ import type { FPSOverlayOptions, PerformanceStats, ProcessInfo } from '../lib/ty
  * @param position - Position of the overlay
  * @param showMemory - Whether to show memory stats
  * @param showProcessInfo - Whether to show expanded process memory
+ * @param showHistory - Whether to show the frame-time history graph
+ * @param historySize - Number of frames kept in the history buffer
+ * @param showLongTasks - Whether to show recent long tasks
+ * @param detectLeaks - Whether to track memory trends and warn about leaks
+ * @param trackListeners - Whether leak detection also counts event listeners
+ * @param budgetStatuses - Budget statuses; failing budgets are shown as alerts
  * @param className - Additional CSS classes
  * @param getProcessInfo - Optional function to fetch backend process info
  */
@@ -20,29 +386,50 @@ export function FPSOverlay({
   position = 'top-right',
   showMemory = true,
   showProcessInfo = false,
+  showHistory = true,
+  historySize = 240,
+  showLongTasks = true,
+  detectLeaks = true,
+  trackListeners = false,
+  budgetStatuses,
   className,
   getProcessInfo,
 }: FPSOverlayOptions) {
-  const [stats, setStats] = useState<PerformanceStats>({
-    fps: 0,
-    frameTime: 0,
-  })
+  const stats = usePerformanceStats({ historySize })
 
   const [processInfo, setProcessInfo] = useState<ProcessInfo | null>(null)
+  const [processHistory, setProcessHistory] = useState<Map<number, number[]>>(() => new Map())
+  // Latest process info, shared with the memory monitor so the backend is polled once
+  const processInfoRef = useRef<ProcessInfo | null>(null)
+
+  const [longTasks, setLongTasks] = useState<LongTaskEvent[]>([])
+  const [longTasksSupported, setLongTasksSupported] = useState(true)
 
-  const rafIdRef = useRef<number | null>(null)
+  const [memoryReport, setMemoryReport] = useState<MemoryReport | null>(null)
 
   // Fetch process info periodically if backend function is provided
   useEffect(() => {
     if (!getProcessInfo || !showProcessInfo) {
+      processInfoRef.current = null
       setProcessInfo(null)
+      setProcessHistory(new Map())
       return
     }
 
     const fetchProcessInfo = async () => {
       try {
         const info = await getProcessInfo()
+        processInfoRef.current = info
         setProcessInfo(info)
+        // Keep only processes that are still alive
+        setProcessHistory((prev) => {
+          const next = new Map<number, number[]>()
+          info?.processes?.forEach((process) => {
+            if (process.memory === undefined) return
+            next.set(process.pid, [...(prev.get(process.pid) ?? []), process.memory].slice(-PROCESS_HISTORY_SIZE))
+          })
+          return next
+        })
       } catch (error) {
         console.warn('[Debug] Failed to fetch process info:', error)
       }
@@ -54,44 +441,40 @@ export function FPSOverlay({
     return () => clearInterval(interval)
   }, [getProcessInfo, showProcessInfo])
 
-  // Measure FPS
+  // Observe long tasks
   useEffect(() => {
-    let frameCount = 0
-    let lastTime = performance.now()
-
-    const measureFPS = (currentTime: number) => {
-      frameCount++
-
-      const elapsed = currentTime - lastTime
-      if (elapsed >= 1000) {
-        const fps = Math.round((frameCount * 1000) / elapsed)
-        const frameTime = elapsed / frameCount
-
-        const memory = (performance as unknown as { memory?: PerformanceStats['memory'] }).memory
-          ? {
-              usedJSHeapSize: (performance as unknown as { memory: { usedJSHeapSize: number } }).memory.usedJSHeapSize,
-              totalJSHeapSize: (performance as unknown as { memory: { totalJSHeapSize: number } }).memory.totalJSHeapSize,
-              jsHeapSizeLimit: (performance as unknown as { memory: { jsHeapSizeLimit: number } }).memory.jsHeapSizeLimit,
-            }
-          : undefined
+    if (!showLongTasks) {
+      setLongTasks([])
+      return
+    }
 
-        setStats({ fps, frameTime, memory })
+    const stop = observeLongTasks((task) => {
+      setLongTasks((prev) => [task, ...prev].slice(0, MAX_LONG_TASKS))
+    })
+    setLongTasksSupported(stop !== null)
 
-        frameCount = 0
-        lastTime = currentTime
-      }
+    return () => stop?.()
+  }, [showLongTasks])
 
-      rafIdRef.current = requestAnimationFrame(measureFPS)
+  // Track memory trends
+  useEffect(() => {
+    if (!showMemory || !detectLeaks) {
+      setMemoryReport(null)
+      return
     }
 
-    rafIdRef.current = requestAnimationFrame(measureFPS)
+    const monitor = new MemoryMonitor({
+      trackListeners,
+      getProcessInfo: showProcessInfo && getProcessInfo ? async () => processInfoRef.current : undefined,
+    })
+    const unsubscribe = monitor.subscribe(setMemoryReport)
+    monitor.start()
 
     return () => {
-      if (rafIdRef.current !== null) {
-        cancelAnimationFrame(rafIdRef.current)
-      }
+      unsubscribe()
+      monitor.stop()
     }
-  }, [])
+  }, [showMemory, detectLeaks, trackListeners, showProcessInfo, getProcessInfo])
 
   return (
     <div
@@ -114,6 +497,22 @@ export function FPSOverlay({
         </span>
       </div>
 
+      {/* Budget Alerts */}
+      {budgetStatuses && <BudgetAlerts statuses={budgetStatuses} />}
+
+      {/* Frame Time History */}
+      {showHistory && stats.frameTimes && (
+        <FrameTimeGraph frameTimes={stats.frameTimes} capacity={historySize} />
+      )}
+
+      {/* Long Tasks */}
+      {showLongTasks && (
+        <LongTaskList tasks={longTasks} supported={longTasksSupported} />
+      )}
+
+      {/* Memory Trend */}
+      {showMemory && memoryReport && <MemoryTrend report={memoryReport} />}
+
       {/* Memory Display */}
       {showMemory && stats.memory && (
         <>
@@ -137,36 +536,59 @@ export function FPSOverlay({
                 {processInfo && (
                   <span className="text-white/40">PID: {processInfo.pid}</span>
                 )}
+                {processInfo?.cpu !== undefined && (
+                  <span className="text-white/40">CPU: {processInfo.cpu.toFixed(1)}%</span>
+                )}
+                {processInfo?.uptime !== undefined && (
+                  <span className="text-white/40">UP: {formatUptime(processInfo.uptime)}</span>
+                )}
               </div>
 
-              {/* Renderer Process (JS Heap) */}
-              <div className="flex justify-between text-[10px]">
-                <span className="text-cyan-400">Renderer (JS)</span>
-                <span className="text-cyan-300">
-                  {formatBytes(stats.memory.usedJSHeapSize)}
-                </span>
-              </div>
+              {processInfo?.processes && processInfo.processes.length > 0 ? (
+                <>
+                  {/* This page's JS heap, part of its renderer process */}
+                  <div className="flex justify-between text-[10px]">
+                    <span className="text-cyan-400">JS Heap</span>
+                    <span className="text-cyan-300">
+                      {formatBytes(stats.memory.usedJSHeapSize)}
+                    </span>
+                  </div>
 
-              {/* Main Process (Node.js) */}
-              {processInfo?.mainProcessMemory && (
-                <div className="flex justify-between text-[10px]">
-                  <span className="text-green-400">Main (Node)</span>
-                  <span className="text-green-300">
-                    {formatBytes(processInfo.mainProcessMemory.rss)}
-                  </span>
-                </div>
-              )}
+                  {/* Per-process breakdown */}
+                  <ProcessBreakdown info={processInfo} history={processHistory} />
+                </>
+              ) : (
+                <>
+                  {/* Renderer Process (JS Heap) */}
+                  <div className="flex justify-between text-[10px]">
+                    <span className="text-cyan-400">Renderer (JS)</span>
+                    <span className="text-cyan-300">
+                      {formatBytes(stats.memory.usedJSHeapSize)}
+                    </span>
+                  </div>
+
+                  {/* Main Process (Node.js) */}
+                  {processInfo?.mainProcessMemory && (
+                    <div className="flex justify-between text-[10px]">
+                      <span className="text-green-400">Main (Node)</span>
+                      <span className="text-green-300">
+                        {formatBytes(processInfo.mainProcessMemory.rss)}
+                      </span>
+                    </div>
+                  )}
 
-              {/* Total Memory */}
-              {processInfo?.mainProcessMemory && (
-                <div className="flex justify-between text-[10px] font-semibold border-t border-white/10 mt-0.5 pt-0.5">
-                  <span className="text-white">Total</span>
-                  <span className="text-yellow-400">
-                    {formatBytes(
-                      stats.memory.usedJSHeapSize + processInfo.mainProcessMemory.rss
-                    )}
-                  </span>
-                </div>
+                  {/* Total Memory */}
+                  {processInfo?.mainProcessMemory && (
+                    <div className="flex justify-between text-[10px] font-semibold border-t border-white/10 mt-0.5 pt-0.5">
+                      <span className="text-white">Total</span>
+                      <span className="text-yellow-400">
+                        {formatBytes(
+                          stats.memory.usedJSHeapSize + processInfo.mainProcessMemory.rss
+                        )}
+                      </span>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           )}
@@ -176,4 +598,6 @@ export function FPSOverlay({
   )
 }
 
+registerDebugComponent(FPSOverlay)
+
 export default FPSOverlay
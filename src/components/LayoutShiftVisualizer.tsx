@@ -0,0 +1,205 @@
+/**
+ * Layout Shift Visualizer Component
+ * Flashes layout shifts and moved or resized regions, labelled with their selectors
+ */
+
+import { useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import { DEBUG_UI_SELECTOR } from '../lib/utils'
+import { getElementInfo } from '../lib/elementInfo'
+import { observeLayoutChanges } from '../lib/layoutChanges'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { generateSelector } from '../lib/selector'
+import type { LayoutChange, LayoutShiftVisualizerOptions } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const KIND_COLORS: Record<LayoutChange['kind'], string> = {
+  'layout-shift': '255, 60, 60',
+  move: '255, 140, 40',
+  resize: '170, 110, 255',
+}
+
+// A sampled move right after a reported shift of the same element is the same event
+const SHIFT_PRIORITY_MS = 250
+
+const LABEL_FONT = '10px ui-monospace, SFMono-Regular, Menlo, monospace'
+
+interface Flash {
+  change: LayoutChange
+  label: string
+  start: number
+}
+
+function getChangeLabel(change: LayoutChange): string {
+  const selector = generateSelector(change.element)
+
+  if (change.kind === 'layout-shift') {
+    return `${selector} · shift ${change.value?.toFixed(4)}${change.hadRecentInput ? ' (input)' : ''}`
+  }
+  if (change.kind === 'move' && change.previousRect) {
+    const dx = Math.round(change.rect.x - change.previousRect.x)
+    const dy = Math.round(change.rect.y - change.previousRect.y)
+    return `${selector} · moved ${dx},${dy}px`
+  }
+  const before = change.previousRect
+    ? `${Math.round(change.previousRect.width)}×${Math.round(change.previousRect.height)} → `
+    : ''
+  return `${selector} · ${before}${Math.round(change.rect.width)}×${Math.round(change.rect.height)}`
+}
+
+// ============================================================================
+// Layout Shift Visualizer Component
+// ============================================================================
+
+/**
+ * LayoutShiftVisualizer - Flashes the rectangles of layout shifts and geometry changes
+ * Red marks reported layout shifts, orange moved elements and purple resized ones.
+ * Clicking a flashed region selects its element.
+ *
+ * @param enabled - Whether the visualizer is active
+ * @param flashDuration - How long each flash stays visible (ms)
+ * @param trackGeometry - Whether to flash moves/resizes without a layout shift entry
+ * @param onElementSelect - Callback when a flashed region is clicked
+ */
+export function LayoutShiftVisualizer({
+  enabled,
+  flashDuration = 1000,
+  trackGeometry = true,
+  onElementSelect,
+}: LayoutShiftVisualizerOptions) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const onElementSelectRef = useRef(onElementSelect)
+  onElementSelectRef.current = onElementSelect
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!enabled || !canvas || !ctx) return
+
+    // Latest flash per element; a new change restarts it
+    const flashes = new Map<Element, Flash>()
+    let rafId: number | null = null
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = window.innerWidth * dpr
+      canvas.height = window.innerHeight * dpr
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    }
+    resize()
+    window.addEventListener('resize', resize)
+
+    const draw = (now: number) => {
+      ctx.clearRect(0, 0, window.innerWidth, window.innerHeight)
+      ctx.font = LABEL_FONT
+
+      flashes.forEach((flash, element) => {
+        const progress = (now - flash.start) / flashDuration
+        if (progress >= 1 || !element.isConnected) {
+          flashes.delete(element)
+          return
+        }
+
+        const color = KIND_COLORS[flash.change.kind]
+        const alpha = 1 - progress
+        const rect = element.getBoundingClientRect()
+        if (rect.width === 0 && rect.height === 0) return
+
+        // Where it was
+        if (flash.change.previousRect) {
+          const prev = flash.change.previousRect
+          ctx.setLineDash([4, 3])
+          ctx.strokeStyle = `rgba(${color}, ${alpha * 0.6})`
+          ctx.lineWidth = 1
+          ctx.strokeRect(prev.x + 0.5, prev.y + 0.5, prev.width - 1, prev.height - 1)
+          ctx.setLineDash([])
+        }
+
+        // Where it is now
+        ctx.fillStyle = `rgba(${color}, ${alpha * 0.15})`
+        ctx.fillRect(rect.left, rect.top, rect.width, rect.height)
+        ctx.strokeStyle = `rgba(${color}, ${alpha})`
+        ctx.lineWidth = 2
+        ctx.strokeRect(rect.left + 1, rect.top + 1, rect.width - 2, rect.height - 2)
+
+        // Selector label, kept inside the viewport
+        const labelWidth = ctx.measureText(flash.label).width + 8
+        const labelX = Math.max(0, Math.min(rect.left, window.innerWidth - labelWidth))
+        const labelY = rect.top >= 14 ? rect.top - 14 : rect.top
+        ctx.fillStyle = `rgba(${color}, ${alpha})`
+        ctx.fillRect(labelX, labelY, labelWidth, 14)
+        ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`
+        ctx.fillText(flash.label, labelX + 4, labelY + 10)
+      })
+
+      rafId = flashes.size > 0 ? requestAnimationFrame(draw) : null
+    }
+
+    const stop = observeLayoutChanges(
+      (changes) => {
+        const now = performance.now()
+        changes.forEach((change) => {
+          const existing = flashes.get(change.element)
+          if (
+            existing?.change.kind === 'layout-shift' &&
+            change.kind !== 'layout-shift' &&
+            now - existing.start < SHIFT_PRIORITY_MS
+          ) {
+            return
+          }
+          flashes.set(change.element, { change, label: getChangeLabel(change), start: now })
+        })
+
+        if (rafId === null) rafId = requestAnimationFrame(draw)
+      },
+      { trackGeometry }
+    )
+
+    // Flashes are drawn on a click-through canvas, so hit-test clicks against them
+    const handleClick = (e: MouseEvent) => {
+      const onSelect = onElementSelectRef.current
+      if (!onSelect || (e.target as Element | null)?.closest?.(DEBUG_UI_SELECTOR)) return
+
+      const hit = Array.from(flashes.values())
+        .sort((a, b) => b.start - a.start)
+        .find(({ change }) => {
+          const rect = change.element.getBoundingClientRect()
+          return e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+        })
+      const element = hit?.change.element
+      if (!(element instanceof HTMLElement)) return
+
+      e.preventDefault()
+      e.stopPropagation()
+      onSelect(element, getElementInfo(element))
+    }
+    document.addEventListener('click', handleClick, true)
+
+    return () => {
+      stop()
+      document.removeEventListener('click', handleClick, true)
+      window.removeEventListener('resize', resize)
+      if (rafId !== null) cancelAnimationFrame(rafId)
+      ctx.clearRect(0, 0, window.innerWidth, window.innerHeight)
+    }
+  }, [enabled, flashDuration, trackGeometry])
+
+  if (!enabled) return null
+
+  return createPortal(
+    <canvas
+      ref={canvasRef}
+      data-debug-inspector
+      className="fixed inset-0 z-[9996] pointer-events-none"
+      style={{ width: '100vw', height: '100vh' }}
+    />,
+    document.body
+  )
+}
+
+registerDebugComponent(LayoutShiftVisualizer)
+
+export default LayoutShiftVisualizer
@@ -0,0 +1,99 @@
+/**
+ * Locator Menu Component
+ * "Copy as…" menu of test locators for an element
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { cn } from '../lib/utils'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { getTestLocators } from '../lib/locators'
+import type { LocatorFramework } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FRAMEWORK_LABELS: Record<LocatorFramework, string> = {
+  'testing-library': 'Testing Library',
+  playwright: 'Playwright',
+  cypress: 'Cypress',
+}
+
+// ============================================================================
+// Locator Menu Component
+// ============================================================================
+
+interface LocatorMenuProps {
+  element: Element
+  className?: string
+}
+
+/**
+ * LocatorMenu - Button that opens the element's Testing Library, Playwright and Cypress locators
+ * Each row shows how many elements the locator matches in the live DOM; click a row to copy it.
+ *
+ * @param element - Element to locate
+ * @param className - Additional CSS classes
+ */
+export function LocatorMenu({ element, className }: LocatorMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [copied, setCopied] = useState<LocatorFramework | null>(null)
+
+  useEffect(() => setCopied(null), [element])
+
+  // Uniqueness checks scan the page, so they only run while the menu is open
+  const locators = useMemo(() => (open ? getTestLocators(element) : []), [open, element])
+
+  const handleCopy = (framework: LocatorFramework, code: string) => {
+    navigator.clipboard.writeText(code)
+    setCopied(framework)
+  }
+
+  return (
+    <div className={cn('relative', className)}>
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={cn(
+          'px-1.5 py-0.5 rounded transition-colors',
+          open ? 'bg-blue-500/20 text-blue-400' : 'text-white/70 hover:bg-white/10'
+        )}
+      >
+        Copy as…
+      </button>
+
+      {open && (
+        <div className="absolute right-0 bottom-full mb-1 w-96 max-w-[80vw] bg-black/95 border border-white/10 rounded shadow-lg p-1">
+          {locators.map(({ framework, strategy, code, matchCount, verified }) => (
+            <button
+              key={framework}
+              onClick={() => handleCopy(framework, code)}
+              className="block w-full text-left px-1.5 py-1 rounded hover:bg-white/10 transition-colors"
+              title={`Copy ${FRAMEWORK_LABELS[framework]} locator`}
+            >
+              <div className="flex items-center gap-1.5">
+                <span className="text-white/80">{FRAMEWORK_LABELS[framework]}</span>
+                <span className="text-gray-500">{strategy}</span>
+                <span
+                  className={cn(
+                    'ml-auto text-[9px] px-1 rounded',
+                    matchCount === 1 && verified ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'
+                  )}
+                  title={verified ? undefined : 'Only part of this large page was checked'}
+                >
+                  {matchCount === 1 ? 'unique' : `${matchCount} matches`}
+                  {!verified && ' (unverified)'}
+                </span>
+                {copied === framework && <span className="text-[9px] text-green-400">Copied</span>}
+              </div>
+              <div className="text-cyan-300 break-all">{code}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+registerDebugComponent(LocatorMenu)
+
+export default LocatorMenu
@@ -0,0 +1,378 @@
+/**
+ * Measure Tool Component
+ * Distances between a pinned element and the hovered one, with a grid/baseline overlay
+ */
+
+import { useCallback, useEffect, useMemo, useReducer, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { cn, DEBUG_UI_SELECTOR } from '../lib/utils'
+import { getElementInfo } from '../lib/elementInfo'
+import { measureDistances } from '../lib/measure'
+import { registerDebugComponent } from '../lib/reactFiber'
+import type { MeasureLine, Measurement, MeasureToolOptions } from '../lib/types'
+import { createAnnotation, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
+import { ElementHighlight } from './ElementHighlight'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GRID_COLOR = 'rgba(236, 72, 153, 0.15)'
+const BASELINE_COLOR = 'rgba(59, 130, 246, 0.3)'
+
+function isMeasurable(element: Element): element is HTMLElement {
+  return (
+    element instanceof HTMLElement &&
+    element !== document.body &&
+    element !== document.documentElement &&
+    !element.closest(DEBUG_UI_SELECTOR)
+  )
+}
+
+function formatDistance(distance: number): string {
+  return `${Math.round(distance * 10) / 10}`
+}
+
+function formatSize(element: HTMLElement): string {
+  const rect = element.getBoundingClientRect()
+  return `${formatDistance(rect.width)} × ${formatDistance(rect.height)}`
+}
+
+// ============================================================================
+// Grid Overlay
+// ============================================================================
+
+interface GridOverlayProps {
+  size?: number
+  baseline?: number
+}
+
+/**
+ * GridOverlay - Square grid and baseline rows aligned to the top-left of the document
+ *
+ * @param size - Grid spacing in px, 0 to hide the grid
+ * @param baseline - Baseline spacing in px, 0 to hide baselines
+ */
+export function GridOverlay({ size = 8, baseline = 0 }: GridOverlayProps) {
+  const layers: string[] = []
+  if (size > 0) {
+    layers.push(
+      `repeating-linear-gradient(to right, ${GRID_COLOR} 0 1px, transparent 1px ${size}px)`,
+      `repeating-linear-gradient(to bottom, ${GRID_COLOR} 0 1px, transparent 1px ${size}px)`
+    )
+  }
+  if (baseline > 0) {
+    layers.push(`repeating-linear-gradient(to bottom, ${BASELINE_COLOR} 0 1px, transparent 1px ${baseline}px)`)
+  }
+  if (layers.length === 0) return null
+
+  return (
+    <div
+      className="fixed inset-0 pointer-events-none z-[9997]"
+      style={{
+        backgroundImage: layers.join(', '),
+        // Keep the lines fixed to the page rather than the viewport
+        backgroundPosition: `${-window.scrollX}px ${-window.scrollY}px`,
+      }}
+    />
+  )
+}
+
+// ============================================================================
+// Measurement Lines
+// ============================================================================
+
+function LineSegment({ line, dashed }: { line: MeasureLine; dashed?: boolean }) {
+  const horizontal = line.y1 === line.y2
+
+  return (
+    <div
+      className={cn(
+        'fixed pointer-events-none z-[9998] border-red-500',
+        dashed ? 'border-dashed opacity-70' : 'border-solid',
+        horizontal ? 'border-t' : 'border-l'
+      )}
+      style={{
+        left: Math.min(line.x1, line.x2),
+        top: Math.min(line.y1, line.y2),
+        width: horizontal ? Math.abs(line.x2 - line.x1) : 0,
+        height: horizontal ? 0 : Math.abs(line.y2 - line.y1),
+      }}
+    />
+  )
+}
+
+function MeasurementLine({ measurement }: { measurement: Measurement }) {
+  const { line } = measurement
+
+  return (
+    <>
+      {measurement.extensions.map((extension, i) => (
+        <LineSegment key={i} line={extension} dashed />
+      ))}
+      <LineSegment line={line} />
+      <div
+        className="fixed pointer-events-none z-[9998] bg-red-500 text-white text-[10px] font-mono px-1 rounded-sm whitespace-nowrap"
+        style={{
+          left: (line.x1 + line.x2) / 2,
+          top: (line.y1 + line.y2) / 2,
+          transform: measurement.axis === 'horizontal' ? 'translate(-50%, 4px)' : 'translate(4px, -50%)',
+        }}
+      >
+        {formatDistance(measurement.distance)}
+      </div>
+    </>
+  )
+}
+
+// ============================================================================
+// Measure Tool Component
+// ============================================================================
+
+/**
+ * MeasureTool - Figma-style spacing between elements
+ * Click pins a reference element; hovering another shows the distances between
+ * their edges. Shift+click locks the measured element so it can be annotated.
+ *
+ * @param enabled - Whether the tool is active
+ * @param showGrid - Show the grid overlay when the tool opens
+ * @param gridSize - Initial grid spacing in px
+ * @param baseline - Initial baseline spacing in px, 0 to hide baselines
+ * @param onDisable - Callback when the tool should be disabled (ESC with nothing pinned)
+ * @param className - Additional CSS classes
+ * @param customAtom - Custom Jotai atom for created annotations
+ */
+export function MeasureTool({
+  enabled,
+  showGrid: initialShowGrid = false,
+  gridSize: initialGridSize = 8,
+  baseline: initialBaseline = 0,
+  onDisable,
+  className,
+  customAtom,
+}: MeasureToolOptions & { customAtom?: ReturnType<typeof createAnnotationsAtom> }) {
+  const [reference, setReference] = useState<HTMLElement | null>(null)
+  const [hovered, setHovered] = useState<HTMLElement | null>(null)
+  const [locked, setLocked] = useState<HTMLElement | null>(null)
+  const [showGrid, setShowGrid] = useState(initialShowGrid)
+  const [gridSize, setGridSize] = useState(initialGridSize)
+  const [baseline, setBaseline] = useState(initialBaseline)
+  const [annotated, setAnnotated] = useState(false)
+  const [, setAnnotations] = useDebugAnnotations(customAtom)
+  // Re-render to follow the elements while scrolling
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0)
+
+  const target = locked ?? hovered
+
+  useEffect(() => {
+    setAnnotated(false)
+  }, [reference, target])
+
+  const handleMouseMove = useCallback((e: MouseEvent) => {
+    const elementsAtPoint = document.elementsFromPoint(e.clientX, e.clientY)
+
+    // Over the toolkit's UI; keep the last measurement so it can be read and annotated
+    if (elementsAtPoint[0]?.closest(DEBUG_UI_SELECTOR)) return
+
+    const element = elementsAtPoint.find(isMeasurable)
+    if (element) setHovered(element)
+  }, [])
+
+  const handleClick = useCallback(
+    (e: MouseEvent) => {
+      if ((e.target as Element | null)?.closest?.(DEBUG_UI_SELECTOR)) return
+      const element = document.elementsFromPoint(e.clientX, e.clientY).find(isMeasurable)
+      if (!element) return
+
+      e.preventDefault()
+      e.stopPropagation()
+
+      if (e.shiftKey && reference && element !== reference) {
+        setLocked(element)
+      } else if (element === reference) {
+        setReference(null)
+        setLocked(null)
+      } else {
+        setReference(element)
+        setLocked(null)
+      }
+    },
+    [reference]
+  )
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      if (locked) setLocked(null)
+      else if (reference) setReference(null)
+      else onDisable?.()
+    },
+    [locked, reference, onDisable]
+  )
+
+  useEffect(() => {
+    if (!enabled) {
+      setReference(null)
+      setHovered(null)
+      setLocked(null)
+      return
+    }
+
+    document.addEventListener('mousemove', handleMouseMove, true)
+    document.addEventListener('click', handleClick, true)
+    document.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('scroll', forceUpdate, true)
+    window.addEventListener('resize', forceUpdate)
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove, true)
+      document.removeEventListener('click', handleClick, true)
+      document.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('scroll', forceUpdate, true)
+      window.removeEventListener('resize', forceUpdate)
+    }
+  }, [enabled, handleMouseMove, handleClick, handleKeyDown])
+
+  const referenceRect = reference?.isConnected ? reference.getBoundingClientRect() : undefined
+  const targetRect = target?.isConnected && target !== reference ? target.getBoundingClientRect() : undefined
+  const measurements = referenceRect && targetRect ? measureDistances(referenceRect, targetRect) : []
+
+  const selectors = useMemo(
+    () => ({
+      reference: reference ? getElementInfo(reference).uniqueSelector : undefined,
+      target: target ? getElementInfo(target).uniqueSelector : undefined,
+    }),
+    [reference, target]
+  )
+
+  const handleAnnotate = () => {
+    if (!target || !reference || measurements.length === 0) return
+    const info = getElementInfo(target)
+    const distances = measurements.map((m) => `${m.side} ${formatDistance(m.distance)}px`).join(', ')
+    const annotation = createAnnotation(
+      {
+        tagName: info.tagName,
+        id: info.id,
+        uniqueSelector: info.uniqueSelector,
+        componentName: info.componentName,
+        textContent: info.textContent,
+        source: info.source,
+      },
+      `Spacing from ${selectors.reference}: ${distances}.`
+    )
+    setAnnotations((prev) => ({
+      ...prev,
+      [annotation.id]: {
+        ...annotation,
+        metrics: Object.fromEntries(measurements.map((m) => [m.side, Math.round(m.distance * 10) / 10])),
+      },
+    }))
+    setAnnotated(true)
+  }
+
+  if (!enabled) return null
+
+  return createPortal(
+    <div data-debug-inspector className={className}>
+      {showGrid && <GridOverlay size={gridSize} baseline={baseline} />}
+
+      {/* Reference and Measured Elements */}
+      {referenceRect && reference && <ElementHighlight rect={referenceRect} tone="red" label={formatSize(reference)} />}
+      {targetRect && target && (
+        <ElementHighlight rect={targetRect} tone={locked ? 'pink' : 'blue'} label={formatSize(target)} />
+      )}
+      {!referenceRect && hovered?.isConnected && (
+        <ElementHighlight rect={hovered.getBoundingClientRect()} label={formatSize(hovered)} />
+      )}
+
+      {/* Distances */}
+      {measurements.map((measurement) => (
+        <MeasurementLine key={`${measurement.axis}-${measurement.side}`} measurement={measurement} />
+      ))}
+
+      {/* Panel */}
+      <div
+        data-debug-panel
+        className="fixed z-[9999] top-2 left-1/2 -translate-x-1/2 w-80 bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10 font-mono text-xs"
+      >
+        <div className="flex items-center justify-between gap-2 px-2 py-1 border-b border-white/10">
+          <span className="text-[10px] text-gray-400">MEASURE</span>
+          <div className="flex items-center gap-1 text-[9px] text-gray-400">
+            <button
+              onClick={() => setShowGrid((prev) => !prev)}
+              className={cn(
+                'px-1.5 py-0.5 rounded transition-colors',
+                showGrid ? 'bg-pink-500/20 text-pink-400' : 'bg-white/10 text-white/70 hover:bg-white/20'
+              )}
+            >
+              Grid
+            </button>
+            <input
+              type="number"
+              min={0}
+              value={gridSize}
+              onChange={(e) => setGridSize(Math.max(0, Number(e.target.value)))}
+              title="Grid spacing (px)"
+              className="w-10 bg-white/5 rounded px-1 py-0.5 text-[10px] border border-white/10 focus:border-blue-500/50 focus:outline-none text-white"
+            />
+            <span>baseline</span>
+            <input
+              type="number"
+              min={0}
+              value={baseline}
+              onChange={(e) => setBaseline(Math.max(0, Number(e.target.value)))}
+              title="Baseline spacing (px), 0 to hide"
+              className="w-10 bg-white/5 rounded px-1 py-0.5 text-[10px] border border-white/10 focus:border-blue-500/50 focus:outline-none text-white"
+            />
+          </div>
+        </div>
+
+        <div className="p-2 space-y-0.5 text-[10px]">
+          <div className="flex gap-1">
+            <span className="text-red-400 w-12 shrink-0">From</span>
+            <span className={cn('truncate', reference ? 'text-yellow-300' : 'text-gray-500')} title={selectors.reference}>
+              {selectors.reference ?? 'Click an element to pin it'}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            <span className={cn('w-12 shrink-0', locked ? 'text-pink-400' : 'text-blue-400')}>To</span>
+            <span
+              className={cn('truncate', targetRect ? 'text-yellow-300' : 'text-gray-500')}
+              title={targetRect ? selectors.target : undefined}
+            >
+              {targetRect ? selectors.target : 'Hover another element'}
+            </span>
+          </div>
+
+          {measurements.length > 0 && (
+            <div className="flex items-center gap-2 pt-1">
+              <span className="flex-1 text-white/80">
+                {measurements.map((m) => `${m.side} ${formatDistance(m.distance)}`).join(' · ')}
+              </span>
+              <button
+                onClick={handleAnnotate}
+                disabled={annotated}
+                className={cn(
+                  'shrink-0 text-[9px] px-1.5 py-0.5 rounded transition-colors',
+                  annotated ? 'bg-green-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                )}
+              >
+                {annotated ? 'Annotated' : 'Annotate'}
+              </button>
+            </div>
+          )}
+
+          <div className="text-[9px] text-gray-500 border-t border-white/10 pt-1 mt-1">
+            Click to pin • Shift+click to lock • ESC to {locked ? 'unlock' : reference ? 'unpin' : 'close'}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
+
+registerDebugComponent(MeasureTool)
+registerDebugComponent(GridOverlay)
+
+export default MeasureTool
@@ -0,0 +1,330 @@
+/**
+ * Network Panel Component
+ * Lists fetch and XMLHttpRequest traffic with filtering, details and cURL export
+ */
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { ArrowLeft, Trash2 } from 'lucide-react'
+import { cn, formatBytes, POSITION_STYLES } from '../lib/utils'
+import { subscribeToNetwork, toCurl } from '../lib/networkMonitor'
+import { registerDebugComponent } from '../lib/reactFiber'
+import type { NetworkPanelOptions, NetworkRequest } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TYPE_FILTERS = ['all', 'fetch', 'xhr', 'errors'] as const
+type TypeFilter = (typeof TYPE_FILTERS)[number]
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function isFailed(request: NetworkRequest): boolean {
+  return request.state === 'error' || (request.status ?? 0) >= 400
+}
+
+function getStatusColor(request: NetworkRequest): string {
+  if (request.state === 'pending') return 'text-gray-400'
+  if (isFailed(request)) return 'text-red-400'
+  if ((request.status ?? 0) >= 300) return 'text-yellow-400'
+  return 'text-green-400'
+}
+
+function getShortUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const path = `${parsed.pathname}${parsed.search}`
+    return parsed.origin === window.location.origin ? path : `${parsed.host}${path}`
+  } catch {
+    return url
+  }
+}
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '…'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`
+}
+
+// ============================================================================
+// Detail View
+// ============================================================================
+
+interface DetailSectionProps {
+  title: string
+  children: ReactNode
+}
+
+function DetailSection({ title, children }: DetailSectionProps) {
+  return (
+    <div className="border-t border-white/10 pt-1 mt-1">
+      <div className="text-[9px] text-gray-400 mb-0.5">{title}</div>
+      {children}
+    </div>
+  )
+}
+
+function HeaderList({ headers }: { headers: Record<string, string> }) {
+  const entries = Object.entries(headers)
+  if (entries.length === 0) return <div className="text-[10px] text-gray-600">None</div>
+  return (
+    <div className="text-[10px] space-y-px">
+      {entries.map(([name, value]) => (
+        <div key={name} className="break-all">
+          <span className="text-purple-300">{name}:</span> <span className="text-white/70">{value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function BodyView({ body }: { body?: string }) {
+  if (!body) return <div className="text-[10px] text-gray-600">Empty</div>
+
+  let formatted = body
+  try {
+    formatted = JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    // Not JSON; show as-is
+  }
+
+  return (
+    <pre className="text-[9px] bg-white/5 rounded p-1.5 overflow-auto max-h-40 text-green-300 border border-white/10 whitespace-pre-wrap break-all">
+      {formatted}
+    </pre>
+  )
+}
+
+interface RequestDetailProps {
+  request: NetworkRequest
+  onBack: () => void
+}
+
+function RequestDetail({ request, onBack }: RequestDetailProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopyCurl = () => {
+    navigator.clipboard.writeText(toCurl(request))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  return (
+    <div className="p-2 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between mb-1">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1 text-[10px] text-white/60 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-3 h-3" />
+          Back
+        </button>
+        <button
+          onClick={handleCopyCurl}
+          className={cn(
+            'text-[9px] px-2 py-0.5 rounded transition-colors',
+            copied ? 'bg-green-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+          )}
+        >
+          {copied ? 'Copied!' : 'Copy as cURL'}
+        </button>
+      </div>
+
+      {/* General */}
+      <div className="text-[10px] space-y-px">
+        <div className="break-all text-yellow-300">{request.url}</div>
+        <div>
+          <span className="text-white/80">{request.method}</span>{' '}
+          <span className={getStatusColor(request)}>
+            {request.state === 'pending' ? 'pending' : `${request.status} ${request.statusText ?? ''}`}
+          </span>
+          <span className="text-gray-500"> • {request.type} • {formatDuration(request.duration)}</span>
+        </div>
+        <div className="text-gray-500">
+          ↑ {request.requestSize !== undefined ? formatBytes(request.requestSize) : '—'} • ↓{' '}
+          {request.responseSize !== undefined ? formatBytes(request.responseSize) : '—'}
+        </div>
+        {request.componentName && (
+          <div>
+            <span className="text-gray-400">Component: </span>
+            <span className="text-cyan-400">{request.componentName}</span>
+          </div>
+        )}
+        {request.error && <div className="text-red-400">{request.error}</div>}
+      </div>
+
+      <DetailSection title="REQUEST HEADERS">
+        <HeaderList headers={request.requestHeaders} />
+      </DetailSection>
+      {request.requestBody !== undefined && (
+        <DetailSection title="REQUEST BODY">
+          <BodyView body={request.requestBody} />
+        </DetailSection>
+      )}
+      <DetailSection title="RESPONSE HEADERS">
+        <HeaderList headers={request.responseHeaders} />
+      </DetailSection>
+      <DetailSection title="RESPONSE BODY">
+        <BodyView body={request.responseBody} />
+      </DetailSection>
+      {request.initiatorStack && (
+        <DetailSection title="INITIATOR">
+          <pre className="text-[9px] text-gray-500 whitespace-pre-wrap break-all max-h-24 overflow-auto">
+            {request.initiatorStack}
+          </pre>
+        </DetailSection>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// Network Panel Component
+// ============================================================================
+
+/**
+ * NetworkPanel - Captures fetch/XHR requests while mounted
+ *
+ * @param position - Position of the panel
+ * @param maxRequests - Maximum number of requests kept
+ * @param className - Additional CSS classes
+ */
+export function NetworkPanel({
+  position = 'bottom-left',
+  maxRequests = 200,
+  className,
+}: NetworkPanelOptions) {
+  const [requests, setRequests] = useState<NetworkRequest[]>([])
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all')
+  const [search, setSearch] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  useEffect(
+    () =>
+      subscribeToNetwork((request) => {
+        setRequests((prev) => {
+          const index = prev.findIndex((r) => r.id === request.id)
+          if (index === -1) return [...prev, request].slice(-maxRequests)
+          const next = [...prev]
+          next[index] = request
+          return next
+        })
+      }),
+    [maxRequests]
+  )
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return requests.filter((request) => {
+      if (typeFilter === 'errors' && !isFailed(request)) return false
+      if ((typeFilter === 'fetch' || typeFilter === 'xhr') && request.type !== typeFilter) return false
+      if (!query) return true
+      return (
+        request.url.toLowerCase().includes(query) ||
+        request.method.toLowerCase().includes(query) ||
+        String(request.status ?? '').includes(query) ||
+        (request.componentName?.toLowerCase().includes(query) ?? false)
+      )
+    })
+  }, [requests, typeFilter, search])
+
+  const selected = selectedId ? requests.find((r) => r.id === selectedId) : undefined
+
+  return (
+    <div
+      data-debug-panel
+      className={cn(
+        'fixed z-[9999] w-[26rem] max-w-[calc(100vw-1rem)]',
+        'bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+        'font-mono text-xs',
+        POSITION_STYLES[position],
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-white/10">
+        <span className="text-[10px] text-gray-400">NETWORK</span>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-white/40 mr-1">
+            {filtered.length}/{requests.length}
+          </span>
+          <button
+            onClick={() => {
+              setRequests([])
+              setSelectedId(null)
+            }}
+            className="p-0.5 hover:bg-white/10 rounded transition-colors"
+            title="Clear"
+          >
+            <Trash2 className="w-3 h-3 text-white/50" />
+          </button>
+        </div>
+      </div>
+
+      {selected ? (
+        <RequestDetail request={selected} onBack={() => setSelectedId(null)} />
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="flex items-center gap-1 px-2 py-1">
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Filter URL, method, status…"
+              className="flex-1 min-w-0 bg-white/5 rounded px-1.5 py-0.5 text-[10px] border border-white/10
+                         focus:border-blue-500/50 focus:outline-none text-white"
+            />
+            {TYPE_FILTERS.map((opt) => (
+              <button
+                key={opt}
+                onClick={() => setTypeFilter(opt)}
+                className={cn(
+                  'text-[10px] px-1.5 py-0.5 rounded transition-colors',
+                  typeFilter === opt ? 'bg-blue-500 text-white' : 'text-white/60 hover:bg-white/10'
+                )}
+              >
+                {opt}
+              </button>
+            ))}
+          </div>
+
+          {/* Request List */}
+          <div className="max-h-72 overflow-y-auto px-1 pb-1">
+            {filtered.length === 0 && (
+              <div className="px-1 py-2 text-[10px] text-gray-500">
+                {requests.length === 0 ? 'Waiting for requests…' : 'No requests match the filter'}
+              </div>
+            )}
+
+            {[...filtered].reverse().map((request) => (
+              <button
+                key={request.id}
+                onClick={() => setSelectedId(request.id)}
+                className="grid grid-cols-[2.5rem_2rem_1fr_auto_auto] gap-x-2 w-full px-1 py-0.5 rounded text-[10px] text-left hover:bg-white/5 transition-colors"
+                title={request.url}
+              >
+                <span className="text-white/80">{request.method}</span>
+                <span className={getStatusColor(request)}>
+                  {request.state === 'pending' ? '…' : request.status || 'ERR'}
+                </span>
+                <span className="truncate text-white/70">
+                  {getShortUrl(request.url)}
+                  {request.componentName && <span className="text-cyan-400/70"> • {request.componentName}</span>}
+                </span>
+                <span className="text-right text-gray-500">{formatDuration(request.duration)}</span>
+                <span className="text-right text-gray-500">
+                  {request.responseSize !== undefined ? formatBytes(request.responseSize) : ''}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+registerDebugComponent(NetworkPanel)
+
+export default NetworkPanel
@@ -0,0 +1,143 @@
+/**
+ * Render Highlighter Component
+ * Flashes outlines around DOM nodes whose components re-rendered
+ */
+
+import { useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import { subscribeToCommits } from '../lib/reactCommits'
+import {
+  didFiberRender,
+  getHostElements,
+  isComponentFiber,
+  registerDebugComponent,
+  walkCommittedFibers,
+} from '../lib/reactFiber'
+import type { RenderHighlighterOptions } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Renders within this window count towards an element's frequency colour
+const FREQUENCY_WINDOW_MS = 1000
+
+// Outline colours from cool (rare) to hot (frequent)
+const FREQUENCY_COLORS = [
+  { maxCount: 1, color: '55, 175, 255' },
+  { maxCount: 3, color: '70, 220, 120' },
+  { maxCount: 6, color: '250, 205, 50' },
+  { maxCount: 10, color: '255, 140, 40' },
+  { maxCount: Infinity, color: '255, 60, 60' },
+]
+
+interface Flash {
+  element: Element
+  count: number
+  start: number
+}
+
+function getFrequencyColor(count: number): string {
+  return FREQUENCY_COLORS.find((entry) => count <= entry.maxCount)!.color
+}
+
+// ============================================================================
+// Render Highlighter Component
+// ============================================================================
+
+/**
+ * RenderHighlighter - Outlines DOM nodes of components that rendered in each commit
+ * Colour reflects how often the element re-rendered in the last second
+ *
+ * @param enabled - Whether highlighting is active
+ * @param flashDuration - How long each outline stays visible (ms)
+ */
+export function RenderHighlighter({ enabled, flashDuration = 600 }: RenderHighlighterOptions) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!enabled || !canvas || !ctx) return
+
+    // Render timestamps per element within the frequency window
+    const renders = new WeakMap<Element, number[]>()
+    // Latest flash per element; a new render restarts it
+    const flashes = new Map<Element, Flash>()
+    let rafId: number | null = null
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = window.innerWidth * dpr
+      canvas.height = window.innerHeight * dpr
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    }
+    resize()
+    window.addEventListener('resize', resize)
+
+    const draw = (now: number) => {
+      ctx.clearRect(0, 0, window.innerWidth, window.innerHeight)
+
+      flashes.forEach((flash, element) => {
+        const progress = (now - flash.start) / flashDuration
+        if (progress >= 1 || !element.isConnected) {
+          flashes.delete(element)
+          return
+        }
+
+        const rect = element.getBoundingClientRect()
+        if (rect.width === 0 && rect.height === 0) return
+
+        ctx.strokeStyle = `rgba(${getFrequencyColor(flash.count)}, ${1 - progress})`
+        ctx.lineWidth = 2
+        ctx.strokeRect(rect.left + 1, rect.top + 1, rect.width - 2, rect.height - 2)
+      })
+
+      rafId = flashes.size > 0 ? requestAnimationFrame(draw) : null
+    }
+
+    const unsubscribe = subscribeToCommits((root, timestamp) => {
+      const seen = new Set<Element>()
+
+      walkCommittedFibers(root, (fiber) => {
+        if (!isComponentFiber(fiber) || !fiber.alternate || !didFiberRender(fiber)) return
+        getHostElements(fiber).forEach((element) => seen.add(element))
+      })
+
+      seen.forEach((element) => {
+        const recent = (renders.get(element) ?? []).filter((time) => timestamp - time < FREQUENCY_WINDOW_MS)
+        recent.push(timestamp)
+        renders.set(element, recent)
+        flashes.set(element, { element, count: recent.length, start: timestamp })
+      })
+
+      // Layout is read on the next frame, batched for all flashes
+      if (seen.size > 0 && rafId === null) {
+        rafId = requestAnimationFrame(draw)
+      }
+    })
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('resize', resize)
+      if (rafId !== null) cancelAnimationFrame(rafId)
+      ctx.clearRect(0, 0, window.innerWidth, window.innerHeight)
+    }
+  }, [enabled, flashDuration])
+
+  if (!enabled) return null
+
+  return createPortal(
+    <canvas
+      ref={canvasRef}
+      data-debug-inspector
+      className="fixed inset-0 z-[9996] pointer-events-none"
+      style={{ width: '100vw', height: '100vh' }}
+    />,
+    document.body
+  )
+}
+
+registerDebugComponent(RenderHighlighter)
+
+export default RenderHighlighter
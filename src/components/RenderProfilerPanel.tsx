@@ -0,0 +1,218 @@
+/**
+ * Render Profiler Panel Component
+ * Per-component render counts, timings and "why did this render"
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Pause, Play, Trash2 } from 'lucide-react'
+import { cn, POSITION_STYLES } from '../lib/utils'
+import { RenderProfiler } from '../lib/renderProfiler'
+import { isReactCommitHookAvailable } from '../lib/reactCommits'
+import { registerDebugComponent } from '../lib/reactFiber'
+import type { RenderCause, RenderProfilerPanelOptions, RenderProfilerSnapshot } from '../lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SORT_OPTIONS = ['renders', 'total', 'self'] as const
+type SortOption = (typeof SORT_OPTIONS)[number]
+
+// Number of components listed
+const MAX_ROWS = 15
+
+// How often the panel pulls a new snapshot (ms)
+const REFRESH_INTERVAL = 500
+
+const EMPTY_SNAPSHOT: RenderProfilerSnapshot = { commitCount: 0, components: [] }
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function describeCause(cause: RenderCause): string {
+  if (cause.isMount) return 'mount'
+  if (cause.parentRendered) return 'parent rendered'
+
+  const parts: string[] = []
+  if (cause.props.length > 0) parts.push(`props: ${cause.props.join(', ')}`)
+  if (cause.state.length > 0) parts.push(`state: ${cause.state.join(', ')}`)
+  if (cause.context.length > 0) parts.push(`context: ${cause.context.join(', ')}`)
+  return parts.join(' • ')
+}
+
+// ============================================================================
+// Render Profiler Panel Component
+// ============================================================================
+
+/**
+ * RenderProfilerPanel - Records React commits and lists per-component render stats
+ *
+ * @param position - Position of the panel
+ * @param className - Additional CSS classes
+ */
+export function RenderProfilerPanel({
+  position = 'bottom-left',
+  className,
+}: RenderProfilerPanelOptions) {
+  const profilerRef = useRef<RenderProfiler | null>(null)
+  if (!profilerRef.current) profilerRef.current = new RenderProfiler()
+
+  const [recording, setRecording] = useState(true)
+  const [snapshot, setSnapshot] = useState<RenderProfilerSnapshot>(EMPTY_SNAPSHOT)
+  const [sortBy, setSortBy] = useState<SortOption>('renders')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [hookAvailable, setHookAvailable] = useState(true)
+
+  // Start/stop recording
+  useEffect(() => {
+    const profiler = profilerRef.current!
+    if (!recording) return
+
+    profiler.start()
+    setHookAvailable(isReactCommitHookAvailable())
+    return () => profiler.stop()
+  }, [recording])
+
+  // Pull snapshots while anything changed
+  useEffect(() => {
+    const profiler = profilerRef.current!
+    let lastRevision = -1
+
+    const refresh = () => {
+      if (profiler.revision === lastRevision) return
+      lastRevision = profiler.revision
+      setSnapshot(profiler.getSnapshot())
+    }
+
+    refresh()
+    const interval = setInterval(refresh, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  const rows = useMemo(() => {
+    const key = sortBy === 'renders' ? 'renderCount' : sortBy === 'total' ? 'totalTime' : 'selfTime'
+    return [...snapshot.components].sort((a, b) => b[key] - a[key]).slice(0, MAX_ROWS)
+  }, [snapshot, sortBy])
+
+  const hasTimings = snapshot.components.some((c) => c.totalTime > 0)
+
+  return (
+    <div
+      data-debug-panel
+      className={cn(
+        'fixed z-[9999] w-72',
+        'bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+        'font-mono text-xs',
+        POSITION_STYLES[position],
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-white/10">
+        <span className="text-[10px] text-gray-400">RENDER PROFILER</span>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-white/40 mr-1">
+            {snapshot.commitCount} commits
+            {snapshot.lastCommitDuration !== undefined && ` • ${snapshot.lastCommitDuration.toFixed(1)}ms`}
+          </span>
+          <button
+            onClick={() => setRecording((prev) => !prev)}
+            className="p-0.5 hover:bg-white/10 rounded transition-colors"
+            title={recording ? 'Pause recording' : 'Resume recording'}
+          >
+            {recording ? <Pause className="w-3 h-3 text-white/50" /> : <Play className="w-3 h-3 text-white/50" />}
+          </button>
+          <button
+            onClick={() => {
+              profilerRef.current!.reset()
+              setExpanded(null)
+            }}
+            className="p-0.5 hover:bg-white/10 rounded transition-colors"
+            title="Clear"
+          >
+            <Trash2 className="w-3 h-3 text-white/50" />
+          </button>
+        </div>
+      </div>
+
+      {/* Sort */}
+      <div className="flex items-center gap-1 px-2 py-1 text-[10px]">
+        <span className="text-gray-500">Sort:</span>
+        {SORT_OPTIONS.map((opt) => (
+          <button
+            key={opt}
+            onClick={() => setSortBy(opt)}
+            className={cn(
+              'px-1.5 py-0.5 rounded transition-colors',
+              sortBy === opt ? 'bg-blue-500 text-white' : 'text-white/60 hover:bg-white/10'
+            )}
+          >
+            {opt}
+          </button>
+        ))}
+      </div>
+
+      {/* Notices */}
+      {!hookAvailable && (
+        <div className="px-2 pb-1 text-[10px] text-yellow-400">
+          React DevTools hook not found. Import '@auto-claude/debugging-tool/hook' before react-dom.
+        </div>
+      )}
+      {hookAvailable && snapshot.commitCount > 0 && !hasTimings && (
+        <div className="px-2 pb-1 text-[10px] text-gray-500">
+          Timings need a development or profiling build of React
+        </div>
+      )}
+
+      {/* Component Rows */}
+      <div className="max-h-72 overflow-y-auto px-1 pb-1">
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-2 px-1 text-[9px] text-gray-500">
+          <span>Component</span>
+          <span className="text-right">#</span>
+          <span className="text-right">Total</span>
+          <span className="text-right">Self</span>
+        </div>
+
+        {rows.length === 0 && (
+          <div className="px-1 py-2 text-[10px] text-gray-500">
+            {recording ? 'Interact with the app to record renders' : 'Paused'}
+          </div>
+        )}
+
+        {rows.map((row) => (
+          <div key={row.name}>
+            <button
+              onClick={() => setExpanded((prev) => (prev === row.name ? null : row.name))}
+              className={cn(
+                'grid grid-cols-[1fr_auto_auto_auto] gap-x-2 w-full px-1 py-0.5 rounded text-[10px] text-left transition-colors',
+                expanded === row.name ? 'bg-white/10' : 'hover:bg-white/5'
+              )}
+            >
+              <span className="text-cyan-400 truncate">{row.name}</span>
+              <span className="text-right text-white/80">{row.renderCount}</span>
+              <span className="text-right text-white/60">{row.totalTime.toFixed(1)}</span>
+              <span className="text-right text-white/60">{row.selfTime.toFixed(1)}</span>
+            </button>
+
+            {/* Why did this render */}
+            {expanded === row.name && (
+              <div className="ml-2 mb-1 border-l border-white/10 pl-2 text-[10px]">
+                {row.causes.map((cause, i) => (
+                  <div key={i} className="text-gray-400 break-words">
+                    <span className="text-white/30">{(cause.timestamp / 1000).toFixed(2)}s </span>
+                    {describeCause(cause)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+registerDebugComponent(RenderProfilerPanel)
+
+export default RenderProfilerPanel
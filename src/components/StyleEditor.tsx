@@ -0,0 +1,339 @@
+/**
+ * Style Editor Component
+ * Live class and inline style editing with a session change log
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { cn } from '../lib/utils'
+import { registerDebugComponent } from '../lib/reactFiber'
+import {
+  addClass,
+  formatStyleDiff,
+  getDisabledClasses,
+  getPageClassNames,
+  getStyleChanges,
+  removeClass,
+  revertAllStyleChanges,
+  revertStyleChange,
+  setClassEnabled,
+  setInlineStyle,
+  subscribeToStyleChanges,
+} from '../lib/styleEdits'
+import type { StyleChange } from '../lib/types'
+import { createAnnotation, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_SUGGESTIONS = 8
+
+const INPUT_CLASS =
+  'min-w-0 bg-white/5 rounded px-1.5 py-0.5 text-[10px] border border-white/10 focus:border-blue-500/50 focus:outline-none text-white'
+
+/**
+ * Page classes matching a query, prefix matches first
+ */
+function suggestClasses(query: string, classNames: string[], exclude: string[]): string[] {
+  const q = query.trim()
+  if (!q) return []
+  const candidates = classNames.filter((name) => !exclude.includes(name) && name !== q)
+  const prefix = candidates.filter((name) => name.startsWith(q))
+  const contains = candidates.filter((name) => !name.startsWith(q) && name.includes(q))
+  return [...prefix, ...contains].slice(0, MAX_SUGGESTIONS)
+}
+
+// Keys the uncontrolled style inputs by element, as the editor is reused across selections
+const elementKeys = new WeakMap<Element, number>()
+let nextElementKey = 0
+
+function getElementKey(element: Element): number {
+  let key = elementKeys.get(element)
+  if (key === undefined) {
+    key = nextElementKey++
+    elementKeys.set(element, key)
+  }
+  return key
+}
+
+function getInlineDeclarations(element: HTMLElement): Array<{ name: string; value: string }> {
+  return Array.from(element.style, (name) => {
+    const priority = element.style.getPropertyPriority(name)
+    return { name, value: element.style.getPropertyValue(name) + (priority ? ` !${priority}` : '') }
+  })
+}
+
+function getClassDiff(change: StyleChange): { added: string[]; removed: string[] } {
+  const { before, after } = change
+  return {
+    added: after.classList.filter((name) => !before.classList.includes(name)),
+    removed: before.classList.filter((name) => !after.classList.includes(name)),
+  }
+}
+
+// ============================================================================
+// Change Log
+// ============================================================================
+
+interface StyleChangeLogProps {
+  changes: StyleChange[]
+  onRevert: (change?: StyleChange) => void
+  customAtom?: ReturnType<typeof createAnnotationsAtom>
+}
+
+function StyleChangeLog({ changes, onRevert, customAtom }: StyleChangeLogProps) {
+  const [, setAnnotations] = useDebugAnnotations(customAtom)
+  const [annotated, setAnnotated] = useState<Set<string>>(() => new Set())
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => setCopied(false), [changes])
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formatStyleDiff(changes))
+    setCopied(true)
+  }
+
+  const handleAnnotate = (change: StyleChange) => {
+    const annotation = createAnnotation(
+      { ...change.elementInfo, source: change.source },
+      `Proposed style change:\n${formatStyleDiff([change])}`
+    )
+    setAnnotations((prev) => ({ ...prev, [annotation.id]: annotation }))
+    setAnnotated((prev) => new Set(prev).add(`${change.id}@${change.timestamp}`))
+  }
+
+  return (
+    <div className="mt-2 pt-1 border-t border-white/10">
+      <div className="flex items-center justify-between mb-0.5">
+        <span className="text-[9px] text-gray-400">SESSION CHANGES ({changes.length})</span>
+        {changes.length > 0 && (
+          <div className="flex gap-1">
+            <button
+              onClick={handleCopy}
+              className="text-[9px] px-1.5 rounded bg-white/10 text-white/70 hover:bg-white/20 transition-colors"
+            >
+              {copied ? 'Copied' : 'Copy diff'}
+            </button>
+            <button
+              onClick={() => onRevert()}
+              className="text-[9px] px-1.5 rounded text-red-400 hover:bg-red-500/10 transition-colors"
+            >
+              Revert all
+            </button>
+          </div>
+        )}
+      </div>
+
+      {changes.length === 0 && <div className="text-gray-500">No edits yet</div>}
+
+      {changes.map((change) => {
+        const { added, removed } = getClassDiff(change)
+        const isAnnotated = annotated.has(`${change.id}@${change.timestamp}`)
+        return (
+          <div key={change.id} className="py-0.5 leading-tight">
+            <div className="flex items-center gap-1">
+              <span className="text-yellow-300 truncate flex-1" title={change.elementInfo.uniqueSelector}>
+                {change.elementInfo.uniqueSelector}
+              </span>
+              <button
+                onClick={() => handleAnnotate(change)}
+                disabled={isAnnotated}
+                className={cn(
+                  'shrink-0 text-[9px] px-1 rounded transition-colors',
+                  isAnnotated ? 'bg-green-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                )}
+              >
+                {isAnnotated ? 'Annotated' : 'Annotate'}
+              </button>
+              <button
+                onClick={() => onRevert(change)}
+                className="shrink-0 text-[9px] px-1 rounded text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                Revert
+              </button>
+            </div>
+            {change.elementInfo.componentName && (
+              <div className="text-cyan-400">{change.elementInfo.componentName}</div>
+            )}
+            <div className="truncate">
+              {added.map((name) => (
+                <span key={`+${name}`} className="text-green-400 mr-1">+{name}</span>
+              ))}
+              {removed.map((name) => (
+                <span key={`-${name}`} className="text-red-400 mr-1">−{name}</span>
+              ))}
+              {change.before.style !== change.after.style && <span className="text-purple-300">style</span>}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// ============================================================================
+// Style Editor Component
+// ============================================================================
+
+interface StyleEditorProps {
+  element: HTMLElement
+  className?: string
+  customAtom?: ReturnType<typeof createAnnotationsAtom>
+}
+
+/**
+ * StyleEditor - Add, remove and toggle classes and edit inline styles live
+ * Every edit goes into a session change log that can be reverted per element,
+ * copied as a diff, or attached to a new annotation.
+ *
+ * @param element - Element to edit
+ * @param className - Additional CSS classes
+ * @param customAtom - Custom Jotai atom for created annotations
+ */
+export function StyleEditor({ element, className, customAtom }: StyleEditorProps) {
+  const [changes, setChanges] = useState(getStyleChanges)
+  const [classInput, setClassInput] = useState('')
+  const [newProperty, setNewProperty] = useState('')
+  const [newValue, setNewValue] = useState('')
+  // Remounts the uncontrolled style inputs after a revert
+  const [resetCount, setResetCount] = useState(0)
+
+  useEffect(() => subscribeToStyleChanges(setChanges), [])
+
+  // Page classes are collected once per element rather than per keystroke
+  const pageClassNames = useMemo(() => getPageClassNames(), [element])
+
+  const change = changes.find((c) => c.element === element)
+  const disabled = getDisabledClasses(element)
+  const classes = [...element.classList]
+  const declarations = getInlineDeclarations(element)
+  const elementKey = getElementKey(element)
+  const suggestions = suggestClasses(classInput, pageClassNames, classes)
+
+  const handleAddClass = (name: string) => {
+    addClass(element, name)
+    setClassInput('')
+  }
+
+  const handleAddProperty = () => {
+    if (!newProperty.trim() || !newValue.trim()) return
+    setInlineStyle(element, newProperty, newValue)
+    setNewProperty('')
+    setNewValue('')
+  }
+
+  const handleRevert = (target?: StyleChange) => {
+    if (target) revertStyleChange(target.element)
+    else revertAllStyleChanges()
+    setResetCount((n) => n + 1)
+  }
+
+  return (
+    <div className={cn('text-[10px]', className)}>
+      {/* Classes */}
+      <div className="text-[9px] text-gray-400 mb-0.5">CLASSES</div>
+      <div className="flex flex-wrap gap-1 mb-1">
+        {classes.length === 0 && disabled.length === 0 && <span className="text-gray-500">No classes</span>}
+        {[...classes, ...disabled].map((name) => {
+          const off = disabled.includes(name)
+          const added = change && !change.before.classList.includes(name)
+          return (
+            <span
+              key={name}
+              className={cn(
+                'inline-flex items-center gap-0.5 rounded px-1 border',
+                off ? 'border-white/10 text-gray-500' : added ? 'border-green-500/40 text-green-300' : 'border-white/20 text-yellow-300'
+              )}
+            >
+              <button
+                onClick={() => setClassEnabled(element, name, off)}
+                className={cn('hover:underline', off && 'line-through')}
+                title={off ? 'Switch back on' : 'Switch off'}
+              >
+                {name}
+              </button>
+              <button
+                onClick={() => removeClass(element, name)}
+                className="text-gray-500 hover:text-red-400"
+                title="Remove"
+              >
+                ×
+              </button>
+            </span>
+          )
+        })}
+      </div>
+      <div className="relative mb-2">
+        <input
+          value={classInput}
+          onChange={(e) => setClassInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddClass(classInput)
+            if (e.key === 'Tab' && suggestions.length > 0) {
+              e.preventDefault()
+              setClassInput(suggestions[0])
+            }
+          }}
+          placeholder="Add class, e.g. p-4…"
+          className={cn(INPUT_CLASS, 'w-full')}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full mt-0.5 z-10 bg-black/95 border border-white/10 rounded shadow-lg">
+            {suggestions.map((name) => (
+              <button
+                key={name}
+                onClick={() => handleAddClass(name)}
+                className="block w-full text-left px-1.5 py-0.5 text-yellow-300 hover:bg-white/10 truncate"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Inline Style */}
+      <div className="text-[9px] text-gray-400 mb-0.5">INLINE STYLE</div>
+      {declarations.map(({ name, value }) => (
+        <div key={`${elementKey}-${name}-${resetCount}`} className="flex items-center gap-1 mb-0.5">
+          <span className="text-cyan-400 shrink-0">{name}:</span>
+          <input
+            defaultValue={value}
+            onChange={(e) => e.target.value.trim() && setInlineStyle(element, name, e.target.value)}
+            className={cn(INPUT_CLASS, 'flex-1')}
+          />
+          <button
+            onClick={() => setInlineStyle(element, name, '')}
+            className="text-gray-500 hover:text-red-400"
+            title="Remove"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-1">
+        <input
+          value={newProperty}
+          onChange={(e) => setNewProperty(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddProperty()}
+          placeholder="property"
+          className={cn(INPUT_CLASS, 'w-24')}
+        />
+        <input
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddProperty()}
+          placeholder="value"
+          className={cn(INPUT_CLASS, 'flex-1')}
+        />
+      </div>
+
+      {/* Session Change Log */}
+      <StyleChangeLog changes={changes} onRevert={handleRevert} customAtom={customAtom} />
+    </div>
+  )
+}
+
+registerDebugComponent(StyleEditor)
+
+export default StyleEditor
@@ -0,0 +1,205 @@
+/**
+ * Style Panel Component
+ * Box model, grouped computed styles, custom properties, class rules and live editing of an element
+ */
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { cn } from '../lib/utils'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { getBoxModel, getClassRules, getComputedStyleGroups, getCustomProperties } from '../lib/styles'
+import { subscribeToStyleChanges } from '../lib/styleEdits'
+import type { BoxEdges, ComputedStyleGroup } from '../lib/types'
+import { StyleEditor } from './StyleEditor'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GROUP_LABELS: Record<ComputedStyleGroup['name'], string> = {
+  layout: 'Layout',
+  typography: 'Typography',
+  colors: 'Colours',
+}
+
+const SECTIONS = ['box', 'styles', 'variables', 'classes', 'edit'] as const
+type Section = (typeof SECTIONS)[number]
+
+const SECTION_LABELS: Record<Section, string> = {
+  box: 'Box',
+  styles: 'Computed',
+  variables: 'Variables',
+  classes: 'Classes',
+  edit: 'Edit',
+}
+
+// ============================================================================
+// Box Model Diagram
+// ============================================================================
+
+function formatEdge(value: number): string {
+  return value === 0 ? '–' : String(Math.round(value * 10) / 10)
+}
+
+interface BoxLayerProps {
+  label: string
+  edges: BoxEdges
+  className: string
+  children: ReactNode
+}
+
+function BoxLayer({ label, edges, className, children }: BoxLayerProps) {
+  return (
+    <div className={cn('relative border border-dashed px-1 py-0.5 text-center', className)}>
+      <div className="absolute left-1 top-0 text-[8px] text-black/60">{label}</div>
+      <div>{formatEdge(edges.top)}</div>
+      <div className="flex items-center gap-1">
+        <span className="w-6">{formatEdge(edges.left)}</span>
+        <div className="flex-1">{children}</div>
+        <span className="w-6">{formatEdge(edges.right)}</span>
+      </div>
+      <div>{formatEdge(edges.bottom)}</div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Style Panel Component
+// ============================================================================
+
+interface StylePanelProps {
+  element: HTMLElement
+  className?: string
+}
+
+/**
+ * StylePanel - DevTools-style box model and computed style summary
+ * The Edit section changes classes and inline styles live; see StyleEditor.
+ *
+ * @param element - Element to describe
+ * @param className - Additional CSS classes (positioning is left to the caller)
+ */
+export function StylePanel({ element, className }: StylePanelProps) {
+  const [section, setSection] = useState<Section>('box')
+  // Bumped by live edits so the sections below are read again
+  const [revision, setRevision] = useState(0)
+
+  useEffect(() => subscribeToStyleChanges(() => setRevision((n) => n + 1)), [])
+
+  // Styles are read once per element and edit; stylesheet scans are too slow for every render
+  const boxModel = useMemo(() => getBoxModel(element), [element, revision])
+  const groups = useMemo(
+    () => (section === 'styles' ? getComputedStyleGroups(element) : []),
+    [element, section, revision]
+  )
+  const variables = useMemo(
+    () => (section === 'variables' ? getCustomProperties(element) : []),
+    [element, section, revision]
+  )
+  const classRules = useMemo(() => (section === 'classes' ? getClassRules(element) : []), [element, section, revision])
+
+  return (
+    <div
+      data-debug-panel
+      className={cn(
+        'w-72 max-h-[80vh] flex flex-col',
+        'bg-black/90 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+        'font-mono text-xs text-white/80',
+        className
+      )}
+    >
+      {/* Section tabs */}
+      <div className="flex gap-1 px-2 py-1 border-b border-white/10">
+        {SECTIONS.map((name) => (
+          <button
+            key={name}
+            onClick={() => setSection(name)}
+            className={cn(
+              'text-[10px] px-1.5 py-0.5 rounded transition-colors',
+              section === name ? 'bg-white/15 text-white' : 'text-gray-400 hover:bg-white/10'
+            )}
+          >
+            {SECTION_LABELS[name]}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-2 overflow-y-auto text-[10px]">
+        {/* Box model */}
+        {section === 'box' && (
+          <BoxLayer label="margin" edges={boxModel.margin} className="bg-orange-300/70 border-orange-500 text-black">
+            <BoxLayer label="border" edges={boxModel.border} className="bg-yellow-200/80 border-black/40 text-black">
+              <BoxLayer label="padding" edges={boxModel.padding} className="bg-green-300/70 border-green-700/50 text-black">
+                <div className="bg-sky-300/80 border border-sky-700/50 py-1 text-black">
+                  {Math.round(boxModel.content.width)} × {Math.round(boxModel.content.height)}
+                </div>
+              </BoxLayer>
+            </BoxLayer>
+          </BoxLayer>
+        )}
+
+        {/* Computed styles */}
+        {section === 'styles' &&
+          groups.map((group) => (
+            <div key={group.name} className="mb-2">
+              <div className="text-[9px] text-gray-400 mb-0.5">{GROUP_LABELS[group.name].toUpperCase()}</div>
+              {group.properties.length === 0 && <div className="text-gray-500">Defaults</div>}
+              {group.properties.map(({ name, value }) => (
+                <div key={name} className="flex gap-2 leading-tight">
+                  <span className="text-cyan-400 shrink-0">{name}</span>
+                  <span className="truncate" title={value}>
+                    {group.name === 'colors' && value.startsWith('rgb') && (
+                      <span className="inline-block w-2 h-2 mr-1 border border-white/30 align-middle" style={{ background: value }} />
+                    )}
+                    {value}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+
+        {/* Custom properties */}
+        {section === 'variables' && (
+          <>
+            {variables.length === 0 && <div className="text-gray-500">No custom properties in effect</div>}
+            {variables.map(({ name, value }) => (
+              <div key={name} className="flex gap-2 leading-tight">
+                <span className="text-purple-400 shrink-0">{name}</span>
+                <span className="truncate" title={value}>{value}</span>
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Class rules */}
+        {section === 'classes' && (
+          <>
+            {classRules.length === 0 && <div className="text-gray-500">No classes</div>}
+            {classRules.map((match) => (
+              <div key={match.className} className="mb-1 leading-tight">
+                <div className={match.declarations.length > 0 ? 'text-yellow-300' : 'text-gray-500'}>
+                  .{match.className}
+                  {match.declarations.length === 0 && <span className="text-gray-600"> (no rules)</span>}
+                </div>
+                {match.conditions.map((condition) => (
+                  <div key={condition} className="pl-2 text-gray-500">{condition}</div>
+                ))}
+                {match.declarations.map((declaration) => (
+                  <div key={declaration} className="pl-2 text-white/70 truncate" title={declaration}>
+                    {declaration}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Live editing */}
+        {section === 'edit' && <StyleEditor element={element} />}
+      </div>
+    </div>
+  )
+}
+
+registerDebugComponent(StylePanel)
+
+export default StylePanel
@@ -0,0 +1,221 @@
+/**
+ * Web Vitals Panel Component
+ * LCP, CLS, INP, FCP and TTFB with highlighting of the responsible elements
+ */
+
+import { useEffect, useMemo, useReducer, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { cn, POSITION_STYLES } from '../lib/utils'
+import { getElementInfo } from '../lib/elementInfo'
+import { registerDebugComponent } from '../lib/reactFiber'
+import { observeWebVitals } from '../lib/webVitals'
+import type { WebVitalMetric, WebVitalName, WebVitalRating, WebVitals, WebVitalsPanelOptions } from '../lib/types'
+import { createAnnotation, createAnnotationsAtom, useDebugAnnotations } from './AnnotationSystem'
+import { ElementHighlight, type HighlightTone } from './ElementHighlight'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const METRIC_ORDER: WebVitalName[] = ['LCP', 'CLS', 'INP', 'FCP', 'TTFB']
+
+const METRIC_LABELS: Record<WebVitalName, string> = {
+  LCP: 'Largest Contentful Paint',
+  CLS: 'Cumulative Layout Shift',
+  INP: 'Interaction to Next Paint',
+  FCP: 'First Contentful Paint',
+  TTFB: 'Time to First Byte',
+}
+
+const CULPRIT_LABELS: Record<WebVitalName, string> = {
+  LCP: 'LCP element',
+  CLS: 'Shifted node',
+  INP: 'Slow interaction target',
+  FCP: 'Element',
+  TTFB: 'Element',
+}
+
+const RATING_STYLES: Record<WebVitalRating, { text: string; tone: HighlightTone }> = {
+  good: { text: 'text-green-400', tone: 'green' },
+  'needs-improvement': { text: 'text-yellow-400', tone: 'yellow' },
+  poor: { text: 'text-red-400', tone: 'red' },
+}
+
+// Culprit elements listed and highlighted per metric
+const MAX_CULPRITS = 5
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function formatMetricValue(metric: WebVitalMetric): string {
+  if (metric.name === 'CLS') return metric.value.toFixed(3)
+  if (metric.value >= 1000) return `${(metric.value / 1000).toFixed(2)} s`
+  return `${Math.round(metric.value)} ms`
+}
+
+// ============================================================================
+// Web Vitals Panel Component
+// ============================================================================
+
+/**
+ * WebVitalsPanel - Live Core Web Vitals with culprit element highlighting
+ *
+ * @param position - Position of the panel
+ * @param className - Additional CSS classes
+ * @param customAtom - Custom Jotai atom for created annotations
+ */
+export function WebVitalsPanel({
+  position = 'top-left',
+  className,
+  customAtom,
+}: WebVitalsPanelOptions & { customAtom?: ReturnType<typeof createAnnotationsAtom> }) {
+  const [vitals, setVitals] = useState<WebVitals>({})
+  const [selected, setSelected] = useState<WebVitalName | null>(null)
+  const [annotated, setAnnotated] = useState<Set<Element>>(() => new Set())
+  const [, setAnnotations] = useDebugAnnotations(customAtom)
+  // Re-render to follow highlighted elements while scrolling
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0)
+
+  useEffect(() => observeWebVitals(setVitals), [])
+
+  useEffect(() => {
+    if (!selected) return
+    window.addEventListener('scroll', forceUpdate, true)
+    window.addEventListener('resize', forceUpdate)
+    return () => {
+      window.removeEventListener('scroll', forceUpdate, true)
+      window.removeEventListener('resize', forceUpdate)
+    }
+  }, [selected])
+
+  const selectedMetric = selected ? vitals[selected] : undefined
+  const culprits = useMemo(
+    () =>
+      (selectedMetric?.elements ?? []).slice(0, MAX_CULPRITS).map((element) => ({
+        element,
+        info: element instanceof HTMLElement && element.isConnected ? getElementInfo(element) : null,
+      })),
+    [selectedMetric]
+  )
+
+  const handleAnnotate = (metric: WebVitalMetric, element: Element) => {
+    if (!(element instanceof HTMLElement)) return
+    const info = getElementInfo(element)
+    const annotation = createAnnotation(
+      {
+        tagName: info.tagName,
+        id: info.id,
+        uniqueSelector: info.uniqueSelector,
+        componentName: info.componentName,
+        textContent: info.textContent,
+      },
+      `${metric.name} is ${formatMetricValue(metric)} (${metric.rating}). ${CULPRIT_LABELS[metric.name]} for ${METRIC_LABELS[metric.name]}.`
+    )
+    setAnnotations((prev) => ({ ...prev, [annotation.id]: annotation }))
+    setAnnotated((prev) => new Set(prev).add(element))
+  }
+
+  return (
+    <>
+      <div
+        data-debug-panel
+        className={cn(
+          'fixed z-[9999] w-64',
+          'bg-black/80 backdrop-blur-sm rounded-md shadow-lg border border-white/10',
+          'font-mono text-xs',
+          POSITION_STYLES[position],
+          className
+        )}
+      >
+        {/* Header */}
+        <div className="px-2 py-1 border-b border-white/10 text-[10px] text-gray-400">
+          WEB VITALS
+        </div>
+
+        {/* Metrics */}
+        <div className="p-1">
+          {METRIC_ORDER.map((name) => {
+            const metric = vitals[name]
+            const hasCulprits = !!metric && metric.elements.length > 0
+            return (
+              <button
+                key={name}
+                onClick={() => setSelected((prev) => (prev === name ? null : name))}
+                disabled={!hasCulprits}
+                className={cn(
+                  'flex items-center gap-2 w-full px-1.5 py-0.5 rounded text-left transition-colors',
+                  selected === name ? 'bg-white/10' : hasCulprits && 'hover:bg-white/5'
+                )}
+                title={METRIC_LABELS[name]}
+              >
+                <span className="text-gray-400 w-10">{name}</span>
+                <span className={cn('font-semibold', metric ? RATING_STYLES[metric.rating].text : 'text-gray-600')}>
+                  {metric ? formatMetricValue(metric) : '—'}
+                </span>
+                {hasCulprits && (
+                  <span className="ml-auto text-[9px] text-white/40">
+                    {metric.elements.length} el
+                  </span>
+                )}
+              </button>
+            )
+          })}
+        </div>
+
+        {/* Culprits */}
+        {selectedMetric && (
+          <div className="border-t border-white/10 p-2 space-y-1.5 max-h-56 overflow-y-auto">
+            {culprits.map(({ element, info }, i) => (
+              <div key={i} className="text-[10px]">
+                <div className="text-gray-500">{CULPRIT_LABELS[selectedMetric.name]}</div>
+                {info ? (
+                  <>
+                    <div className="font-mono text-[9px] text-yellow-300 break-all">{info.uniqueSelector}</div>
+                    {info.componentName && <div className="text-cyan-400">{info.componentName}</div>}
+                    <button
+                      onClick={() => handleAnnotate(selectedMetric, element)}
+                      disabled={annotated.has(element)}
+                      className={cn(
+                        'mt-0.5 text-[9px] px-1.5 py-0.5 rounded transition-colors',
+                        annotated.has(element)
+                          ? 'bg-green-500 text-white'
+                          : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      )}
+                    >
+                      {annotated.has(element) ? 'Annotated' : 'Create annotation'}
+                    </button>
+                  </>
+                ) : (
+                  <div className="text-gray-600">Element is no longer in the document</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Culprit Highlights */}
+      {selectedMetric &&
+        createPortal(
+          <div data-debug-inspector>
+            {culprits.map(({ element, info }, i) =>
+              info ? (
+                <ElementHighlight
+                  key={i}
+                  rect={element.getBoundingClientRect()}
+                  label={`${selectedMetric.name} ${formatMetricValue(selectedMetric)}`}
+                  tone={RATING_STYLES[selectedMetric.rating].tone}
+                />
+              ) : null
+            )}
+          </div>,
+          document.body
+        )}
+    </>
+  )
+}
+
+registerDebugComponent(WebVitalsPanel)
+
+export default WebVitalsPanel
@@ -0,0 +1,166 @@
+/**
+ * @auto-claude/debugging-tool/electron
+ * Electron helpers that serve `ProcessInfo` from the main process over IPC
+ *
+ * Electron modules are passed in rather than imported, so this entry has no
+ * dependency on electron, React or Node typings and is safe to load in the
+ * main process, the preload script and the renderer.
+ *
+ * @example
+ * ```ts
+ * // main.ts
+ * import { app, ipcMain } from 'electron'
+ * import { registerProcessInfoHandler } from '@auto-claude/debugging-tool/electron'
+ * registerProcessInfoHandler(ipcMain, app)
+ *
+ * // preload.ts
+ * import { contextBridge, ipcRenderer } from 'electron'
+ * import { exposeProcessInfo } from '@auto-claude/debugging-tool/electron'
+ * exposeProcessInfo(contextBridge, ipcRenderer)
+ *
+ * // renderer
+ * import { getElectronProcessInfo } from '@auto-claude/debugging-tool/electron'
+ * <DebugOverlay getProcessInfo={getElectronProcessInfo} />
+ * ```
+ */
+
+import type { ProcessInfo, ProcessMetrics, ProcessType } from './lib/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PROCESS_INFO_CHANNEL = 'debugging-tool:process-info'
+
+// Key the preload script exposes the API under on `window`
+export const PROCESS_INFO_KEY = 'debugProcessInfo'
+
+// Electron's `ProcessMetric.type` values
+const PROCESS_TYPES: Record<string, ProcessType> = {
+  Browser: 'main',
+  Tab: 'renderer',
+  GPU: 'gpu',
+  Utility: 'utility',
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Subset of Electron's `ProcessMetric` */
+interface ElectronProcessMetric {
+  pid: number
+  type: string
+  name?: string
+  serviceName?: string
+  cpu: { percentCPUUsage: number }
+  /** Values in kilobytes */
+  memory: { workingSetSize: number }
+}
+
+/** Subset of Electron's `app` */
+export interface ElectronAppLike {
+  getAppMetrics(): ElectronProcessMetric[]
+}
+
+/** Subset of Electron's `ipcMain` */
+export interface IpcMainLike {
+  handle(channel: string, listener: () => unknown): void
+  removeHandler(channel: string): void
+}
+
+/** Subset of Electron's `ipcRenderer` */
+export interface IpcRendererLike {
+  invoke(channel: string): Promise<unknown>
+}
+
+/** Subset of Electron's `contextBridge` */
+export interface ContextBridgeLike {
+  exposeInMainWorld(key: string, api: unknown): void
+}
+
+/** Subset of Node's `process` used for main process memory */
+interface NodeProcessLike {
+  pid: number
+  platform: string
+  uptime(): number
+  memoryUsage(): { rss: number; heapTotal: number; heapUsed: number; external: number }
+}
+
+interface ExposedProcessInfoApi {
+  getProcessInfo(): Promise<ProcessInfo | null>
+}
+
+// ============================================================================
+// Main Process
+// ============================================================================
+
+/**
+ * Collect `ProcessInfo` for the whole app
+ * Must be called in the Electron main process.
+ */
+export function collectElectronProcessInfo(app: ElectronAppLike): ProcessInfo {
+  const nodeProcess = (globalThis as unknown as { process: NodeProcessLike }).process
+
+  const processes: ProcessMetrics[] = app.getAppMetrics().map((metric) => ({
+    pid: metric.pid,
+    type: PROCESS_TYPES[metric.type] ?? 'other',
+    name: metric.serviceName || metric.name || (PROCESS_TYPES[metric.type] ? undefined : metric.type),
+    cpu: metric.cpu.percentCPUUsage,
+    memory: metric.memory.workingSetSize * 1024,
+  }))
+
+  return {
+    pid: nodeProcess.pid,
+    platform: nodeProcess.platform,
+    mainProcessMemory: nodeProcess.memoryUsage(),
+    cpu: processes.find((p) => p.pid === nodeProcess.pid)?.cpu,
+    uptime: nodeProcess.uptime(),
+    processes,
+  }
+}
+
+/**
+ * Answer process info requests from renderers
+ * @returns Function that removes the handler
+ */
+export function registerProcessInfoHandler(
+  ipcMain: IpcMainLike,
+  app: ElectronAppLike,
+  channel = PROCESS_INFO_CHANNEL
+): () => void {
+  ipcMain.handle(channel, () => collectElectronProcessInfo(app))
+  return () => ipcMain.removeHandler(channel)
+}
+
+// ============================================================================
+// Preload
+// ============================================================================
+
+/**
+ * Expose `getProcessInfo` to the renderer as `window[key]`
+ * Must be called in a preload script with context isolation enabled.
+ */
+export function exposeProcessInfo(
+  contextBridge: ContextBridgeLike,
+  ipcRenderer: IpcRendererLike,
+  { channel = PROCESS_INFO_CHANNEL, key = PROCESS_INFO_KEY }: { channel?: string; key?: string } = {}
+): void {
+  const api: ExposedProcessInfoApi = {
+    getProcessInfo: () => ipcRenderer.invoke(channel) as Promise<ProcessInfo | null>,
+  }
+  contextBridge.exposeInMainWorld(key, api)
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+/**
+ * Fetch process info through the API exposed by `exposeProcessInfo`
+ * Resolves to null outside Electron, so it can be passed to `getProcessInfo` unconditionally.
+ */
+export async function getElectronProcessInfo(key = PROCESS_INFO_KEY): Promise<ProcessInfo | null> {
+  const api = (window as unknown as Record<string, ExposedProcessInfoApi | undefined>)[key]
+  return api ? api.getProcessInfo() : null
+}
@@ -0,0 +1,13 @@
+/**
+ * @auto-claude/debugging-tool/hook
+ * Standalone entry that installs the React commit hook
+ *
+ * Import this before react-dom so commit attribution works without the
+ * React DevTools extension. It has no React imports of its own.
+ */
+
+import { installReactCommitHook } from './lib/reactCommits'
+
+installReactCommitHook()
+
+export { installReactCommitHook }
@@ -4,8 +4,31 @@
  * 
  * Features:
  * - FPS overlay with memory monitoring
- * - Element inspector with CSS selector generation
+ * - Headless performance monitor and usePerformanceStats hook
+ * - Per-process CPU and memory breakdown for Electron apps
+ * - Frame-time history and long task attribution
+ * - Performance session recording (JSON / Chrome trace export)
+ * - React render profiler with "why did this render"
+ * - Re-render flash highlighting
+ * - Layout shift and geometry change visualizer
+ * - Memory leak detection from heap, DOM and listener trends
+ * - Core Web Vitals with culprit element attribution
+ * - Network request monitor for fetch and XMLHttpRequest
+ * - Console and runtime error capture with an error boundary
+ * - Performance budgets with violation alerts and annotations
+ * - Element inspector with verified, strategy-based selector generation
+ * - Pinned selection with keyboard DOM navigation
+ * - Shadow DOM and same-origin iframe piercing with composite selectors
+ * - Copy-as test locators for Testing Library, Playwright and Cypress
+ * - Box model overlay and computed style panel
+ * - Live class and inline style editing with a diffable change log
+ * - Element measurement with distance guides and a grid/baseline overlay
+ * - React props, state, hooks and context viewer
+ * - Component search that highlights every instance of a component
+ * - Open in editor from inspected elements and annotations
+ * - Accessibility audit with contrast, focus order and page-wide scan
  * - Click-to-annotate system with localStorage persistence
+ * - Touch and pen support with tap-and-hold inspection and tap to annotate
  * - Annotations dashboard for management
  * 
  * @version 1.0.0
@@ -16,10 +39,83 @@
 // ============================================================================
 
 export { DebugOverlay, createAnnotationsAtom } from './components/DebugOverlay'
-export { FPSOverlay } from './components/FPSOverlay'
+export { FPSOverlay, usePerformanceStats } from './components/FPSOverlay'
 export { ElementInspector } from './components/ElementInspector'
-export { AnnotationSystem, useDebugAnnotations, createAnnotationsAtom as createDebugAnnotationsAtom } from './components/AnnotationSystem'
+export { StylePanel } from './components/StylePanel'
+export { StyleEditor } from './components/StyleEditor'
+export { LocatorMenu } from './components/LocatorMenu'
+export { MeasureTool, GridOverlay } from './components/MeasureTool'
+export { ComponentPanel } from './components/ComponentPanel'
+export { ComponentSearch } from './components/ComponentSearch'
+export { AnnotationSystem, useDebugAnnotations, createAnnotation, createAnnotationsAtom as createDebugAnnotationsAtom } from './components/AnnotationSystem'
 export { AnnotationsDashboard } from './components/AnnotationsDashboard'
+export { RenderProfilerPanel } from './components/RenderProfilerPanel'
+export { RenderHighlighter } from './components/RenderHighlighter'
+export { LayoutShiftVisualizer } from './components/LayoutShiftVisualizer'
+export { WebVitalsPanel } from './components/WebVitalsPanel'
+export { NetworkPanel } from './components/NetworkPanel'
+export { ConsolePanel } from './components/ConsolePanel'
+export { DebugErrorBoundary } from './components/DebugErrorBoundary'
+export { BudgetPanel } from './components/BudgetPanel'
+export { AccessibilityPanel } from './components/AccessibilityPanel'
+
+// ============================================================================
+// Monitoring Utilities
+// ============================================================================
+
+export { PerformanceMonitor, subscribeToFrames } from './lib/performanceMonitor'
+export { observeLongTasks, getSupportedLongTaskType } from './lib/longTasks'
+export { installReactCommitHook } from './lib/reactCommits'
+export { PerformanceRecorder, exportRecordingAsJson, exportRecordingAsTrace } from './lib/recorder'
+export { RenderProfiler } from './lib/renderProfiler'
+export { MemoryMonitor, fitLinearTrend } from './lib/memoryMonitor'
+export { observeWebVitals, WEB_VITAL_THRESHOLDS } from './lib/webVitals'
+export { observeLayoutChanges } from './lib/layoutChanges'
+export {
+  generateSelector,
+  resolveSelector,
+  isUniqueSelector,
+  getXPath,
+  DEFAULT_SELECTOR_STRATEGIES,
+  PIERCE_SEPARATOR,
+} from './lib/selector'
+export { getTestLocators, annotationToPlaywrightTest, LOCATOR_FRAMEWORKS } from './lib/locators'
+export { addPointerGestures, TAP_SLOP, HOLD_DELAY } from './lib/pointerGestures'
+export { deepElementsFromPoint, getViewportRect, getComposedParent, addDeepListener } from './lib/deepDom'
+export { getBoxModel, getComputedStyleGroups, getClassRules, getCustomProperties } from './lib/styles'
+export { measureDistances } from './lib/measure'
+export {
+  addClass,
+  removeClass,
+  setClassEnabled,
+  setInlineStyle,
+  getStyleChanges,
+  subscribeToStyleChanges,
+  revertStyleChange,
+  revertAllStyleChanges,
+  formatStyleDiff,
+  getPageClassNames,
+} from './lib/styleEdits'
+export { findComponentInstances } from './lib/componentSearch'
+export { getSourceLocation, formatSourceLocation, getEditorUrl, openInEditor } from './lib/sourceLocation'
+export {
+  auditElement,
+  scanAccessibility,
+  getAccessibleName,
+  getAccessibleRole,
+  getContrast,
+  getTabOrder,
+  isFocusable,
+} from './lib/accessibility'
+export { subscribeToNetwork, toCurl } from './lib/networkMonitor'
+export { BudgetMonitor, getBudgetLabel, formatBudgetValue } from './lib/budgets'
+export {
+  captureConsole,
+  subscribeToConsole,
+  getConsoleEntries,
+  clearConsoleEntries,
+  reportConsoleEntry,
+} from './lib/consoleCapture'
 
 // ============================================================================
 // Types Exports
@@ -29,8 +125,78 @@ export type {
   OverlayPosition,
   AnnotationStatus,
   ElementInfo,
+  BoxEdges,
+  BoxModel,
+  ComputedStyleGroup,
+  ClassRuleMatch,
+  StyleSnapshot,
+  StyleChange,
+  MeasureLine,
+  Measurement,
+  MeasureToolOptions,
+  HookKind,
+  HookValue,
+  ComponentInspection,
+  ValueEntry,
+  ComponentInstance,
+  ComponentSearchOptions,
+  SourceLocation,
+  EditorScheme,
+  EditorTarget,
+  AccessibilityRule,
+  AccessibilityViolation,
+  ContrastResult,
+  AccessibilityReport,
+  AccessibilityPanelOptions,
+  SelectorStrategy,
+  SelectorOptions,
+  FrameOffset,
+  PointerGestureHandlers,
+  LocatorFramework,
+  LocatorStrategy,
+  TestLocator,
   DebugAnnotation,
   PerformanceStats,
+  FrameTimeStats,
+  PerformanceMonitorOptions,
+  LongTaskKind,
+  LongTaskScript,
+  LongTaskEvent,
+  PerformanceSample,
+  ProcessSample,
+  PerformanceMarkRecord,
+  PerformanceRecording,
+  PerformanceRecorderOptions,
+  BudgetMetric,
+  PerformanceBudget,
+  BudgetSnapshot,
+  BudgetViolation,
+  BudgetStatus,
+  BudgetPanelOptions,
+  ConsoleLevel,
+  ConsoleEntry,
+  ConsolePanelOptions,
+  DebugErrorBoundaryProps,
+  NetworkRequest,
+  NetworkPanelOptions,
+  WebVitalName,
+  WebVitalRating,
+  WebVitalMetric,
+  WebVitals,
+  WebVitalsPanelOptions,
+  LinearTrend,
+  MemorySample,
+  MemoryReport,
+  MemoryMonitorOptions,
+  RenderCause,
+  ComponentRenderStats,
+  RenderProfilerSnapshot,
+  RenderProfilerPanelOptions,
+  RenderHighlighterOptions,
+  LayoutChange,
+  LayoutShiftVisualizerOptions,
+  ProcessType,
+  ProcessMetrics,
   ProcessInfo,
   DebugModeConfig,
   FPSOverlayOptions,
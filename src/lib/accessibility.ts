@@ -0,0 +1,470 @@
+/**
+ * Accessibility audit
+ * Accessible names and roles, WCAG contrast, focusability and tab order
+ */
+
+import { getFiberFromElement } from './reactFiber'
+import { DEBUG_UI_SELECTOR } from './utils'
+import type { AccessibilityReport, AccessibilityViolation, ContrastResult } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'area[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'iframe',
+  'summary',
+  'audio[controls]',
+  'video[controls]',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[tabindex]',
+].join(', ')
+
+const TAG_ROLES: Record<string, string> = {
+  article: 'article',
+  aside: 'complementary',
+  button: 'button',
+  details: 'group',
+  dialog: 'dialog',
+  fieldset: 'group',
+  footer: 'contentinfo',
+  form: 'form',
+  header: 'banner',
+  hr: 'separator',
+  li: 'listitem',
+  main: 'main',
+  nav: 'navigation',
+  ol: 'list',
+  option: 'option',
+  progress: 'progressbar',
+  summary: 'button',
+  table: 'table',
+  td: 'cell',
+  textarea: 'textbox',
+  th: 'columnheader',
+  tr: 'row',
+  ul: 'list',
+}
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+}
+
+// Roles users operate, which need a name and keyboard access
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+])
+
+// Roles named by their text content
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button',
+  'cell',
+  'checkbox',
+  'columnheader',
+  'heading',
+  'link',
+  'menuitem',
+  'option',
+  'radio',
+  'switch',
+  'tab',
+  'tooltip',
+])
+
+const FORM_FIELD_ROLES = new Set(['checkbox', 'combobox', 'listbox', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'textbox'])
+
+// Longest accessible name kept
+const MAX_NAME_LENGTH = 100
+
+// Elements checked per page scan
+const MAX_SCAN_ELEMENTS = 5000
+
+// ============================================================================
+// Roles and Names
+// ============================================================================
+
+/**
+ * Explicit ARIA role, or the role implied by the element's tag
+ */
+export function getAccessibleRole(element: Element): string | undefined {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0]
+  if (explicit) return explicit
+
+  const tag = element.tagName.toLowerCase()
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') ? 'link' : undefined
+    case 'input': {
+      const type = (element.getAttribute('type') || 'text').toLowerCase()
+      if (type === 'hidden') return undefined
+      return INPUT_ROLES[type] ?? 'textbox'
+    }
+    case 'select':
+      return element.hasAttribute('multiple') || Number(element.getAttribute('size')) > 1 ? 'listbox' : 'combobox'
+    case 'img':
+      return element.getAttribute('alt') === '' ? 'presentation' : 'img'
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return 'heading'
+    default:
+      return TAG_ROLES[tag]
+  }
+}
+
+function normalizeText(text: string | null | undefined): string {
+  const normalized = (text ?? '').replace(/\s+/g, ' ').trim()
+  return normalized.length > MAX_NAME_LENGTH ? normalized.slice(0, MAX_NAME_LENGTH - 1) + '…' : normalized
+}
+
+/**
+ * Text of an element's subtree, including image alternatives
+ */
+function getContentText(element: Element): string {
+  const text = normalizeText(element.textContent)
+  if (text) return text
+
+  const alternatives = Array.from(element.querySelectorAll('img[alt], [aria-label], svg title'))
+    .map((child) => (child.tagName.toLowerCase() === 'title' ? child.textContent : child.getAttribute('alt') ?? child.getAttribute('aria-label')))
+  return normalizeText(alternatives.join(' '))
+}
+
+/**
+ * Accessible name, following the main steps of the W3C accessible name computation:
+ * aria-labelledby, aria-label, labels and alt text, content, then title and placeholder
+ */
+export function getAccessibleName(element: Element): string {
+  const labelledBy = element.getAttribute('aria-labelledby')
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => document.getElementById(id)?.textContent)
+      .join(' ')
+    if (normalizeText(text)) return normalizeText(text)
+  }
+
+  const ariaLabel = normalizeText(element.getAttribute('aria-label'))
+  if (ariaLabel) return ariaLabel
+
+  if (element instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(element.type)) {
+    return normalizeText(element.value) || (element.type === 'submit' ? 'Submit' : element.type === 'reset' ? 'Reset' : '')
+  }
+  if (element instanceof HTMLInputElement && element.type === 'image') {
+    return normalizeText(element.alt)
+  }
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  ) {
+    const labels = Array.from(element.labels ?? [])
+      .map((label) => label.textContent)
+      .join(' ')
+    if (normalizeText(labels)) return normalizeText(labels)
+  }
+
+  if (element instanceof HTMLImageElement || element instanceof HTMLAreaElement) {
+    const alt = normalizeText(element.alt)
+    if (alt) return alt
+  }
+
+  const role = getAccessibleRole(element)
+  if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+    const content = getContentText(element)
+    if (content) return content
+  }
+
+  return normalizeText(element.getAttribute('title') || element.getAttribute('placeholder'))
+}
+
+// ============================================================================
+// Contrast
+// ============================================================================
+
+type Rgba = [number, number, number, number]
+
+let colorContext: CanvasRenderingContext2D | null | undefined
+
+/**
+ * Convert any CSS colour (oklch, lab, color(srgb …), …) to sRGB by painting it on a 1×1 canvas
+ */
+function normalizeColor(value: string): Rgba | null {
+  if (!CSS.supports('color', value)) return null
+
+  if (colorContext === undefined) {
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = 1
+    colorContext = canvas.getContext('2d', { willReadFrequently: true })
+  }
+  if (!colorContext) return null
+
+  colorContext.clearRect(0, 0, 1, 1)
+  colorContext.fillStyle = value
+  colorContext.fillRect(0, 0, 1, 1)
+  const [r, g, b, a] = colorContext.getImageData(0, 0, 1, 1).data
+  return [r, g, b, a / 255]
+}
+
+function parseColor(value: string): Rgba | null {
+  const match = value.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)$/)
+  if (!match) return normalizeColor(value)
+
+  const alpha = match[4] === undefined ? 1 : Number(match[4]) / (match[5] ? 100 : 1)
+  return [Number(match[1]), Number(match[2]), Number(match[3]), alpha]
+}
+
+function blend(top: Rgba, bottom: Rgba): Rgba {
+  const alpha = top[3]
+  return [
+    top[0] * alpha + bottom[0] * (1 - alpha),
+    top[1] * alpha + bottom[1] * (1 - alpha),
+    top[2] * alpha + bottom[2] * (1 - alpha),
+    1,
+  ]
+}
+
+function getLuminance([r, g, b]: Rgba): number {
+  const [R, G, B] = [r, g, b].map((channel) => {
+    const c = channel / 255
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B
+}
+
+function toRgbString([r, g, b]: Rgba): string {
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`
+}
+
+/**
+ * Background behind an element: its own and its ancestors' background colours
+ * blended down to the first opaque one, over white
+ * Returns null when a layer's colour can't be read, since skipping it would give a wrong ratio.
+ */
+function getEffectiveBackground(element: Element): { color: Rgba; estimated: boolean } | null {
+  const layers: Rgba[] = []
+  let estimated = false
+
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const style = getComputedStyle(current)
+    if (style.backgroundImage !== 'none') estimated = true
+
+    const color = parseColor(style.backgroundColor)
+    if (!color) return null
+    if (color[3] > 0) layers.push(color)
+    if (color[3] >= 1) break
+  }
+
+  let color: Rgba = [255, 255, 255, 1]
+  for (const layer of layers.reverse()) color = blend(layer, color)
+  return { color, estimated }
+}
+
+function hasOwnText(element: Element): boolean {
+  return Array.from(element.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim())
+}
+
+/**
+ * WCAG contrast ratio of an element's text against its background
+ * Undefined when the text or a background colour can't be converted to sRGB.
+ */
+export function getContrast(element: Element): ContrastResult | undefined {
+  const style = getComputedStyle(element)
+  const foreground = parseColor(style.color)
+  if (!foreground) return undefined
+
+  const background = getEffectiveBackground(element)
+  if (!background) return undefined
+  const text = foreground[3] < 1 ? blend(foreground, background.color) : foreground
+
+  const lighter = Math.max(getLuminance(text), getLuminance(background.color))
+  const darker = Math.min(getLuminance(text), getLuminance(background.color))
+  const ratio = (lighter + 0.05) / (darker + 0.05)
+
+  const fontSize = parseFloat(style.fontSize)
+  const largeText = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700)
+
+  return {
+    ratio,
+    foreground: toRgbString(text),
+    background: toRgbString(background.color),
+    largeText,
+    aa: ratio >= (largeText ? 3 : 4.5),
+    aaa: ratio >= (largeText ? 4.5 : 7),
+    estimated: background.estimated,
+  }
+}
+
+// ============================================================================
+// Focus
+// ============================================================================
+
+function isVisible(element: Element): boolean {
+  return element.getClientRects().length > 0 && getComputedStyle(element).visibility !== 'hidden'
+}
+
+/**
+ * Whether an element can receive focus (by script or keyboard)
+ */
+export function isFocusable(element: Element): boolean {
+  if (!element.matches(FOCUSABLE_SELECTOR)) return false
+  if ((element as HTMLButtonElement).disabled || element.closest('[inert]')) return false
+  return isVisible(element)
+}
+
+/**
+ * Elements reachable with Tab, in the order the keyboard visits them
+ * Positive tabindex values come first, then everything else in document order.
+ */
+export function getTabOrder(root: ParentNode = document): HTMLElement[] {
+  const candidates = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    (element) => element.tabIndex >= 0 && !element.closest(DEBUG_UI_SELECTOR) && isFocusable(element)
+  )
+
+  // Array.prototype.sort is stable, so equal tabindex values keep document order
+  const positive = candidates.filter((element) => element.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex)
+  return [...positive, ...candidates.filter((element) => element.tabIndex === 0)]
+}
+
+function hasReactClickHandler(element: Element): boolean {
+  const props = getFiberFromElement(element)?.memoizedProps as { onClick?: unknown } | null | undefined
+  return typeof props?.onClick === 'function'
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+/**
+ * Violations for one element
+ * @param contrast - Precomputed contrast, when the element has text of its own
+ */
+function getViolations(
+  element: Element,
+  role: string | undefined,
+  name: string,
+  contrast: ContrastResult | undefined
+): AccessibilityViolation[] {
+  const violations: AccessibilityViolation[] = []
+  const tag = element.tagName.toLowerCase()
+  const interactive = !!role && INTERACTIVE_ROLES.has(role)
+
+  if (interactive && !name) {
+    violations.push({
+      rule: 'name',
+      severity: 'error',
+      message: FORM_FIELD_ROLES.has(role) ? `Form field (${role}) has no label` : `${role} has no accessible name`,
+      element,
+    })
+  }
+  if (tag === 'img' && !element.hasAttribute('alt') && !name) {
+    violations.push({ rule: 'name', severity: 'error', message: 'Image has no alt text', element })
+  }
+
+  if (contrast && !contrast.aa) {
+    violations.push({
+      rule: 'contrast',
+      severity: contrast.estimated ? 'warning' : 'error',
+      message: `Contrast ${contrast.ratio.toFixed(2)}:1 is below ${contrast.largeText ? 3 : 4.5}:1${contrast.estimated ? ' (background estimated)' : ''}`,
+      element,
+    })
+  }
+
+  const clickable = !interactive && hasReactClickHandler(element)
+  if ((interactive || clickable) && !isFocusable(element) && isVisible(element)) {
+    violations.push({
+      rule: 'focusable',
+      severity: 'warning',
+      message: clickable
+        ? `<${tag}> has a click handler but no role or keyboard access`
+        : `${role} can't be reached with the keyboard`,
+      element,
+    })
+  }
+
+  const tabIndex = Number(element.getAttribute('tabindex'))
+  if (tabIndex > 0) {
+    violations.push({
+      rule: 'tabindex',
+      severity: 'warning',
+      message: `tabindex="${tabIndex}" overrides the natural tab order`,
+      element,
+    })
+  }
+
+  return violations
+}
+
+/**
+ * Accessibility details and violations for one element
+ */
+export function auditElement(element: Element): AccessibilityReport {
+  const role = getAccessibleRole(element)
+  const name = getAccessibleName(element)
+  const contrast = hasOwnText(element) ? getContrast(element) : undefined
+  const tabOrder = getTabOrder()
+  const index = tabOrder.indexOf(element as HTMLElement)
+
+  return {
+    role,
+    name,
+    contrast,
+    focusable: isFocusable(element),
+    tabOrder: index >= 0 ? index + 1 : undefined,
+    tabStops: tabOrder.length,
+    violations: getViolations(element, role, name, contrast),
+  }
+}
+
+/**
+ * Audit every visible element on the page
+ * Hidden, aria-hidden and debugging toolkit elements are skipped. Errors come first.
+ */
+export function scanAccessibility(root: Element = document.body): AccessibilityViolation[] {
+  const violations: AccessibilityViolation[] = []
+  const elements = Array.from(root.querySelectorAll('*')).slice(0, MAX_SCAN_ELEMENTS)
+
+  for (const element of elements) {
+    if (element.closest(DEBUG_UI_SELECTOR) || element.closest('[aria-hidden="true"]')) continue
+    if (element instanceof HTMLScriptElement || element instanceof HTMLStyleElement) continue
+    if (!isVisible(element)) continue
+
+    const role = getAccessibleRole(element)
+    const needsName = (!!role && INTERACTIVE_ROLES.has(role)) || element.tagName === 'IMG'
+    const name = needsName ? getAccessibleName(element) : ''
+    const contrast = hasOwnText(element) ? getContrast(element) : undefined
+
+    violations.push(...getViolations(element, role, name, contrast))
+  }
+
+  return violations.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
@@ -0,0 +1,307 @@
+/**
+ * Performance Budgets
+ * Checks FPS, frame time, heap and long task budgets and reports violations
+ */
+
+import { DEBUG_UI_SELECTOR, formatBytes, getMemoryInfo } from './utils'
+import { getElementInfo } from './elementInfo'
+import { observeLongTasks } from './longTasks'
+import { PerformanceMonitor } from './performanceMonitor'
+import type {
+  BudgetMetric,
+  BudgetSnapshot,
+  BudgetStatus,
+  BudgetViolation,
+  PerformanceBudget,
+} from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_SUSTAIN_MS = 2000
+
+// Long tasks older than this no longer count towards the budget value
+const LONG_TASK_WINDOW_MS = 10_000
+
+// Minimum time between violations of the same long task budget
+const LONG_TASK_COOLDOWN_MS = 10_000
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function formatThreshold(metric: BudgetMetric, value: number): string {
+  switch (metric) {
+    case 'fps':
+      return `${Math.round(value)} FPS`
+    case 'heapUsed':
+      return formatBytes(value)
+    default:
+      return `${Math.round(value)}ms`
+  }
+}
+
+/**
+ * Human-readable label for a budget, e.g. "FPS ≥ 50 on /dashboard"
+ */
+export function getBudgetLabel(budget: PerformanceBudget): string {
+  if (budget.label) return budget.label
+
+  const threshold = formatThreshold(budget.metric, budget.threshold)
+  const base = {
+    fps: `FPS ≥ ${Math.round(budget.threshold)}`,
+    frameTime: `Frame time ≤ ${threshold}`,
+    heapUsed: `Heap ≤ ${threshold}`,
+    longTask: `Long tasks ≤ ${threshold}`,
+  }[budget.metric]
+
+  return budget.route ? `${base} on ${String(budget.route)}` : base
+}
+
+/**
+ * Format a budget metric value for display
+ */
+export function formatBudgetValue(metric: BudgetMetric, value: number | undefined): string {
+  if (value === undefined) return '—'
+  return formatThreshold(metric, value)
+}
+
+function matchesRoute(route: PerformanceBudget['route']): boolean {
+  if (!route) return true
+  const path = window.location.pathname
+  return typeof route === 'string' ? path.startsWith(route) : route.test(path)
+}
+
+function isOutOfBudget(budget: PerformanceBudget, value: number): boolean {
+  return budget.metric === 'fps' ? value < budget.threshold : value > budget.threshold
+}
+
+/**
+ * Element the user is working with: the focused element, else the one under the pointer
+ */
+function findTargetElement(pointer: { x: number; y: number } | null): HTMLElement | null {
+  const isDebugUi = (el: Element) => !!el.closest(DEBUG_UI_SELECTOR)
+
+  const active = document.activeElement
+  if (active instanceof HTMLElement && active !== document.body && !isDebugUi(active)) return active
+
+  if (!pointer) return null
+  const hit = document
+    .elementsFromPoint(pointer.x, pointer.y)
+    .find((el) => !isDebugUi(el) && el !== document.documentElement && el !== document.body)
+  return hit instanceof HTMLElement ? hit : null
+}
+
+// ============================================================================
+// Budget Monitor
+// ============================================================================
+
+interface BudgetState {
+  budget: PerformanceBudget
+  id: string
+  /** When the metric first went out of budget in the current episode */
+  outSince: number | null
+  /** Whether the current episode already produced a violation */
+  reported: boolean
+  value?: number
+  violationCount: number
+  lastViolation?: BudgetViolation
+}
+
+/**
+ * BudgetMonitor - Evaluates performance budgets once per second
+ * A sustained breach produces one violation per episode; it must recover before reporting again.
+ *
+ * @example
+ * ```ts
+ * const monitor = new BudgetMonitor([{ metric: 'fps', threshold: 50 }], {
+ *   onViolation: (violation) => console.warn(violation.label, violation.value),
+ * })
+ * monitor.start()
+ * ```
+ */
+export class BudgetMonitor {
+  private states: BudgetState[] = []
+  private listeners = new Set<(statuses: BudgetStatus[]) => void>()
+  private onViolation?: (violation: BudgetViolation) => void
+  private longTasks: Array<{ timestamp: number; duration: number }> = []
+  private pointer: { x: number; y: number } | null = null
+  private monitor: PerformanceMonitor | null = null
+  private cleanup: Array<() => void> = []
+
+  constructor(budgets: PerformanceBudget[], options: { onViolation?: (violation: BudgetViolation) => void } = {}) {
+    this.setBudgets(budgets)
+    this.onViolation = options.onViolation
+  }
+
+  get isRunning(): boolean {
+    return this.monitor !== null
+  }
+
+  /**
+   * Replace the budget list, keeping counts for budgets whose id is unchanged
+   */
+  setBudgets(budgets: PerformanceBudget[]): void {
+    const previous = new Map(this.states.map((state) => [state.id, state]))
+    this.states = budgets.map((budget, index) => {
+      const id = budget.id ?? `${budget.metric}-${index}`
+      const existing = previous.get(id)
+      return existing
+        ? { ...existing, budget }
+        : { budget, id, outSince: null, reported: false, violationCount: 0 }
+    })
+    this.emit()
+  }
+
+  start(): void {
+    if (this.monitor) return
+
+    const handlePointerMove = (e: PointerEvent) => {
+      this.pointer = { x: e.clientX, y: e.clientY }
+    }
+    document.addEventListener('pointermove', handlePointerMove, { capture: true, passive: true })
+    this.cleanup.push(() => document.removeEventListener('pointermove', handlePointerMove, { capture: true }))
+
+    const stopLongTasks = observeLongTasks((task) => {
+      const now = performance.now()
+      this.longTasks = [...this.longTasks, { timestamp: now, duration: task.duration }].filter(
+        (t) => now - t.timestamp < LONG_TASK_WINDOW_MS
+      )
+      this.checkLongTask(task.duration)
+    })
+    if (stopLongTasks) this.cleanup.push(stopLongTasks)
+
+    const monitor = new PerformanceMonitor({ sampleInterval: 1000, historySize: 0 })
+    this.cleanup.push(
+      monitor.subscribe(({ fps, frameTime, memory }) => {
+        this.evaluate({ fps, frameTime, heapUsed: memory?.usedJSHeapSize, longTask: this.getRecentLongTask() })
+      })
+    )
+    monitor.start()
+    this.cleanup.push(() => monitor.stop())
+    this.monitor = monitor
+  }
+
+  stop(): void {
+    this.monitor = null
+    this.cleanup.forEach((fn) => fn())
+    this.cleanup = []
+  }
+
+  /**
+   * Subscribe to status changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (statuses: BudgetStatus[]) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStatuses(): BudgetStatus[] {
+    return this.states.map((state) => {
+      const active = matchesRoute(state.budget.route)
+      const failing = state.budget.metric === 'longTask'
+        ? state.value !== undefined && isOutOfBudget(state.budget, state.value)
+        : state.reported
+      return {
+        id: state.id,
+        label: getBudgetLabel(state.budget),
+        budget: state.budget,
+        state: !active ? 'inactive' : failing ? 'fail' : 'pass',
+        value: state.value,
+        violationCount: state.violationCount,
+        lastViolation: state.lastViolation,
+      }
+    })
+  }
+
+  /**
+   * Check a metric snapshot against every active budget
+   * Called once per second while running; exposed for feeding external samples
+   */
+  evaluate(snapshot: BudgetSnapshot): void {
+    // Background tabs do not render; their frame rate says nothing about the app
+    if (document.hidden) return
+
+    const now = performance.now()
+    for (const state of this.states) {
+      const { budget } = state
+      const value = snapshot[budget.metric]
+      state.value = value
+
+      if (budget.metric === 'longTask' || value === undefined || !matchesRoute(budget.route)) {
+        if (budget.metric !== 'longTask') {
+          state.outSince = null
+          state.reported = false
+        }
+        continue
+      }
+
+      if (!isOutOfBudget(budget, value)) {
+        state.outSince = null
+        state.reported = false
+        continue
+      }
+
+      state.outSince ??= now
+      if (!state.reported && now - state.outSince >= (budget.sustainFor ?? DEFAULT_SUSTAIN_MS)) {
+        state.reported = true
+        this.report(state, value, snapshot)
+      }
+    }
+    this.emit()
+  }
+
+  private checkLongTask(duration: number) {
+    const now = performance.now()
+    for (const state of this.states) {
+      const { budget } = state
+      if (budget.metric !== 'longTask' || !matchesRoute(budget.route)) continue
+
+      state.value = this.getRecentLongTask()
+      if (!isOutOfBudget(budget, duration)) continue
+
+      // For long tasks outSince tracks the last report, which drives the cooldown
+      if (state.outSince !== null && now - state.outSince < LONG_TASK_COOLDOWN_MS) continue
+      state.outSince = now
+      this.report(state, duration, {
+        heapUsed: getMemoryInfo()?.usedJSHeapSize,
+        longTask: duration,
+      })
+    }
+    this.emit()
+  }
+
+  private getRecentLongTask(): number | undefined {
+    const now = performance.now()
+    const recent = this.longTasks.filter((t) => now - t.timestamp < LONG_TASK_WINDOW_MS)
+    return recent.length > 0 ? Math.max(...recent.map((t) => t.duration)) : undefined
+  }
+
+  private report(state: BudgetState, value: number, snapshot: BudgetSnapshot) {
+    const target = findTargetElement(this.pointer)
+    const violation: BudgetViolation = {
+      budgetId: state.id,
+      label: getBudgetLabel(state.budget),
+      metric: state.budget.metric,
+      value,
+      threshold: state.budget.threshold,
+      timestamp: Date.now(),
+      url: window.location.href,
+      snapshot,
+      elementInfo: target ? getElementInfo(target) : undefined,
+    }
+    state.violationCount++
+    state.lastViolation = violation
+    this.onViolation?.(violation)
+  }
+
+  private emit() {
+    if (this.listeners.size === 0) return
+    const statuses = this.getStatuses()
+    this.listeners.forEach((listener) => listener(statuses))
+  }
+}
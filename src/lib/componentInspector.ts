@@ -0,0 +1,220 @@
+/**
+ * Component Inspector
+ * Props, state, hooks and context of React components, and safe previews of their values
+ */
+
+import { FiberTag, getFiberName, type ContextDependency, type Fiber, type HookState } from './reactFiber'
+import type { ComponentInspection, HookKind, HookValue, ValueEntry } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Children listed per expanded value; the rest are summarised
+export const MAX_VALUE_ENTRIES = 100
+
+// Characters shown for strings before truncating
+const MAX_STRING_PREVIEW = 60
+
+// Keys shown inside an object preview
+const MAX_PREVIEW_KEYS = 3
+
+const REACT_ELEMENT_TYPES = new Set([Symbol.for('react.element'), Symbol.for('react.transitional.element')])
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+function getHookKind(hook: HookState): HookKind {
+  if (hook.queue) return 'state'
+
+  const state = hook.memoizedState
+  if (state && typeof state === 'object') {
+    if ('create' in state && 'deps' in state) return 'effect'
+    if (Object.keys(state).length === 1 && 'current' in state) return 'ref'
+    if (Array.isArray(state) && state.length === 2 && (state[1] === null || Array.isArray(state[1]))) return 'memo'
+  }
+  return 'other'
+}
+
+function getHookValue(hook: HookState, kind: HookKind): unknown {
+  const state = hook.memoizedState
+  if (kind === 'effect') return (state as { deps: unknown }).deps
+  if (kind === 'memo') return (state as unknown[])[0]
+  return state
+}
+
+function getHooks(fiber: Fiber): HookValue[] {
+  const hooks: HookValue[] = []
+  let hook = fiber.memoizedState as HookState | null
+  let index = 0
+
+  while (hook && typeof hook === 'object' && 'next' in hook) {
+    const kind = getHookKind(hook)
+    hooks.push({ index, kind, value: getHookValue(hook, kind) })
+    hook = hook.next
+    index++
+  }
+
+  return hooks
+}
+
+// ============================================================================
+// Inspection
+// ============================================================================
+
+/**
+ * Read props, state, hooks and context values from a component fiber
+ * Hook kinds are inferred from their stored state, as React keeps no hook names in production.
+ */
+export function inspectComponent(fiber: Fiber): ComponentInspection {
+  const contexts: ComponentInspection['contexts'] = []
+  let dependency: ContextDependency | null = fiber.dependencies?.firstContext ?? null
+  while (dependency) {
+    contexts.push({ name: dependency.context.displayName || 'Context', value: dependency.memoizedValue })
+    dependency = dependency.next
+  }
+
+  const isClass = fiber.tag === FiberTag.ClassComponent
+
+  return {
+    name: getFiberName(fiber) || 'Anonymous',
+    key: fiber.key,
+    props: (fiber.memoizedProps as Record<string, unknown> | null) ?? {},
+    state: isClass ? fiber.memoizedState : undefined,
+    hooks: isClass ? [] : getHooks(fiber),
+    contexts,
+  }
+}
+
+// ============================================================================
+// Value Previews
+// ============================================================================
+
+function isReactElement(value: object): value is { type: unknown; key: unknown; props: unknown } {
+  return REACT_ELEMENT_TYPES.has((value as { $$typeof?: symbol }).$$typeof as symbol)
+}
+
+function getTypeName(type: unknown): string {
+  if (typeof type === 'string') return type
+  if (typeof type === 'function') return (type as { displayName?: string }).displayName || type.name || 'Anonymous'
+  if (type && typeof type === 'object') {
+    const wrapped = type as { displayName?: string; render?: { name?: string }; type?: { name?: string } }
+    return wrapped.displayName || wrapped.render?.name || wrapped.type?.name || 'Anonymous'
+  }
+  return 'Unknown'
+}
+
+function getConstructorName(value: object): string | undefined {
+  try {
+    const name = Object.getPrototypeOf(value)?.constructor?.name
+    return name && name !== 'Object' ? name : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function readProperty(value: object, key: PropertyKey): unknown {
+  try {
+    return (value as Record<PropertyKey, unknown>)[key]
+  } catch (error) {
+    // Throwing getter
+    return error
+  }
+}
+
+/**
+ * One-line preview of any value
+ * Never expands nested values, so it is safe for cyclic and very large objects.
+ */
+export function getValuePreview(value: unknown): string {
+  switch (typeof value) {
+    case 'string':
+      return value.length > MAX_STRING_PREVIEW ? `"${value.slice(0, MAX_STRING_PREVIEW)}…"` : `"${value}"`
+    case 'bigint':
+      return `${value}n`
+    case 'symbol':
+      return value.toString()
+    case 'function':
+      return `ƒ ${value.name || 'anonymous'}()`
+    case 'undefined':
+      return 'undefined'
+    case 'object':
+      break
+    default:
+      return String(value)
+  }
+
+  if (value === null) return 'null'
+  if (isReactElement(value)) return `<${getTypeName(value.type)} />`
+  if (Array.isArray(value)) return `Array(${value.length})`
+  if (value instanceof Map) return `Map(${value.size})`
+  if (value instanceof Set) return `Set(${value.size})`
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  if (value instanceof RegExp) return value.toString()
+  if (value instanceof Error) return `${value.name}: ${value.message}`
+  if (value instanceof Promise) return 'Promise'
+  if (typeof Element !== 'undefined' && value instanceof Element) {
+    const id = value.id ? `#${value.id}` : ''
+    return `<${value.tagName.toLowerCase()}${id}>`
+  }
+
+  const keys = Object.keys(value)
+  const shown = keys.slice(0, MAX_PREVIEW_KEYS).join(', ')
+  const more = keys.length > MAX_PREVIEW_KEYS ? ', …' : ''
+  const name = getConstructorName(value)
+  return `${name ? name + ' ' : ''}{${shown}${more}}`
+}
+
+/**
+ * Whether a value has children to show in the value tree
+ * DOM elements are left collapsed; their properties are huge and rarely useful here.
+ */
+export function isExpandableValue(value: unknown): value is object {
+  if (!value || typeof value !== 'object') return false
+  if (typeof Element !== 'undefined' && value instanceof Element) return false
+  if (value instanceof Date || value instanceof RegExp || value instanceof Promise) return false
+  if (value instanceof Map || value instanceof Set) return value.size > 0
+  return isReactElement(value) || Object.keys(value).length > 0
+}
+
+/**
+ * Children of a value, capped at `limit`
+ * React elements show only type, key and props; their owner fibers reference the whole tree.
+ */
+export function getValueEntries(value: object, limit = MAX_VALUE_ENTRIES): { entries: ValueEntry[]; total: number } {
+  if (isReactElement(value)) {
+    return {
+      entries: [
+        { key: 'type', value: getTypeName(value.type) },
+        { key: 'key', value: value.key },
+        { key: 'props', value: value.props },
+      ],
+      total: 3,
+    }
+  }
+
+  if (value instanceof Map) {
+    const entries: ValueEntry[] = []
+    for (const [key, entry] of value) {
+      if (entries.length >= limit) break
+      entries.push({ key: getValuePreview(key), value: entry })
+    }
+    return { entries, total: value.size }
+  }
+
+  if (value instanceof Set) {
+    const entries: ValueEntry[] = []
+    for (const entry of value) {
+      if (entries.length >= limit) break
+      entries.push({ key: String(entries.length), value: entry })
+    }
+    return { entries, total: value.size }
+  }
+
+  const keys = Object.keys(value)
+  return {
+    entries: keys.slice(0, limit).map((key) => ({ key, value: readProperty(value, key) })),
+    total: keys.length,
+  }
+}
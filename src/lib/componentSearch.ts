@@ -0,0 +1,120 @@
+/**
+ * Component search
+ * Finds every mounted instance of a React component by name
+ */
+
+import { getValuePreview } from './componentInspector'
+import {
+  FiberTag,
+  getFiberFromElement,
+  getFiberName,
+  getHostElements,
+  isComponentFiber,
+  isDebugComponentFiber,
+  type Fiber,
+  type FiberRoot,
+} from './reactFiber'
+import { getFiberSource } from './sourceLocation'
+import type { ComponentInstance } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_INSTANCES = 200
+
+// Props shown in an instance's summary
+const MAX_SUMMARY_PROPS = 4
+
+// ============================================================================
+// Fiber Roots
+// ============================================================================
+
+/**
+ * Fiber roots with content on the page
+ * Only the top of each React-rendered subtree is walked up, which covers root containers
+ * and portals without visiting every element's ancestors.
+ */
+function getFiberRoots(): FiberRoot[] {
+  const roots = new Set<FiberRoot>()
+
+  for (const element of document.body.querySelectorAll('*')) {
+    const hostFiber = getFiberFromElement(element)
+    if (!hostFiber || (element.parentElement && getFiberFromElement(element.parentElement))) continue
+
+    let fiber = hostFiber
+    while (fiber.return) fiber = fiber.return
+    if (fiber.tag === FiberTag.HostRoot && fiber.stateNode) roots.add(fiber.stateNode as FiberRoot)
+  }
+
+  return [...roots]
+}
+
+// ============================================================================
+// Instances
+// ============================================================================
+
+/**
+ * `memo(Component, compare)` and `memo(forwardRef(...))` wrap the inner fiber in a
+ * MemoComponent fiber with the same name; only the wrapper is reported
+ */
+function isMemoInner(fiber: Fiber, name: string): boolean {
+  return fiber.return?.tag === FiberTag.MemoComponent && getFiberName(fiber.return) === name
+}
+
+function getPropsSummary(props: unknown): string {
+  if (!props || typeof props !== 'object') return ''
+  const entries = Object.entries(props).filter(([key]) => key !== 'children')
+  const shown = entries.slice(0, MAX_SUMMARY_PROPS).map(([key, value]) => `${key}=${getValuePreview(value)}`)
+  const more = entries.length > MAX_SUMMARY_PROPS ? ` +${entries.length - MAX_SUMMARY_PROPS}` : ''
+  return shown.join(' ') + more
+}
+
+/**
+ * Mounted instances of the components whose name matches a query, in tree order
+ * Matching is case-insensitive. When some names equal the query exactly, only those
+ * are returned, so `Button` doesn't also list every `IconButton`; otherwise names
+ * containing the query match. The toolkit's own components are skipped.
+ *
+ * @param query - Component name, or part of one
+ * @param limit - Maximum number of instances to return
+ *
+ * @example
+ * ```ts
+ * findComponentInstances('ProductCard').map((instance) => instance.elements[0])
+ * ```
+ */
+export function findComponentInstances(query: string, limit = MAX_INSTANCES): ComponentInstance[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return []
+
+  const matches: Array<{ fiber: Fiber; name: string }> = []
+
+  for (const root of getFiberRoots()) {
+    const stack: Fiber[] = root.current.child ? [root.current.child] : []
+    while (stack.length > 0) {
+      const fiber = stack.pop()!
+      if (fiber.sibling) stack.push(fiber.sibling)
+      if (isDebugComponentFiber(fiber)) continue
+
+      if (isComponentFiber(fiber)) {
+        const name = getFiberName(fiber)
+        if (name && !name.startsWith('_') && name.toLowerCase().includes(q) && !isMemoInner(fiber, name)) {
+          matches.push({ fiber, name })
+        }
+      }
+      // Pushed after the sibling so children are visited first, in tree order
+      if (fiber.child) stack.push(fiber.child)
+    }
+  }
+
+  const exact = matches.filter(({ name }) => name.toLowerCase() === q)
+
+  return (exact.length > 0 ? exact : matches).slice(0, limit).map(({ fiber, name }, i) => ({
+    name,
+    index: i + 1,
+    elements: getHostElements(fiber).filter((element) => element.isConnected),
+    propsSummary: getPropsSummary(fiber.memoizedProps),
+    source: getFiberSource(fiber),
+  }))
+}
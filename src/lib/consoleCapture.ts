@@ -0,0 +1,187 @@
+/**
+ * Console Capture
+ * Bounded log of console output, runtime errors and unhandled rejections
+ */
+
+import type { ConsoleEntry, ConsoleLevel } from './types'
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+// Longest message kept per entry
+const MAX_MESSAGE_LENGTH = 5000
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value instanceof Error) return `${value.name}: ${value.message}`
+  if (value === undefined) return 'undefined'
+  if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`
+  if (typeof value !== 'object' || value === null) return String(value)
+  if (value instanceof Element) return `<${value.tagName.toLowerCase()}${value.id ? `#${value.id}` : ''}>`
+
+  const seen = new WeakSet<object>()
+  try {
+    return JSON.stringify(value, (_key, v: unknown) => {
+      if (typeof v === 'object' && v !== null) {
+        if (seen.has(v)) return '[Circular]'
+        seen.add(v)
+      }
+      return typeof v === 'bigint' ? `${v}n` : v
+    })
+  } catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+/**
+ * Join console arguments into a single message
+ */
+export function formatConsoleArgs(args: unknown[]): string {
+  const message = args.map(stringify).join(' ')
+  return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message
+}
+
+function captureStack(): string | undefined {
+  return new Error().stack
+    ?.split('\n')
+    .slice(1)
+    .filter((line) => !/consoleCapture|debugging-tool/.test(line))
+    .map((line) => line.trim())
+    .join('\n')
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+type ConsoleListener = (entries: ConsoleEntry[]) => void
+
+const DEFAULT_MAX_ENTRIES = 500
+
+let entries: ConsoleEntry[] = []
+let maxEntries = DEFAULT_MAX_ENTRIES
+let nextEntryId = 1
+let notifyScheduled = false
+const listeners = new Set<ConsoleListener>()
+
+// Listeners are notified in a microtask: logs often happen during React renders,
+// where synchronous state updates in other components are not allowed
+function scheduleNotify() {
+  if (notifyScheduled) return
+  notifyScheduled = true
+  queueMicrotask(() => {
+    notifyScheduled = false
+    listeners.forEach((listener) => listener(entries))
+  })
+}
+
+/**
+ * Add an entry to the log
+ * Used by the capture hooks and by DebugErrorBoundary
+ */
+export function reportConsoleEntry(entry: Omit<ConsoleEntry, 'id' | 'timestamp'>): void {
+  const next = [...entries, { ...entry, id: `log-${nextEntryId++}`, timestamp: Date.now() }]
+  entries = next.length > maxEntries ? next.slice(next.length - maxEntries) : next
+  scheduleNotify()
+}
+
+export function getConsoleEntries(): ConsoleEntry[] {
+  return entries
+}
+
+export function clearConsoleEntries(): void {
+  entries = []
+  scheduleNotify()
+}
+
+/**
+ * Subscribe to log changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToConsole(listener: ConsoleListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============================================================================
+// Capture
+// ============================================================================
+
+const CAPTURED_LEVELS: ConsoleLevel[] = ['log', 'warn', 'error']
+
+let captureRefs = 0
+let restoreCapture: (() => void) | null = null
+
+function installCapture(): () => void {
+  const originals = new Map<ConsoleLevel, (...args: unknown[]) => void>()
+
+  CAPTURED_LEVELS.forEach((level) => {
+    const original = console[level]
+    originals.set(level, original)
+    console[level] = (...args: unknown[]) => {
+      const error = args.find((arg): arg is Error => arg instanceof Error)
+      reportConsoleEntry({
+        level,
+        source: 'console',
+        message: formatConsoleArgs(args),
+        stack: error?.stack ?? (level === 'log' ? undefined : captureStack()),
+      })
+      original.apply(console, args)
+    }
+  })
+
+  const handleError = (event: ErrorEvent) => {
+    const location = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : ''
+    reportConsoleEntry({
+      level: 'error',
+      source: 'runtime',
+      message: `${event.error instanceof Error ? `${event.error.name}: ${event.error.message}` : event.message}${location}`,
+      stack: event.error instanceof Error ? event.error.stack : undefined,
+    })
+  }
+
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    const reason = event.reason
+    reportConsoleEntry({
+      level: 'error',
+      source: 'promise',
+      message: `Unhandled rejection: ${stringify(reason)}`,
+      stack: reason instanceof Error ? reason.stack : undefined,
+    })
+  }
+
+  window.addEventListener('error', handleError)
+  window.addEventListener('unhandledrejection', handleRejection)
+
+  return () => {
+    originals.forEach((original, level) => {
+      console[level] = original
+    })
+    window.removeEventListener('error', handleError)
+    window.removeEventListener('unhandledrejection', handleRejection)
+  }
+}
+
+/**
+ * Start capturing console output and runtime errors
+ * Capture is shared; it stops when every caller has called its stop function
+ * @param options.maxEntries - Log size; oldest entries are dropped first
+ * @returns Stop function
+ */
+export function captureConsole(options: { maxEntries?: number } = {}): () => void {
+  if (options.maxEntries) maxEntries = options.maxEntries
+  if (captureRefs++ === 0) restoreCapture = installCapture()
+
+  let stopped = false
+  return () => {
+    if (stopped) return
+    stopped = true
+    if (--captureRefs === 0) {
+      restoreCapture?.()
+      restoreCapture = null
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Deep DOM helpers
+ * Hit testing, geometry and events across open shadow roots and same-origin iframes
+ */
+
+import type { FrameOffset } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type DeepListener<K extends keyof DocumentEventMap> = (event: DocumentEventMap[K], offset: FrameOffset) => void
+
+// ============================================================================
+// Trees and Boundaries
+// ============================================================================
+
+/**
+ * Document or shadow root the element lives in
+ */
+export function getTreeRoot(element: Element): Document | ShadowRoot {
+  const root = element.getRootNode()
+  return root.nodeType === Node.DOCUMENT_NODE || root.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+    ? (root as Document | ShadowRoot)
+    : element.ownerDocument
+}
+
+/**
+ * Shadow host or iframe element that contains the element's tree, or null at the top level
+ * Checks node types rather than `instanceof`, since frame elements come from another realm.
+ */
+export function getHostElement(element: Element): Element | null {
+  const root = getTreeRoot(element)
+  if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) return (root as ShadowRoot).host
+  try {
+    return (root as Document).defaultView?.frameElement ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Document of a same-origin iframe, or null for other elements and cross-origin frames
+ */
+export function getFrameDocument(element: Element): Document | null {
+  if (element.tagName !== 'IFRAME' && element.tagName !== 'FRAME') return null
+  try {
+    return (element as HTMLIFrameElement).contentDocument
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Tree nested inside an element: its open shadow root or its same-origin frame document
+ */
+export function getInnerRoot(element: Element): Document | ShadowRoot | null {
+  return element.shadowRoot ?? getFrameDocument(element)
+}
+
+/**
+ * Parent element, continuing from the top of a shadow root or frame to its host
+ */
+export function getComposedParent(element: Element): Element | null {
+  return element.parentElement ?? getHostElement(element)
+}
+
+/**
+ * Whether the element is the `<html>` or `<body>` of its document, including frame documents
+ */
+export function isRootElement(element: Element): boolean {
+  return element === element.ownerDocument.body || element === element.ownerDocument.documentElement
+}
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Offset of a (possibly nested) frame document's viewport in the top-level viewport
+ */
+export function getFrameOffset(doc: Document): FrameOffset {
+  const offset = { x: 0, y: 0 }
+  let frame: Element | null = null
+  try {
+    frame = doc.defaultView?.frameElement ?? null
+  } catch {
+    // Cross-origin parent
+  }
+
+  while (frame) {
+    // Frame content starts inside the border
+    const rect = frame.getBoundingClientRect()
+    offset.x += rect.left + frame.clientLeft
+    offset.y += rect.top + frame.clientTop
+    try {
+      frame = frame.ownerDocument.defaultView?.frameElement ?? null
+    } catch {
+      frame = null
+    }
+  }
+
+  return offset
+}
+
+/**
+ * Bounding rect in top-level viewport coordinates, for elements inside iframes too
+ */
+export function getViewportRect(element: Element): DOMRect {
+  const rect = element.getBoundingClientRect()
+  const offset = getFrameOffset(element.ownerDocument)
+  if (offset.x === 0 && offset.y === 0) return rect
+  return new DOMRect(rect.left + offset.x, rect.top + offset.y, rect.width, rect.height)
+}
+
+// ============================================================================
+// Hit Testing
+// ============================================================================
+
+/**
+ * Elements at a point, innermost first, descending into open shadow roots and same-origin iframes
+ * Unlike `document.elementsFromPoint`, which stops at the shadow host or iframe.
+ *
+ * @param x - Horizontal position in the root's viewport
+ * @param y - Vertical position in the root's viewport
+ * @param root - Tree to hit test
+ */
+export function deepElementsFromPoint(x: number, y: number, root: Document | ShadowRoot = document): Element[] {
+  // A shadow root also reports the light DOM ancestors of its host
+  const elements = root.elementsFromPoint(x, y).filter(
+    (element) => root.nodeType === Node.DOCUMENT_NODE || element.getRootNode() === root
+  )
+
+  const top = elements[0]
+  if (!top) return elements
+
+  if (top.shadowRoot) {
+    return [...deepElementsFromPoint(x, y, top.shadowRoot), ...elements]
+  }
+
+  const frameDocument = getFrameDocument(top)
+  if (frameDocument) {
+    const rect = top.getBoundingClientRect()
+    const inner = deepElementsFromPoint(x - rect.left - top.clientLeft, y - rect.top - top.clientTop, frameDocument)
+    return [...inner, ...elements]
+  }
+
+  return elements
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+const FRAME_SELECTOR = 'iframe, frame'
+
+function forEachFrame(node: Node, callback: (frame: Element) => void) {
+  if (node.nodeType !== Node.ELEMENT_NODE) return
+  const element = node as Element
+  if (element.matches(FRAME_SELECTOR)) callback(element)
+  element.querySelectorAll(FRAME_SELECTOR).forEach(callback)
+}
+
+/**
+ * Listen for an event in the document and every same-origin iframe document within it
+ * Events inside iframes don't reach the parent document, so each frame gets its own capture
+ * listener. Frames are found once, then followed through a MutationObserver per document and
+ * each frame's `load` event, which covers frames added, removed or navigated later.
+ *
+ * @param listener - Called with the event and the offset of its frame, to convert
+ *   `clientX`/`clientY` into top-level viewport coordinates
+ * @returns Function that removes every listener
+ */
+export function addDeepListener<K extends keyof DocumentEventMap>(type: K, listener: DeepListener<K>): () => void {
+  const attached = new Map<Document, { handler: (event: Event) => void; observer: MutationObserver }>()
+  const frames = new Map<Element, { document: Document | null; onLoad: () => void }>()
+
+  const watchFrame = (frame: Element) => {
+    if (frames.has(frame)) return
+    const watched = {
+      document: null as Document | null,
+      // A navigated frame has a new document
+      onLoad: () => {
+        if (watched.document) detach(watched.document)
+        watched.document = getFrameDocument(frame)
+        if (watched.document) attach(watched.document)
+      },
+    }
+    frames.set(frame, watched)
+    frame.addEventListener('load', watched.onLoad)
+    watched.onLoad()
+  }
+
+  const unwatchFrame = (frame: Element) => {
+    const watched = frames.get(frame)
+    if (!watched) return
+    frame.removeEventListener('load', watched.onLoad)
+    frames.delete(frame)
+    if (watched.document) detach(watched.document)
+  }
+
+  const attach = (doc: Document) => {
+    if (attached.has(doc)) return
+    const handler = (event: Event) => listener(event as DocumentEventMap[K], getFrameOffset(doc))
+    const observer = new MutationObserver((records) => {
+      records.forEach((record) => {
+        record.removedNodes.forEach((node) => forEachFrame(node, unwatchFrame))
+        record.addedNodes.forEach((node) => forEachFrame(node, watchFrame))
+      })
+    })
+    doc.addEventListener(type, handler, true)
+    observer.observe(doc, { childList: true, subtree: true })
+    attached.set(doc, { handler, observer })
+    doc.querySelectorAll(FRAME_SELECTOR).forEach(watchFrame)
+  }
+
+  const detach = (doc: Document) => {
+    const entry = attached.get(doc)
+    if (!entry) return
+    doc.removeEventListener(type, entry.handler, true)
+    entry.observer.disconnect()
+    attached.delete(doc)
+    frames.forEach((_, frame) => frame.ownerDocument === doc && unwatchFrame(frame))
+  }
+
+  attach(document)
+
+  return () => {
+    frames.forEach((_, frame) => unwatchFrame(frame))
+    detach(document)
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Element information helpers
+ * DOM path and metadata extraction shared by the inspector and panels
+ */
+
+import { getComposedParent, getViewportRect, isRootElement } from './deepDom'
+import { getReactFiberName } from './reactFiber'
+import { generateSelector } from './selector'
+import { getSourceLocation } from './sourceLocation'
+import { getBoxModel } from './styles'
+import type { ElementInfo, SelectorOptions } from './types'
+
+/**
+ * Extract #NP comments from element
+ */
+function extractNPComment(element: HTMLElement): string | undefined {
+  const npData = (element as HTMLElement & { dataset?: Record<string, string> }).dataset?.np || element.getAttribute('data-np')
+  if (npData) return npData
+
+  let parent = element.parentElement
+  let depth = 0
+  while (parent && depth < 3) {
+    const parentNp = (parent as HTMLElement & { dataset?: Record<string, string> }).dataset?.np || parent.getAttribute('data-np')
+    if (parentNp) return parentNp
+    parent = parent.parentElement
+    depth++
+  }
+
+  return undefined
+}
+
+/**
+ * The element and its ancestors below <body>, outermost first (at most 9)
+ * Continues through shadow hosts and iframes, skipping the `<html>` and `<body>` of frames.
+ */
+export function getDomAncestors(element: HTMLElement): HTMLElement[] {
+  const ancestors: HTMLElement[] = []
+  let current: Element | null = element
+
+  while (current && current !== document.body) {
+    if (!isRootElement(current)) ancestors.unshift(current as HTMLElement)
+    current = getComposedParent(current)
+
+    if (ancestors.length > 8) break
+  }
+
+  return ancestors
+}
+
+/**
+ * Extract DOM path for element
+ * Entries line up with `getDomAncestors`
+ */
+export function getDomPath(element: HTMLElement): string[] {
+  return getDomAncestors(element).map((current) => {
+    let part = current.tagName.toLowerCase()
+    if (current.id) {
+      part += `#${current.id}`
+    }
+    return part
+  })
+}
+
+/**
+ * Extract text content for interactive elements
+ */
+function extractTextContent(element: HTMLElement): string | undefined {
+  const text = element.textContent?.trim()
+  if (!text) return undefined
+  if (text.length > 50) {
+    return text.slice(0, 47) + '...'
+  }
+  return text
+}
+
+/**
+ * Get comprehensive element information
+ * @param selectorOptions - Options for the generated `uniqueSelector`
+ */
+export function getElementInfo(element: HTMLElement, selectorOptions?: SelectorOptions): ElementInfo {
+  const rect = getViewportRect(element)
+
+  return {
+    tagName: element.tagName.toLowerCase(),
+    id: element.id || undefined,
+    classList: Array.from(element.classList),
+    dimensions: {
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    },
+    position: {
+      x: Math.round(rect.left),
+      y: Math.round(rect.top),
+    },
+    boxModel: getBoxModel(element),
+    componentName: getReactFiberName(element),
+    npComment: extractNPComment(element),
+    uniqueSelector: generateSelector(element, selectorOptions),
+    domPath: getDomPath(element),
+    ariaLabel: element.getAttribute('aria-label') || undefined,
+    textContent: extractTextContent(element),
+    role: element.getAttribute('role') || undefined,
+    dataTestId: element.getAttribute('data-testid') || undefined,
+    source: getSourceLocation(element),
+  }
+}
@@ -0,0 +1,110 @@
+import type { FrameTimeStats } from './types'
+
+/**
+ * Frame-time thresholds (ms) used for jank counts
+ * Roughly one, two and three missed frames at 60Hz
+ */
+export const JANK_THRESHOLDS = {
+  over16: 1000 / 60,
+  over33: 1000 / 30,
+  over50: 50,
+} as const
+
+/**
+ * Fixed-size ring buffer of per-frame deltas (ms)
+ * Oldest samples are overwritten once the buffer is full
+ */
+export class FrameTimeBuffer {
+  private readonly samples: Float64Array
+  private head = 0
+  private count = 0
+
+  constructor(readonly capacity: number) {
+    this.samples = new Float64Array(Math.max(1, capacity))
+  }
+
+  get size(): number {
+    return this.count
+  }
+
+  push(delta: number): void {
+    this.samples[this.head] = delta
+    this.head = (this.head + 1) % this.samples.length
+    if (this.count < this.samples.length) this.count++
+  }
+
+  clear(): void {
+    this.head = 0
+    this.count = 0
+  }
+
+  /**
+   * Copy samples out, oldest first
+   */
+  toArray(): number[] {
+    const out: number[] = new Array(this.count)
+    const start = (this.head - this.count + this.samples.length) % this.samples.length
+    for (let i = 0; i < this.count; i++) {
+      out[i] = this.samples[(start + i) % this.samples.length]
+    }
+    return out
+  }
+}
+
+/**
+ * Value at the given percentile of an ascending-sorted array (nearest rank)
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length) - 1
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))]
+}
+
+/**
+ * Average FPS of the slowest `fraction` of frames ("1% low", "5% low")
+ */
+function lowFps(sortedDesc: number[], fraction: number): number {
+  if (sortedDesc.length === 0) return 0
+  const n = Math.max(1, Math.floor(sortedDesc.length * fraction))
+  let total = 0
+  for (let i = 0; i < n; i++) total += sortedDesc[i]
+  const avg = total / n
+  return avg > 0 ? Math.round(1000 / avg) : 0
+}
+
+/**
+ * Compute percentiles, lows and jank counts for a window of frame times
+ * @param samples - Frame deltas in ms, oldest first
+ * @returns Frame-time statistics for the window
+ */
+export function computeFrameTimeStats(samples: number[]): FrameTimeStats {
+  const ascending = [...samples].sort((a, b) => a - b)
+  const descending = [...ascending].reverse()
+
+  const jank = { over16: 0, over33: 0, over50: 0 }
+  for (const delta of samples) {
+    if (delta > JANK_THRESHOLDS.over16) jank.over16++
+    if (delta > JANK_THRESHOLDS.over33) jank.over33++
+    if (delta > JANK_THRESHOLDS.over50) jank.over50++
+  }
+
+  return {
+    samples,
+    p95: percentile(ascending, 95),
+    p99: percentile(ascending, 99),
+    low1: lowFps(descending, 0.01),
+    low5: lowFps(descending, 0.05),
+    jank,
+  }
+}
+
+/**
+ * Get fill color class for a single frame-time sample
+ * @param delta - Frame time in ms
+ * @returns Tailwind fill class
+ */
+export function getFrameTimeColor(delta: number): string {
+  if (delta > JANK_THRESHOLDS.over33) return 'fill-red-400'
+  if (delta > JANK_THRESHOLDS.over16) return 'fill-yellow-400'
+  return 'fill-green-400'
+}
@@ -0,0 +1,227 @@
+/**
+ * Layout Changes
+ * Reports layout shift entries and elements whose box moved or resized between frames
+ */
+
+import { DEBUG_UI_SELECTOR } from './utils'
+import type { LayoutChange } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number
+  hadRecentInput: boolean
+  sources?: Array<{ node: Node | null; previousRect: DOMRectReadOnly; currentRect: DOMRectReadOnly }>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Elements whose geometry is remembered; beyond this only layout shift entries are reported
+const MAX_TRACKED = 2000
+
+// Elements re-measured per frame after mutations or resizes
+const MAX_CANDIDATES = 300
+
+// Smaller deltas (px) are sub-pixel noise
+const MIN_DELTA = 1
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function isDebugUi(element: Element): boolean {
+  return !!element.closest(DEBUG_UI_SELECTOR)
+}
+
+/**
+ * Element rect in page coordinates, so document scrolling doesn't count as movement
+ */
+function getPageRect(element: Element): DOMRect {
+  const rect = element.getBoundingClientRect()
+  return new DOMRect(rect.left + window.scrollX, rect.top + window.scrollY, rect.width, rect.height)
+}
+
+function toViewportRect(rect: DOMRectReadOnly): DOMRect {
+  return new DOMRect(rect.x - window.scrollX, rect.y - window.scrollY, rect.width, rect.height)
+}
+
+/**
+ * Drop moves that only follow a moved ancestor, so a shifted block is reported once
+ */
+function keepOutermost(changes: LayoutChange[]): LayoutChange[] {
+  const delta = (change: LayoutChange) =>
+    change.previousRect ? `${change.rect.x - change.previousRect.x},${change.rect.y - change.previousRect.y}` : ''
+
+  return changes.filter(
+    (change) =>
+      change.kind !== 'move' ||
+      !changes.some(
+        (other) => other !== change && other.element.contains(change.element) && delta(other) === delta(change)
+      )
+  )
+}
+
+// ============================================================================
+// Observer
+// ============================================================================
+
+/**
+ * Observe layout shifts and geometry changes
+ *
+ * @param onChange - Called with the changes detected in a frame
+ * @param options.trackGeometry - Also sample element boxes after mutations and resizes
+ * @returns Stop function
+ */
+export function observeLayoutChanges(
+  onChange: (changes: LayoutChange[]) => void,
+  { trackGeometry = true }: { trackGeometry?: boolean } = {}
+): () => void {
+  const cleanup: Array<() => void> = []
+
+  // Layout shift entries
+  if (typeof PerformanceObserver !== 'undefined' && PerformanceObserver.supportedEntryTypes?.includes('layout-shift')) {
+    const observer = new PerformanceObserver((list) => {
+      const changes: LayoutChange[] = []
+      for (const entry of list.getEntries() as LayoutShiftEntry[]) {
+        for (const source of entry.sources ?? []) {
+          const element = source.node instanceof Element ? source.node : source.node?.parentElement
+          if (!element || isDebugUi(element)) continue
+          changes.push({
+            kind: 'layout-shift',
+            element,
+            rect: source.currentRect,
+            previousRect: source.previousRect,
+            value: entry.value,
+            hadRecentInput: entry.hadRecentInput,
+            timestamp: entry.startTime,
+          })
+        }
+      }
+      if (changes.length > 0) onChange(changes)
+    })
+    observer.observe({ type: 'layout-shift' })
+    cleanup.push(() => observer.disconnect())
+  }
+
+  if (!trackGeometry || typeof ResizeObserver === 'undefined') {
+    return () => cleanup.forEach((fn) => fn())
+  }
+
+  // Geometry sampling: remember page rects, re-measure around whatever mutated or resized
+  const rects = new WeakMap<Element, DOMRect>()
+  const dirty = new Set<Element>()
+  let trackedCount = 0
+  let rafId: number | null = null
+
+  const resizeObserver = new ResizeObserver((entries) => {
+    entries.forEach((entry) => dirty.add(entry.target))
+    schedule()
+  })
+
+  const track = (element: Element, rect = getPageRect(element)) => {
+    if (trackedCount >= MAX_TRACKED) return
+    rects.set(element, rect)
+    resizeObserver.observe(element)
+    trackedCount++
+  }
+
+  const check = () => {
+    rafId = null
+
+    // Mutated elements, their children, and everything after them that could have been pushed
+    const candidates = new Set<Element>()
+    const add = (element: Element | null) => {
+      if (element && candidates.size < MAX_CANDIDATES) candidates.add(element)
+    }
+    dirty.forEach((element) => {
+      if (!element.isConnected) return
+      add(element)
+      Array.from(element.children).forEach(add)
+      for (let ancestor: Element | null = element; ancestor && ancestor !== document.body; ancestor = ancestor.parentElement) {
+        for (let sibling = ancestor.nextElementSibling; sibling; sibling = sibling.nextElementSibling) add(sibling)
+      }
+    })
+    dirty.clear()
+
+    const timestamp = performance.now()
+    const changes: LayoutChange[] = []
+    candidates.forEach((element) => {
+      if (isDebugUi(element)) return
+
+      const rect = getPageRect(element)
+      const previous = rects.get(element)
+      if (!previous) {
+        track(element, rect)
+        return
+      }
+
+      const moved = Math.abs(rect.x - previous.x) >= MIN_DELTA || Math.abs(rect.y - previous.y) >= MIN_DELTA
+      const resized = Math.abs(rect.width - previous.width) >= MIN_DELTA || Math.abs(rect.height - previous.height) >= MIN_DELTA
+      if (!moved && !resized) return
+
+      rects.set(element, rect)
+      // Hidden elements have nothing to draw
+      if (rect.width === 0 || rect.height === 0) return
+
+      changes.push({
+        kind: resized ? 'resize' : 'move',
+        element,
+        rect: toViewportRect(rect),
+        previousRect: toViewportRect(previous),
+        timestamp,
+      })
+    })
+
+    if (changes.length > 0) onChange(keepOutermost(changes))
+  }
+
+  const schedule = () => {
+    if (rafId === null) rafId = requestAnimationFrame(check)
+  }
+
+  const mutationObserver = new MutationObserver((records) => {
+    for (const record of records) {
+      const target = record.target instanceof Element ? record.target : record.target.parentElement
+      if (!target || isDebugUi(target)) continue
+      dirty.add(target)
+    }
+    if (dirty.size > 0) schedule()
+  })
+  mutationObserver.observe(document.body, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: ['class', 'style', 'hidden'],
+  })
+
+  // Scrolling a container moves its content without any layout change
+  const handleScroll = (e: Event) => {
+    if (!(e.target instanceof Element)) return
+    Array.from(e.target.querySelectorAll('*'))
+      .slice(0, MAX_CANDIDATES)
+      .forEach((element) => {
+        if (rects.has(element)) rects.set(element, getPageRect(element))
+      })
+  }
+  document.addEventListener('scroll', handleScroll, { capture: true, passive: true })
+
+  // Baseline of the current page
+  Array.from(document.body.querySelectorAll('*'))
+    .filter((element) => !isDebugUi(element))
+    .slice(0, MAX_TRACKED)
+    .forEach((element) => track(element))
+
+  cleanup.push(() => {
+    mutationObserver.disconnect()
+    resizeObserver.disconnect()
+    document.removeEventListener('scroll', handleScroll, { capture: true })
+    if (rafId !== null) cancelAnimationFrame(rafId)
+  })
+
+  return () => cleanup.forEach((fn) => fn())
+}
@@ -0,0 +1,367 @@
+/**
+ * Test locators
+ * Testing Library, Playwright and Cypress locators for an element, checked against the live DOM
+ */
+
+import { getAccessibleName, getAccessibleRole } from './accessibility'
+import { getFrameDocument, getTreeRoot } from './deepDom'
+import { formatSourceLocation } from './sourceLocation'
+import { generateSelector, isUniqueSelector, PIERCE_SEPARATOR, resolveSelector, XPATH_PREFIX } from './selector'
+import { DEBUG_UI_SELECTOR } from './utils'
+import type { DebugAnnotation, LocatorFramework, LocatorStrategy, TestLocator } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LOCATOR_FRAMEWORKS: LocatorFramework[] = ['testing-library', 'playwright', 'cypress']
+
+// Elements compared against when checking role, label and text uniqueness
+const MAX_SCANNED_ELEMENTS = 5000
+
+// Longer names and texts make brittle locators
+const MAX_TEXT_LENGTH = 80
+
+// Query name suffixes, e.g. getByLabelText / getByLabel
+const QUERY_NAMES: Record<Exclude<LocatorStrategy, 'role' | 'selector'>, { testingLibrary: string; playwright: string }> = {
+  label: { testingLibrary: 'LabelText', playwright: 'Label' },
+  placeholder: { testingLibrary: 'PlaceholderText', playwright: 'Placeholder' },
+  text: { testingLibrary: 'Text', playwright: 'Text' },
+  altText: { testingLibrary: 'AltText', playwright: 'AltText' },
+  title: { testingLibrary: 'Title', playwright: 'Title' },
+  testId: { testingLibrary: 'TestId', playwright: 'TestId' },
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface Candidate {
+  strategy: LocatorStrategy
+  /** Name, label, text or attribute value; the selector for the selector strategy */
+  value: string
+  role?: string
+  matchCount: number
+  /** False when the count comes from a capped scan of a larger page */
+  verified: boolean
+}
+
+/**
+ * One ` >>> `-separated part of a selector, and the kind of boundary that follows it
+ */
+interface SelectorPart {
+  selector: string
+  boundary?: 'shadow' | 'frame'
+}
+
+// ============================================================================
+// Text Helpers
+// ============================================================================
+
+function normalizeText(text: string | null | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * JavaScript string literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+/**
+ * Text of the element's own text nodes, which is what getByText matches
+ */
+function getOwnText(element: Element): string {
+  return normalizeText(
+    Array.from(element.childNodes)
+      .filter((node) => node.nodeType === Node.TEXT_NODE)
+      .map((node) => node.textContent)
+      .join('')
+  )
+}
+
+/**
+ * Text of a form control's labels, aria-labelledby or aria-label, which is what getByLabelText matches
+ */
+function getLabelText(element: Element): string {
+  const labelledBy = element.getAttribute('aria-labelledby')
+  if (labelledBy) {
+    const text = normalizeText(
+      labelledBy
+        .split(/\s+/)
+        .map((id) => element.ownerDocument.getElementById(id)?.textContent)
+        .join(' ')
+    )
+    if (text) return text
+  }
+
+  const ariaLabel = normalizeText(element.getAttribute('aria-label'))
+  if (ariaLabel) return ariaLabel
+
+  const labels = (element as HTMLInputElement).labels
+  return labels ? normalizeText(Array.from(labels, (label) => label.textContent).join(' ')) : ''
+}
+
+/**
+ * Whether role queries can find the element: rendered and not aria-hidden
+ */
+function isExposed(element: Element): boolean {
+  return (
+    element.getClientRects().length > 0 &&
+    getComputedStyle(element).visibility !== 'hidden' &&
+    !element.closest('[aria-hidden="true"]')
+  )
+}
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+/**
+ * Locator candidates in Testing Library's order of preference, each with its live match count
+ * Matches are counted within the element's document or shadow root. Attribute matches are
+ * queried across the whole tree; role, label and text matches need a scan, which is capped on
+ * large pages. Capped counts are unverified, and scanned strategies are skipped when the
+ * element itself falls outside the scan.
+ */
+function getCandidates(element: Element, selector: string): Candidate[] {
+  const root = getTreeRoot(element)
+  const elements = root.querySelectorAll('*')
+  const verified = elements.length <= MAX_SCANNED_ELEMENTS
+  const scope = Array.from(elements)
+    .slice(0, MAX_SCANNED_ELEMENTS)
+    .filter((candidate) => !candidate.closest(DEBUG_UI_SELECTOR))
+  const scanned = verified || scope.includes(element)
+  const candidates: Candidate[] = []
+
+  const addAttribute = (strategy: LocatorStrategy, attribute: string) => {
+    const value = element.getAttribute(attribute)
+    if (!value || value.length > MAX_TEXT_LENGTH) return
+    const matches = Array.from(root.querySelectorAll(`[${attribute}="${CSS.escape(value)}"]`))
+    candidates.push({
+      strategy,
+      value,
+      matchCount: matches.filter((candidate) => !candidate.closest(DEBUG_UI_SELECTOR)).length,
+      verified: true,
+    })
+  }
+
+  const role = scanned ? getAccessibleRole(element) : undefined
+  if (role && role !== 'presentation' && role !== 'none') {
+    const name = getAccessibleName(element)
+    if (name.length <= MAX_TEXT_LENGTH) {
+      const matchCount = scope.filter(
+        (candidate) =>
+          getAccessibleRole(candidate) === role &&
+          isExposed(candidate) &&
+          (!name || getAccessibleName(candidate) === name)
+      ).length
+      candidates.push({ strategy: 'role', role, value: name, matchCount, verified })
+    }
+  }
+
+  if (scanned && 'labels' in element) {
+    const label = getLabelText(element)
+    if (label && label.length <= MAX_TEXT_LENGTH) {
+      const matchCount = scope.filter((candidate) => 'labels' in candidate && getLabelText(candidate) === label).length
+      candidates.push({ strategy: 'label', value: label, matchCount, verified })
+    }
+  }
+
+  addAttribute('placeholder', 'placeholder')
+
+  const text = scanned ? getOwnText(element) : ''
+  if (text && text.length <= MAX_TEXT_LENGTH) {
+    const matchCount = scope.filter((candidate) => getOwnText(candidate) === text).length
+    candidates.push({ strategy: 'text', value: text, matchCount, verified })
+  }
+
+  addAttribute('altText', 'alt')
+  addAttribute('title', 'title')
+  addAttribute('testId', 'data-testid')
+
+  candidates.push({
+    strategy: 'selector',
+    value: selector,
+    matchCount: isUniqueSelector(selector, element) || resolveSelector(selector) === element ? 1 : 0,
+    verified: true,
+  })
+
+  return candidates
+}
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/**
+ * Split a composite selector, resolving each host to tell shadow roots from iframes
+ * Hosts that no longer resolve are assumed to be shadow hosts.
+ */
+function getSelectorParts(selector: string): SelectorPart[] {
+  const texts = selector.split(PIERCE_SEPARATOR)
+  let scope: Document | ShadowRoot | null = document
+
+  return texts.map((text, index) => {
+    if (index === texts.length - 1) return { selector: text }
+    const host: Element | null = scope ? resolveSelector(text, scope) : null
+    const frameDocument = host && getFrameDocument(host)
+    scope = host ? host.shadowRoot ?? frameDocument : null
+    return { selector: text, boundary: frameDocument ? 'frame' : 'shadow' }
+  })
+}
+
+function isXPath(selector: string): boolean {
+  return selector.startsWith(XPATH_PREFIX)
+}
+
+/**
+ * Playwright frame locators and the selector inside the innermost frame
+ * Playwright's CSS engine pierces open shadow roots, so shadow parts are chained with `>>`.
+ */
+function toPlaywrightScope(parts: SelectorPart[]): { frames: string[]; selector: string } {
+  const groups: string[][] = [[]]
+  parts.forEach((part) => {
+    groups[groups.length - 1].push(isXPath(part.selector) ? `xpath=${part.selector.slice(XPATH_PREFIX.length)}` : part.selector)
+    if (part.boundary === 'frame') groups.push([])
+  })
+  const [selector, ...frames] = groups.map((group) => group.join(' >> ')).reverse()
+  return { frames: frames.reverse(), selector }
+}
+
+function formatSelector(parts: SelectorPart[], framework: LocatorFramework): string {
+  if (framework === 'playwright') {
+    const { frames, selector } = toPlaywrightScope(parts)
+    return `page${frames.map((frame) => `.frameLocator(${quote(frame)})`).join('')}.locator(${quote(selector)})`
+  }
+
+  if (framework === 'cypress') {
+    return parts
+      .map((part, index) => {
+        const previous = parts[index - 1]
+        const query = isXPath(part.selector)
+          ? `xpath(${quote(part.selector.slice(XPATH_PREFIX.length))})`
+          : `${index === 0 ? 'get' : 'find'}(${quote(part.selector)})`
+        if (!previous) return `cy.${query}`
+        return previous.boundary === 'frame' ? `.its('0.contentDocument.body').${query}` : `.shadow().${query}`
+      })
+      .join('')
+  }
+
+  // Testing Library: plain DOM queries, descending through shadowRoot and contentDocument
+  let expression = ''
+  parts.forEach((part, index) => {
+    const previous = parts[index - 1]
+    const root = !previous ? 'document' : previous.boundary === 'frame' ? `${expression}.contentDocument` : `${expression}.shadowRoot`
+    expression = isXPath(part.selector)
+      ? `${root}.evaluate(${quote(part.selector.slice(XPATH_PREFIX.length))}, ${root}, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue`
+      : `${root}.querySelector(${quote(part.selector)})`
+  })
+  return expression
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatLocator(candidate: Candidate, framework: LocatorFramework, parts: SelectorPart[]): string {
+  if (candidate.strategy === 'selector') return formatSelector(parts, framework)
+
+  const { testingLibrary, playwright } =
+    candidate.strategy === 'role' ? { testingLibrary: 'Role', playwright: 'Role' } : QUERY_NAMES[candidate.strategy]
+
+  if (framework === 'playwright') {
+    // Elements inside iframes are reached through frame locators
+    const frames = toPlaywrightScope(parts).frames.map((frame) => `.frameLocator(${quote(frame)})`).join('')
+    // Playwright matches substrings unless exact is set
+    const args =
+      candidate.strategy === 'role'
+        ? `${quote(candidate.role!)}${candidate.value ? `, { name: ${quote(candidate.value)}, exact: true }` : ''}`
+        : `${quote(candidate.value)}${candidate.strategy === 'testId' ? '' : ', { exact: true }'}`
+    return `page${frames}.getBy${playwright}(${args})`
+  }
+
+  const args =
+    candidate.strategy === 'role'
+      ? `${quote(candidate.role!)}${candidate.value ? `, { name: ${quote(candidate.value)} }` : ''}`
+      : quote(candidate.value)
+  return framework === 'cypress' ? `cy.findBy${testingLibrary}(${args})` : `screen.getBy${testingLibrary}(${args})`
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * The most robust locator for an element in each test framework
+ * Candidates are tried in Testing Library's order of preference (role, label, placeholder,
+ * text, alt text, title, test id) and the first that matches exactly one element in the live
+ * DOM wins; the selector engine's selector is the fallback. Inside shadow roots and iframes,
+ * Testing Library and Cypress always use the selector, while Playwright scopes to the frame.
+ *
+ * @example
+ * ```ts
+ * getTestLocators(saveButton).map((locator) => locator.code)
+ * // ["screen.getByRole('button', { name: 'Save' })",
+ * //  "page.getByRole('button', { name: 'Save', exact: true })",
+ * //  "cy.findByRole('button', { name: 'Save' })"]
+ * ```
+ */
+export function getTestLocators(element: Element): TestLocator[] {
+  const selector = generateSelector(element)
+  const candidates = getCandidates(element, selector)
+  const fallback = candidates[candidates.length - 1]
+  const best = candidates.find((candidate) => candidate.matchCount === 1) ?? fallback
+  const parts = getSelectorParts(selector)
+
+  return LOCATOR_FRAMEWORKS.map((framework) => {
+    // screen and cy.findBy* queries search the top document only, so elements inside a
+    // shadow root or iframe are reached through the selector's shadowRoot / frame chain
+    const candidate = parts.length > 1 && framework !== 'playwright' ? fallback : best
+    return {
+      framework,
+      strategy: candidate.strategy,
+      code: formatLocator(candidate, framework, parts),
+      matchCount: candidate.matchCount,
+      verified: candidate.verified,
+    }
+  })
+}
+
+/**
+ * Playwright test stub for an annotation
+ * Opens the annotated page, locates the element and leaves the reproduction steps and the
+ * expected behaviour to fill in. The element is located by its best Playwright locator when
+ * it's on the current page, and by the annotation's selector otherwise.
+ */
+export function annotationToPlaywrightTest(annotation: DebugAnnotation): string {
+  const onCurrentPage = !annotation.url || annotation.url === window.location.href
+  const element = onCurrentPage ? resolveSelector(annotation.selector) : null
+  const locator = element
+    ? getTestLocators(element).find((l) => l.framework === 'playwright')!.code
+    : formatSelector(getSelectorParts(annotation.selector), 'playwright')
+
+  const comment = annotation.comment.split('\n').map((line) => line.trim()).filter(Boolean)
+  const title = comment[0] ?? annotation.selector
+  const context = [
+    annotation.elementInfo.componentName && `Component: ${annotation.elementInfo.componentName}`,
+    annotation.source && `Source: ${formatSourceLocation(annotation.source)}`,
+  ].filter((line): line is string => !!line)
+
+  return [
+    "import { test, expect } from '@playwright/test'",
+    '',
+    `test(${quote(title.length > 80 ? title.slice(0, 79) + '…' : title)}, async ({ page }) => {`,
+    ...comment.map((line) => `  // ${line}`),
+    ...context.map((line) => `  // ${line}`),
+    `  await page.goto(${quote(annotation.url ?? '/')})`,
+    '',
+    `  const element = ${locator}`,
+    '  await expect(element).toBeVisible()',
+    '',
+    '  // TODO: reproduce the issue and assert the expected behaviour',
+    '})',
+    '',
+  ].join('\n')
+}
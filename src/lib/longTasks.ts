@@ -0,0 +1,172 @@
+/**
+ * Long task monitoring
+ * Observes `long-animation-frame` (or `longtask`) entries and attributes them
+ * to scripts, React commits and the last user interaction
+ */
+
+import { getReactFiberName, getRenderedComponentNames } from './reactFiber'
+import { subscribeToCommits } from './reactCommits'
+import type { LongTaskEvent, LongTaskKind, LongTaskScript } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface LoAFScriptTiming {
+  invoker?: string
+  invokerType?: string
+  sourceURL?: string
+  sourceFunctionName?: string
+  sourceCharPosition?: number
+  duration: number
+}
+
+interface LoAFEntry extends PerformanceEntry {
+  blockingDuration?: number
+  scripts?: LoAFScriptTiming[]
+}
+
+interface LongTaskAttribution {
+  name?: string
+  containerType?: string
+  containerName?: string
+  containerSrc?: string
+}
+
+interface LongTaskEntry extends PerformanceEntry {
+  attribution?: LongTaskAttribution[]
+}
+
+interface RecentCommit {
+  timestamp: number
+  components: string[]
+}
+
+interface RecentInteraction {
+  type: string
+  timestamp: number
+  target: HTMLElement
+}
+
+// Number of recent commits kept for attribution
+const MAX_RECENT_COMMITS = 50
+
+// Interactions this long before a task started still count as its trigger
+const INTERACTION_SLACK_MS = 50
+
+// ============================================================================
+// Support Detection
+// ============================================================================
+
+/**
+ * Best long task entry type supported by this browser
+ * Prefers `long-animation-frame` for its script attribution
+ * @returns Entry type, or null if neither is supported
+ */
+export function getSupportedLongTaskType(): LongTaskKind | null {
+  if (typeof PerformanceObserver === 'undefined') return null
+  const supported = PerformanceObserver.supportedEntryTypes ?? []
+  if (supported.includes('long-animation-frame')) return 'long-animation-frame'
+  if (supported.includes('longtask')) return 'longtask'
+  return null
+}
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+function getScripts(entry: PerformanceEntry, kind: LongTaskKind): LongTaskScript[] {
+  if (kind === 'long-animation-frame') {
+    return ((entry as LoAFEntry).scripts ?? []).map((script) => ({
+      invoker: script.invoker || script.invokerType,
+      sourceURL: script.sourceURL || undefined,
+      functionName: script.sourceFunctionName || undefined,
+      duration: script.duration,
+    }))
+  }
+
+  return ((entry as LongTaskEntry).attribution ?? []).map((attribution) => ({
+    invoker: attribution.containerName || attribution.containerType || attribution.name,
+    sourceURL: attribution.containerSrc || undefined,
+    functionName: undefined,
+    duration: entry.duration,
+  }))
+}
+
+// ============================================================================
+// Observer
+// ============================================================================
+
+/**
+ * Observe long tasks with script, component and interaction attribution
+ * @param onTask - Called for each blocking task as it is reported
+ * @returns Stop function, or null if long tasks cannot be observed here
+ */
+export function observeLongTasks(onTask: (task: LongTaskEvent) => void): (() => void) | null {
+  const kind = getSupportedLongTaskType()
+  if (!kind) return null
+
+  const commits: RecentCommit[] = []
+  let lastInteraction: RecentInteraction | null = null
+
+  const unsubscribeCommits = subscribeToCommits((root, timestamp) => {
+    commits.push({ timestamp, components: getRenderedComponentNames(root) })
+    if (commits.length > MAX_RECENT_COMMITS) commits.shift()
+  })
+
+  const handleInteraction = (e: Event) => {
+    if (e.target instanceof HTMLElement) {
+      lastInteraction = { type: e.type, timestamp: performance.now(), target: e.target }
+    }
+  }
+  const interactionEvents = ['pointerdown', 'keydown', 'click'] as const
+  interactionEvents.forEach((type) => document.addEventListener(type, handleInteraction, true))
+
+  const observer = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      const start = entry.startTime
+      const end = entry.startTime + entry.duration
+
+      const components: string[] = []
+      for (const commit of commits) {
+        if (commit.timestamp < start || commit.timestamp > end) continue
+        for (const name of commit.components) {
+          if (!components.includes(name)) components.push(name)
+        }
+      }
+
+      const interaction =
+        lastInteraction &&
+        lastInteraction.timestamp >= start - INTERACTION_SLACK_MS &&
+        lastInteraction.timestamp <= end
+          ? {
+              type: lastInteraction.type,
+              componentName: getReactFiberName(lastInteraction.target),
+            }
+          : undefined
+
+      onTask({
+        id: `${kind}-${Math.round(start)}`,
+        kind,
+        startTime: start,
+        duration: entry.duration,
+        blockingDuration: (entry as LoAFEntry).blockingDuration,
+        scripts: getScripts(entry, kind),
+        components,
+        interaction,
+      })
+    }
+  })
+
+  try {
+    observer.observe({ type: kind, buffered: true })
+  } catch (error) {
+    console.warn('[Debug] Failed to observe long tasks:', error)
+  }
+
+  return () => {
+    observer.disconnect()
+    unsubscribeCommits()
+    interactionEvents.forEach((type) => document.removeEventListener(type, handleInteraction, true))
+  }
+}
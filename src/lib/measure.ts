@@ -0,0 +1,99 @@
+/**
+ * Measurement helpers
+ * Edge-to-edge distances between two elements, as drawn by the measure tool
+ */
+
+import type { MeasureLine, Measurement } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Rect = Pick<DOMRect, 'left' | 'top' | 'right' | 'bottom'>
+type Axis = Measurement['axis']
+
+interface Span {
+  start: number
+  end: number
+}
+
+const SIDES = {
+  horizontal: { start: 'left', end: 'right' },
+  vertical: { start: 'top', end: 'bottom' },
+} as const
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Extent of a rect along the axis, and across it
+ */
+function getSpans(rect: Rect, axis: Axis): [Span, Span] {
+  const x = { start: rect.left, end: rect.right }
+  const y = { start: rect.top, end: rect.bottom }
+  return axis === 'horizontal' ? [x, y] : [y, x]
+}
+
+function toLine(axis: Axis, from: number, to: number, cross: number): MeasureLine {
+  return axis === 'horizontal'
+    ? { x1: from, y1: cross, x2: to, y2: cross }
+    : { x1: cross, y1: from, x2: cross, y2: to }
+}
+
+/**
+ * Extension of an edge up to the measurement line, when the edge doesn't reach it
+ */
+function getExtension(axis: Axis, edge: number, span: Span, cross: number): MeasureLine | null {
+  if (cross >= span.start && cross <= span.end) return null
+  const nearest = cross < span.start ? span.start : span.end
+  return toLine(axis === 'horizontal' ? 'vertical' : 'horizontal', nearest, cross, edge)
+}
+
+function measureAxis(reference: Rect, target: Rect, axis: Axis): Measurement[] {
+  const [a, aCross] = getSpans(reference, axis)
+  const [b, bCross] = getSpans(target, axis)
+
+  // Draw through the middle of the shared range, or the reference's middle when there is none
+  const overlapStart = Math.max(aCross.start, bCross.start)
+  const overlapEnd = Math.min(aCross.end, bCross.end)
+  const cross = overlapStart <= overlapEnd ? (overlapStart + overlapEnd) / 2 : (aCross.start + aCross.end) / 2
+
+  let pairs: Array<[from: number, to: number, side: 'start' | 'end']>
+  if (b.start >= a.end) {
+    // Target after the reference: the gap between them
+    pairs = [[a.end, b.start, 'start']]
+  } else if (b.end <= a.start) {
+    pairs = [[a.start, b.end, 'end']]
+  } else {
+    // Overlapping or nested: the offset between matching edges
+    pairs = [
+      [a.start, b.start, 'start'],
+      [a.end, b.end, 'end'],
+    ]
+    pairs = pairs.filter(([from, to]) => from !== to)
+  }
+
+  return pairs.map(([from, to, side]) => ({
+    axis,
+    side: SIDES[axis][side],
+    distance: Math.abs(to - from),
+    line: toLine(axis, from, to, cross),
+    extensions: [getExtension(axis, from, aCross, cross), getExtension(axis, to, bCross, cross)].filter(
+      (line): line is MeasureLine => line !== null
+    ),
+  }))
+}
+
+// ============================================================================
+// Measurement
+// ============================================================================
+
+/**
+ * Horizontal and vertical distances from a reference element to a measured element
+ * Separated elements get the gap between their facing edges; overlapping or nested
+ * elements get the offsets between their matching edges, like Figma's Alt-hover.
+ */
+export function measureDistances(reference: Rect, target: Rect): Measurement[] {
+  return [...measureAxis(reference, target, 'horizontal'), ...measureAxis(reference, target, 'vertical')]
+}
@@ -0,0 +1,439 @@
+/**
+ * Memory Monitor
+ * Samples heap, DOM and listener counts over time and flags sustained growth
+ */
+
+import { formatBytes, getMemoryInfo } from './utils'
+import type { LinearTrend, MemoryMonitorOptions, MemoryReport, MemorySample } from './types'
+
+// ============================================================================
+// Trend Fitting
+// ============================================================================
+
+/**
+ * Least-squares linear fit
+ * @param points - [x, y] pairs
+ * @returns Slope (y per x), intercept and coefficient of determination
+ */
+export function fitLinearTrend(points: Array<[number, number]>): LinearTrend {
+  const n = points.length
+  if (n < 2) return { slope: 0, intercept: points[0]?.[1] ?? 0, r2: 0 }
+
+  let sumX = 0
+  let sumY = 0
+  for (const [x, y] of points) {
+    sumX += x
+    sumY += y
+  }
+  const meanX = sumX / n
+  const meanY = sumY / n
+
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (const [x, y] of points) {
+    sxx += (x - meanX) ** 2
+    sxy += (x - meanX) * (y - meanY)
+    syy += (y - meanY) ** 2
+  }
+
+  if (sxx === 0) return { slope: 0, intercept: meanY, r2: 0 }
+  const slope = sxy / sxx
+  const r2 = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy)
+  return { slope, intercept: meanY - slope * meanX, r2 }
+}
+
+// ============================================================================
+// Listener Tracking
+// ============================================================================
+
+// Listener counts cover registrations made while tracking is on. Duplicate adds,
+// fired `once` listeners, aborted signals and collected targets are accounted for.
+
+interface WeakRefLike<T extends object> {
+  deref(): T | undefined
+}
+
+interface FinalizationRegistryLike<T> {
+  register(target: object, heldValue: T): void
+}
+
+const WeakRefCtor = (globalThis as unknown as {
+  WeakRef?: new <T extends object>(target: T) => WeakRefLike<T>
+}).WeakRef
+
+const FinalizationRegistryCtor = (globalThis as unknown as {
+  FinalizationRegistry?: new <T>(cleanup: (heldValue: T) => void) => FinalizationRegistryLike<T>
+}).FinalizationRegistry
+
+// Cap on tracked listener targets, to keep tracking itself from growing unbounded
+const MAX_TRACKED_TARGETS = 5000
+
+type ListenerArgs = Parameters<EventTarget['addEventListener']>
+
+interface ListenerCounter {
+  live: number
+  /** Tracking session the target was registered in */
+  session: number
+}
+
+interface TargetListeners {
+  /** Listeners by `${type}:${capture}` */
+  listeners: Map<string, Set<EventListenerOrEventListenerObject>>
+  /** Held by the finalization registry, so it must not reference the target */
+  counter: ListenerCounter
+}
+
+let listenerTrackingRefs = 0
+let listenerTrackingSession = 0
+let listenerCount = 0
+let listenerRegistrations = new WeakMap<EventTarget, TargetListeners>()
+const listenerTargets = new Set<WeakRefLike<Node>>()
+let originalAddEventListener: EventTarget['addEventListener'] | null = null
+let originalRemoveEventListener: EventTarget['removeEventListener'] | null = null
+// Installed wrappers; one patched over by another script stays in place, idle, until tracking restarts
+let trackingAddEventListener: EventTarget['addEventListener'] | null = null
+let trackingRemoveEventListener: EventTarget['removeEventListener'] | null = null
+
+// Listeners still registered on a collected target no longer count
+const collectedTargets = FinalizationRegistryCtor
+  ? new FinalizationRegistryCtor<ListenerCounter>((counter) => {
+      if (counter.session === listenerTrackingSession) listenerCount = Math.max(0, listenerCount - counter.live)
+    })
+  : undefined
+
+function getListenerKey(type: string, options: ListenerArgs[2]): string {
+  const capture = typeof options === 'boolean' ? options : !!options?.capture
+  return `${type}:${capture}`
+}
+
+function untrackListener(target: EventTarget, type: string, listener: ListenerArgs[1], options: ListenerArgs[2]) {
+  const registration = listener && listenerRegistrations.get(target)
+  if (!registration?.listeners.get(getListenerKey(type, options))?.delete(listener!)) return
+  registration.counter.live--
+  listenerCount = Math.max(0, listenerCount - 1)
+}
+
+function trackListener(target: EventTarget, [type, listener, options]: ListenerArgs) {
+  if (!listener || (typeof options === 'object' && options.signal?.aborted)) return
+
+  let registration = listenerRegistrations.get(target)
+  if (!registration) {
+    registration = { listeners: new Map(), counter: { live: 0, session: listenerTrackingSession } }
+    listenerRegistrations.set(target, registration)
+    collectedTargets?.register(target, registration.counter)
+  }
+
+  const key = getListenerKey(type, options)
+  let listeners = registration.listeners.get(key)
+  if (!listeners) registration.listeners.set(key, (listeners = new Set()))
+  if (listeners.has(listener)) return
+
+  listeners.add(listener)
+  registration.counter.live++
+  listenerCount++
+
+  if (!options || typeof options !== 'object' || !originalAddEventListener) return
+  const untrack = () => untrackListener(target, type, listener, options)
+  // Registered after the page's listener, so it runs right after it on the same dispatch
+  if (options.once) originalAddEventListener.call(target, type, untrack, { capture: options.capture, once: true })
+  if (options.signal) originalAddEventListener.call(options.signal, 'abort', untrack, { once: true })
+}
+
+function startListenerTracking() {
+  if (listenerTrackingRefs++ > 0) return
+
+  const proto = EventTarget.prototype
+
+  if (!trackingAddEventListener) {
+    const add = proto.addEventListener
+    originalAddEventListener = add
+    trackingAddEventListener = function (this: EventTarget, ...args: ListenerArgs) {
+      if (listenerTrackingRefs > 0) {
+        trackListener(this, args)
+        if (WeakRefCtor && this instanceof Node && listenerTargets.size < MAX_TRACKED_TARGETS) {
+          listenerTargets.add(new WeakRefCtor(this))
+        }
+      }
+      return add.apply(this, args)
+    }
+    proto.addEventListener = trackingAddEventListener
+  }
+
+  if (!trackingRemoveEventListener) {
+    const remove = proto.removeEventListener
+    originalRemoveEventListener = remove
+    trackingRemoveEventListener = function (this: EventTarget, ...args: Parameters<EventTarget['removeEventListener']>) {
+      if (listenerTrackingRefs > 0) untrackListener(this, args[0], args[1], args[2])
+      return remove.apply(this, args)
+    }
+    proto.removeEventListener = trackingRemoveEventListener
+  }
+}
+
+function stopListenerTracking() {
+  if (--listenerTrackingRefs > 0) return
+
+  // Restoring over a later patch from another script would silently undo it
+  const proto = EventTarget.prototype
+  if (originalAddEventListener && proto.addEventListener === trackingAddEventListener) {
+    proto.addEventListener = originalAddEventListener
+    trackingAddEventListener = null
+  }
+  if (originalRemoveEventListener && proto.removeEventListener === trackingRemoveEventListener) {
+    proto.removeEventListener = originalRemoveEventListener
+    trackingRemoveEventListener = null
+  }
+  listenerTrackingSession++
+  listenerCount = 0
+  listenerRegistrations = new WeakMap()
+  listenerTargets.clear()
+}
+
+/**
+ * Count nodes that had listeners attached and are now detached but still alive
+ * Collected nodes are pruned from tracking as a side effect
+ */
+function countDetachedListenerTargets(): number {
+  let detached = 0
+  listenerTargets.forEach((ref) => {
+    const node = ref.deref()
+    if (!node) {
+      listenerTargets.delete(ref)
+    } else if (!node.isConnected) {
+      detached++
+    }
+  })
+  return detached
+}
+
+// ============================================================================
+// Memory Monitor
+// ============================================================================
+
+const MB = 1024 * 1024
+const MINUTE = 60_000
+
+// Fits below this r² are too noisy to call a trend
+const MIN_TREND_R2 = 0.6
+
+// Navigations needed before per-navigation growth is judged
+const MIN_NAVIGATIONS = 3
+
+/**
+ * MemoryMonitor - Samples memory over time and reports growth trends
+ *
+ * @example
+ * ```ts
+ * const monitor = new MemoryMonitor({ sampleInterval: 5000 })
+ * const unsubscribe = monitor.subscribe((report) => {
+ *   if (report.leaking) console.warn(report.warnings)
+ * })
+ * monitor.start()
+ * ```
+ */
+export class MemoryMonitor {
+  private readonly options: Required<Omit<MemoryMonitorOptions, 'getProcessInfo'>> &
+    Pick<MemoryMonitorOptions, 'getProcessInfo'>
+
+  private samples: MemorySample[] = []
+  private navigationHeaps: number[] = []
+  private navigations = 0
+  private interactions = 0
+  private listeners = new Set<(report: MemoryReport) => void>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private navigationTimer: ReturnType<typeof setTimeout> | null = null
+  private cleanup: Array<() => void> = []
+
+  constructor(options: MemoryMonitorOptions = {}) {
+    this.options = {
+      sampleInterval: options.sampleInterval ?? 5000,
+      maxSamples: options.maxSamples ?? 120,
+      growthThreshold: options.growthThreshold ?? MB,
+      minDuration: options.minDuration ?? 2 * MINUTE,
+      trackListeners: options.trackListeners ?? false,
+      getProcessInfo: options.getProcessInfo,
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  start(): void {
+    if (this.timer !== null) return
+
+    if (this.options.trackListeners) {
+      startListenerTracking()
+      this.cleanup.push(stopListenerTracking)
+    }
+
+    // Navigations (history API and hash changes)
+    const handleNavigation = () => {
+      this.navigations++
+      // Heap is read a little later so the new route has settled
+      if (this.navigationTimer !== null) clearTimeout(this.navigationTimer)
+      this.navigationTimer = setTimeout(() => {
+        this.navigationTimer = null
+        const heap = getMemoryInfo()?.usedJSHeapSize
+        if (heap !== undefined) this.navigationHeaps.push(heap)
+      }, 1000)
+    }
+    const originalPushState = history.pushState
+    history.pushState = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = originalPushState.apply(this, args)
+      handleNavigation()
+      return result
+    }
+    window.addEventListener('popstate', handleNavigation)
+    window.addEventListener('hashchange', handleNavigation)
+    this.cleanup.push(() => {
+      history.pushState = originalPushState
+      window.removeEventListener('popstate', handleNavigation)
+      window.removeEventListener('hashchange', handleNavigation)
+    })
+
+    // Interactions
+    const handleInteraction = () => {
+      this.interactions++
+    }
+    document.addEventListener('click', handleInteraction, true)
+    document.addEventListener('keydown', handleInteraction, true)
+    this.cleanup.push(() => {
+      document.removeEventListener('click', handleInteraction, true)
+      document.removeEventListener('keydown', handleInteraction, true)
+    })
+
+    this.timer = setInterval(() => this.sample(), this.options.sampleInterval)
+    this.sample()
+  }
+
+  stop(): void {
+    if (this.timer !== null) clearInterval(this.timer)
+    this.timer = null
+    if (this.navigationTimer !== null) clearTimeout(this.navigationTimer)
+    this.navigationTimer = null
+    this.cleanup.forEach((fn) => fn())
+    this.cleanup = []
+  }
+
+  reset(): void {
+    this.samples = []
+    this.navigationHeaps = []
+    this.navigations = 0
+    this.interactions = 0
+    this.emit()
+  }
+
+  /**
+   * Subscribe to reports, emitted after every sample
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (report: MemoryReport) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getReport(): MemoryReport {
+    const { growthThreshold, minDuration } = this.options
+    const samples = this.samples
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    const duration = first && last ? last.timestamp - first.timestamp : 0
+    const longEnough = duration >= minDuration
+
+    // x in minutes, so slopes read as "per minute"
+    const trendOf = (pick: (s: MemorySample) => number | undefined) => {
+      const points: Array<[number, number]> = []
+      for (const s of samples) {
+        const value = pick(s)
+        if (value !== undefined) points.push([(s.timestamp - first.timestamp) / MINUTE, value])
+      }
+      return points.length >= 2 ? fitLinearTrend(points) : undefined
+    }
+
+    const heapTrend = trendOf((s) => s.heapUsed)
+    const mainProcessTrend = trendOf((s) => s.mainProcessRss)
+    const domNodeTrend = trendOf((s) => s.domNodes)
+    const listenerTrend = this.options.trackListeners ? trendOf((s) => s.listeners) : undefined
+
+    const growing = (trend: LinearTrend | undefined, threshold: number) =>
+      longEnough && !!trend && trend.slope > threshold && trend.r2 >= MIN_TREND_R2
+
+    const warnings: string[] = []
+    if (growing(heapTrend, growthThreshold)) {
+      warnings.push(`JS heap growing ${formatBytes(heapTrend!.slope)}/min`)
+    }
+    if (growing(mainProcessTrend, growthThreshold)) {
+      warnings.push(`Main process growing ${formatBytes(mainProcessTrend!.slope)}/min`)
+    }
+    if (growing(domNodeTrend, 50)) {
+      warnings.push(`DOM nodes growing ${Math.round(domNodeTrend!.slope)}/min`)
+    }
+    if (growing(listenerTrend, 20)) {
+      warnings.push(`Event listeners growing ${Math.round(listenerTrend!.slope)}/min`)
+    }
+
+    // Heap after each navigation should return to a baseline
+    const navHeaps = this.navigationHeaps
+    if (navHeaps.length >= MIN_NAVIGATIONS) {
+      const navTrend = fitLinearTrend(navHeaps.map((heap, i) => [i, heap]))
+      if (navTrend.slope > growthThreshold && navTrend.r2 >= MIN_TREND_R2) {
+        warnings.push(`Heap grows ${formatBytes(navTrend.slope)} per navigation`)
+      }
+    }
+
+    const detached = last?.detachedNodes ?? 0
+    const detachedGrowing = samples.length >= 3 && detached > 0 && detached > (samples[samples.length - 3].detachedNodes ?? 0)
+    if (detachedGrowing) {
+      warnings.push(`${detached} detached nodes still hold listeners`)
+    }
+
+    return {
+      samples: [...samples],
+      duration,
+      heapTrend,
+      mainProcessTrend,
+      domNodeTrend,
+      listenerTrend,
+      navigations: this.navigations,
+      interactions: this.interactions,
+      warnings,
+      leaking: warnings.length > 0,
+    }
+  }
+
+  private async sample() {
+    const sample: MemorySample = {
+      timestamp: performance.now(),
+      heapUsed: getMemoryInfo()?.usedJSHeapSize,
+      domNodes: document.getElementsByTagName('*').length,
+      listeners: this.options.trackListeners ? listenerCount : undefined,
+      detachedNodes: this.options.trackListeners && WeakRefCtor ? countDetachedListenerTargets() : undefined,
+    }
+
+    if (this.options.getProcessInfo) {
+      try {
+        const info = await this.options.getProcessInfo()
+        sample.mainProcessRss = info?.mainProcessMemory?.rss
+      } catch (error) {
+        console.warn('[Debug] Failed to fetch process info:', error)
+      }
+    }
+
+    // Stopped while fetching process info
+    if (this.timer === null) return
+
+    this.samples.push(sample)
+    if (this.samples.length > this.options.maxSamples) this.samples.shift()
+    this.emit()
+  }
+
+  private emit() {
+    if (this.listeners.size === 0) return
+    const report = this.getReport()
+    this.listeners.forEach((listener) => listener(report))
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Network Monitor
+ * Wraps fetch and XMLHttpRequest while subscribed and reports each request
+ */
+
+import { getReactFiberName } from './reactFiber'
+import type { NetworkRequest } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Bodies larger than this are truncated in the captured record
+const MAX_BODY_LENGTH = 100_000
+
+// Responses declaring a larger Content-Length are not read at all
+const MAX_READ_LENGTH = 1_000_000
+
+const TEXT_CONTENT_TYPE = /json|text|xml|javascript|x-www-form-urlencoded|graphql/i
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+let nextRequestId = 1
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+function truncateBody(text: string): string {
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH)}\n… truncated (${text.length} chars)`
+    : text
+}
+
+interface DescribedBody {
+  text?: string
+  size?: number
+  kind?: NetworkRequest['requestBodyKind']
+  truncated?: boolean
+}
+
+function describeBody(body: unknown): DescribedBody {
+  if (body === null || body === undefined) return {}
+  if (typeof body === 'string') {
+    return { text: truncateBody(body), size: byteLength(body), kind: 'text', truncated: body.length > MAX_BODY_LENGTH }
+  }
+  if (body instanceof URLSearchParams) {
+    const text = body.toString()
+    return { text, size: byteLength(text), kind: 'text' }
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const fields = Array.from(body.keys())
+    return { text: `[FormData: ${fields.join(', ')}]`, kind: 'form-data' }
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return { text: `[Blob ${body.size} bytes]`, size: body.size, kind: 'binary' }
+  }
+  if (body instanceof ArrayBuffer) {
+    return { text: `[ArrayBuffer ${body.byteLength} bytes]`, size: body.byteLength, kind: 'binary' }
+  }
+  if (ArrayBuffer.isView(body)) {
+    return { text: `[${body.constructor.name} ${body.byteLength} bytes]`, size: body.byteLength, kind: 'binary' }
+  }
+  return { text: String(body), kind: 'binary' }
+}
+
+function headersToRecord(headers: HeadersInit | Headers | undefined): Record<string, string> {
+  const record: Record<string, string> = {}
+  if (!headers) return record
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value
+  })
+  return record
+}
+
+function parseRawHeaders(raw: string): Record<string, string> {
+  const record: Record<string, string> = {}
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const index = line.indexOf(':')
+      if (index > 0) record[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim()
+    })
+  return record
+}
+
+function resolveUrl(url: string | URL): string {
+  try {
+    return new URL(String(url), window.location.href).href
+  } catch {
+    return String(url)
+  }
+}
+
+/**
+ * Capture the call stack with the monitor's own frames removed
+ */
+function captureStack(): string | undefined {
+  const stack = new Error().stack
+  if (!stack) return undefined
+  return stack
+    .split('\n')
+    .slice(1)
+    .filter((line) => !/networkMonitor|captureStack|debugging-tool/.test(line))
+    .map((line) => line.trim())
+    .join('\n')
+}
+
+/**
+ * Find the React component that started a request
+ * Uses the target of the event being handled, else a component-like name in the stack
+ */
+function findInitiatorComponent(stack: string | undefined): string | undefined {
+  const event = (window as unknown as { event?: Event }).event
+  if (event?.target instanceof HTMLElement) {
+    const name = getReactFiberName(event.target)
+    if (name) return name
+  }
+
+  for (const line of stack?.split('\n') ?? []) {
+    if (/node_modules|react-dom|react\.development|chunk-/.test(line)) continue
+    const fn = line.match(/^at (?:async )?([A-Z][A-Za-z0-9]*)[\s.]/)?.[1]
+    if (fn && fn !== 'Object' && fn !== 'Promise') return fn
+    const file = line.match(/\/([A-Z][A-Za-z0-9]*)\.[jt]sx?[?:]/)?.[1]
+    if (file) return file
+  }
+
+  return undefined
+}
+
+// ============================================================================
+// Subscription
+// ============================================================================
+
+type NetworkListener = (request: NetworkRequest) => void
+
+const listeners = new Set<NetworkListener>()
+let restore: (() => void) | null = null
+
+function emit(request: NetworkRequest) {
+  const snapshot = { ...request }
+  listeners.forEach((listener) => {
+    try {
+      listener(snapshot)
+    } catch (error) {
+      console.warn('[Debug] Network listener failed:', error)
+    }
+  })
+}
+
+function createRecord(type: NetworkRequest['type'], method: string, url: string): NetworkRequest {
+  const initiatorStack = captureStack()
+  return {
+    id: `req-${nextRequestId++}`,
+    type,
+    method: method.toUpperCase(),
+    url: resolveUrl(url),
+    state: 'pending',
+    startTime: performance.now(),
+    requestHeaders: {},
+    responseHeaders: {},
+    initiatorStack,
+    componentName: findInitiatorComponent(initiatorStack),
+  }
+}
+
+function patchFetch(): () => void {
+  const originalFetch = window.fetch
+
+  window.fetch = async function (input: RequestInfo | URL, init?: RequestInit) {
+    const request = input instanceof Request ? input : undefined
+    const record = createRecord(
+      'fetch',
+      init?.method ?? request?.method ?? 'GET',
+      request ? request.url : String(input)
+    )
+    record.requestHeaders = { ...headersToRecord(request?.headers), ...headersToRecord(init?.headers) }
+    const body = describeBody(init?.body)
+    record.requestBody = body.text
+    record.requestBodyKind = body.kind
+    record.requestBodyTruncated = body.truncated
+    record.requestSize = body.size
+    emit(record)
+
+    try {
+      const response = await originalFetch.call(window, input, init)
+      record.status = response.status
+      record.statusText = response.statusText
+      record.responseHeaders = headersToRecord(response.headers)
+      record.duration = performance.now() - record.startTime
+      record.state = 'complete'
+
+      const contentType = response.headers.get('content-type') ?? ''
+      const contentLength = Number(response.headers.get('content-length') ?? NaN)
+      if (!Number.isNaN(contentLength)) record.responseSize = contentLength
+
+      if (TEXT_CONTENT_TYPE.test(contentType) && !(contentLength > MAX_READ_LENGTH)) {
+        // Read a clone so the caller's body stream is untouched
+        response
+          .clone()
+          .text()
+          .then((text) => {
+            record.responseBody = truncateBody(text)
+            record.responseSize ??= byteLength(text)
+            emit(record)
+          })
+          .catch(() => emit(record))
+      } else {
+        emit(record)
+      }
+
+      return response
+    } catch (error) {
+      record.duration = performance.now() - record.startTime
+      record.state = 'error'
+      record.status = 0
+      record.error = error instanceof Error ? error.message : String(error)
+      emit(record)
+      throw error
+    }
+  }
+
+  return () => {
+    window.fetch = originalFetch
+  }
+}
+
+function patchXhr(): () => void {
+  const proto = XMLHttpRequest.prototype
+  const originalOpen = proto.open
+  const originalSend = proto.send
+  const originalSetRequestHeader = proto.setRequestHeader
+  const records = new WeakMap<XMLHttpRequest, NetworkRequest>()
+  // Requests that already have a loadend listener; a reused XHR reports into its current record
+  const listening = new WeakSet<XMLHttpRequest>()
+
+  function handleLoadEnd(this: XMLHttpRequest) {
+    const record = records.get(this)
+    if (!record) return
+
+    record.duration = performance.now() - record.startTime
+    record.status = this.status
+    record.statusText = this.statusText
+    record.responseHeaders = parseRawHeaders(this.getAllResponseHeaders())
+    record.state = this.status === 0 ? 'error' : 'complete'
+    if (this.status === 0) record.error = 'Network error'
+
+    if (this.responseType === '' || this.responseType === 'text') {
+      record.responseBody = truncateBody(this.responseText)
+      record.responseSize = byteLength(this.responseText)
+    } else if (this.responseType === 'json' && this.response !== null) {
+      const text = JSON.stringify(this.response)
+      record.responseBody = truncateBody(text)
+      record.responseSize = byteLength(text)
+    }
+    emit(record)
+  }
+
+  proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+    records.set(this, createRecord('xhr', method, String(url)))
+    return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest)
+  } as XMLHttpRequest['open']
+
+  proto.setRequestHeader = function (this: XMLHttpRequest, name: string, value: string) {
+    const record = records.get(this)
+    if (record) record.requestHeaders[name.toLowerCase()] = value
+    return originalSetRequestHeader.call(this, name, value)
+  }
+
+  proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const record = records.get(this)
+    if (record) {
+      const described = describeBody(body)
+      record.requestBody = described.text
+      record.requestBodyKind = described.kind
+      record.requestBodyTruncated = described.truncated
+      record.requestSize = described.size
+      record.startTime = performance.now()
+      emit(record)
+
+      if (!listening.has(this)) {
+        listening.add(this)
+        this.addEventListener('loadend', handleLoadEnd)
+      }
+    }
+    return originalSend.call(this, body)
+  }
+
+  return () => {
+    proto.open = originalOpen
+    proto.send = originalSend
+    proto.setRequestHeader = originalSetRequestHeader
+  }
+}
+
+/**
+ * Subscribe to network requests made with fetch or XMLHttpRequest
+ * Both are wrapped only while at least one listener is subscribed.
+ * Each request is reported when it starts and again as it completes.
+ * @param listener - Called with a snapshot of the request on every update
+ * @returns Unsubscribe function
+ */
+export function subscribeToNetwork(listener: NetworkListener): () => void {
+  listeners.add(listener)
+
+  if (!restore) {
+    const restoreFetch = patchFetch()
+    const restoreXhr = patchXhr()
+    restore = () => {
+      restoreFetch()
+      restoreXhr()
+    }
+  }
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0 && restore) {
+      restore()
+      restore = null
+    }
+  }
+}
+
+// ============================================================================
+// Export Utilities
+// ============================================================================
+
+/**
+ * Build a cURL command reproducing a captured request
+ */
+export function toCurl(request: NetworkRequest): string {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+  const parts = [`curl ${quote(request.url)}`]
+
+  if (request.method !== 'GET') parts.push(`-X ${request.method}`)
+  Object.entries(request.requestHeaders).forEach(([name, value]) => {
+    parts.push(`-H ${quote(`${name}: ${value}`)}`)
+  })
+  // Only text bodies can be replayed; form data and binary bodies are placeholders
+  if (request.requestBody && request.requestBodyKind === 'text' && !request.requestBodyTruncated) {
+    parts.push(`--data-raw ${quote(request.requestBody)}`)
+  }
+
+  const command = parts.join(' \\\n  ')
+  // A cut body would send the wrong payload, so it's left out with a note
+  return request.requestBodyTruncated
+    ? `# Request body omitted: it was truncated to ${MAX_BODY_LENGTH} chars when captured\n${command}`
+    : command
+}
@@ -0,0 +1,136 @@
+/**
+ * Performance Monitor
+ * Headless FPS, frame-time and heap sampling on a shared animation frame loop
+ */
+
+import { getMemoryInfo } from './utils'
+import { computeFrameTimeStats, FrameTimeBuffer } from './frameStats'
+import type { PerformanceMonitorOptions, PerformanceStats } from './types'
+
+// ============================================================================
+// Shared Frame Loop
+// ============================================================================
+
+const frameListeners = new Set<(now: number) => void>()
+let frameRafId: number | null = null
+
+function tick(now: number) {
+  frameListeners.forEach((listener) => listener(now))
+  frameRafId = frameListeners.size > 0 ? requestAnimationFrame(tick) : null
+}
+
+/**
+ * Run a callback on every animation frame
+ * All subscribers share one `requestAnimationFrame` loop, which stops when the last one leaves.
+ * @returns Unsubscribe function
+ */
+export function subscribeToFrames(listener: (now: number) => void): () => void {
+  frameListeners.add(listener)
+  if (frameRafId === null) frameRafId = requestAnimationFrame(tick)
+
+  return () => {
+    frameListeners.delete(listener)
+    if (frameListeners.size === 0 && frameRafId !== null) {
+      cancelAnimationFrame(frameRafId)
+      frameRafId = null
+    }
+  }
+}
+
+// ============================================================================
+// Performance Monitor
+// ============================================================================
+
+/**
+ * PerformanceMonitor - Emits `PerformanceStats` once per sample interval
+ *
+ * @example
+ * ```ts
+ * const monitor = new PerformanceMonitor({ sampleInterval: 500 })
+ * const unsubscribe = monitor.subscribe((stats) => telemetry.gauge('fps', stats.fps))
+ * monitor.start()
+ * ```
+ */
+export class PerformanceMonitor {
+  private readonly options: Required<PerformanceMonitorOptions>
+  private readonly history: FrameTimeBuffer | null
+
+  private stats: PerformanceStats = { fps: 0, frameTime: 0 }
+  private listeners = new Set<(stats: PerformanceStats) => void>()
+  private stopFrames: (() => void) | null = null
+
+  constructor(options: PerformanceMonitorOptions = {}) {
+    this.options = {
+      sampleInterval: options.sampleInterval ?? 1000,
+      historySize: options.historySize ?? 240,
+      trackMemory: options.trackMemory ?? true,
+    }
+    this.history = this.options.historySize > 0 ? new FrameTimeBuffer(this.options.historySize) : null
+  }
+
+  get isRunning(): boolean {
+    return this.stopFrames !== null
+  }
+
+  start(): void {
+    if (this.stopFrames) return
+
+    let frameCount = 0
+    let windowStart: number | null = null
+    let lastFrame: number | null = null
+
+    this.stopFrames = subscribeToFrames((now) => {
+      // The first frame only anchors the window
+      if (windowStart === null || lastFrame === null) {
+        windowStart = now
+        lastFrame = now
+        return
+      }
+
+      frameCount++
+      this.history?.push(now - lastFrame)
+      lastFrame = now
+
+      const elapsed = now - windowStart
+      if (elapsed < this.options.sampleInterval) return
+
+      this.stats = {
+        fps: Math.round((frameCount * 1000) / elapsed),
+        frameTime: elapsed / frameCount,
+        memory: this.options.trackMemory ? getMemoryInfo() : undefined,
+        frameTimes: this.history ? computeFrameTimeStats(this.history.toArray()) : undefined,
+      }
+      frameCount = 0
+      windowStart = now
+      this.listeners.forEach((listener) => listener(this.stats))
+    })
+  }
+
+  stop(): void {
+    this.stopFrames?.()
+    this.stopFrames = null
+  }
+
+  reset(): void {
+    this.history?.clear()
+    this.stats = { fps: 0, frameTime: 0 }
+  }
+
+  /**
+   * Subscribe to stats, emitted once per sample interval
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (stats: PerformanceStats) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Most recent stats; zeroed until the first interval completes
+   */
+  getStats(): PerformanceStats {
+    return this.stats
+  }
+}
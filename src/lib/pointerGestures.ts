@@ -0,0 +1,115 @@
+/**
+ * Pointer gestures
+ * Tap and tap-and-hold recognition for touch and pen, across same-origin iframes
+ */
+
+import { addDeepListener } from './deepDom'
+import type { PointerGestureHandlers } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Movement in px after which a press is a scroll or drag rather than a tap or hold
+export const TAP_SLOP = 10
+
+// Press duration in ms that makes a hold
+export const HOLD_DELAY = 500
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Recognise taps and holds from pointer events
+ * Only primary pointers of the given types are tracked, so mouse clicks keep their
+ * usual handling. Presses that move more than `TAP_SLOP` are left to the page as
+ * scrolls or drags.
+ *
+ * @param handlers - Tap and hold callbacks
+ * @param pointerTypes - Pointer types to recognise
+ * @returns Function that removes every listener
+ *
+ * @example
+ * ```ts
+ * const remove = addPointerGestures({
+ *   onHold: (event, point) => inspect(deepElementsFromPoint(point.x, point.y)[0]),
+ * })
+ * ```
+ */
+export function addPointerGestures(
+  handlers: PointerGestureHandlers,
+  pointerTypes: string[] = ['touch', 'pen']
+): () => void {
+  let press: {
+    pointerId: number
+    x: number
+    y: number
+    startTime: number
+    timer?: ReturnType<typeof setTimeout>
+  } | null = null
+  let swallowClick = false
+
+  const cancel = () => {
+    if (press?.timer) clearTimeout(press.timer)
+    press = null
+  }
+
+  const removeDown = addDeepListener('pointerdown', (event, offset) => {
+    // A new press, of any pointer type, ends the previous gesture
+    swallowClick = false
+    cancel()
+    if (!event.isPrimary || !pointerTypes.includes(event.pointerType)) return
+
+    const x = event.clientX + offset.x
+    const y = event.clientY + offset.y
+    press = { pointerId: event.pointerId, x, y, startTime: event.timeStamp }
+
+    if (handlers.onHold) {
+      press.timer = setTimeout(() => {
+        press = null
+        swallowClick = handlers.onHold!(event, { x, y }) !== false
+      }, HOLD_DELAY)
+    }
+  })
+
+  const removeMove = addDeepListener('pointermove', (event, offset) => {
+    if (!press || event.pointerId !== press.pointerId) return
+    const dx = event.clientX + offset.x - press.x
+    const dy = event.clientY + offset.y - press.y
+    if (Math.hypot(dx, dy) > TAP_SLOP) cancel()
+  })
+
+  const removeUp = addDeepListener('pointerup', (event) => {
+    if (!press || event.pointerId !== press.pointerId) return
+    const { x, y, startTime } = press
+    cancel()
+    if (handlers.onTap && event.timeStamp - startTime < HOLD_DELAY) {
+      swallowClick = handlers.onTap(event, { x, y }) !== false
+    }
+  })
+
+  const removeCancel = addDeepListener('pointercancel', cancel)
+
+  const removeClick = addDeepListener('click', (event) => {
+    if (!swallowClick) return
+    swallowClick = false
+    event.preventDefault()
+    event.stopPropagation()
+  })
+
+  // Long presses open the context menu on touch devices
+  const removeContextMenu = addDeepListener('contextmenu', (event) => {
+    if (press || swallowClick) event.preventDefault()
+  })
+
+  return () => {
+    cancel()
+    removeDown()
+    removeMove()
+    removeUp()
+    removeCancel()
+    removeClick()
+    removeContextMenu()
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * React commit subscription
+ * Listens to commits through the React DevTools global hook
+ */
+
+import type { FiberRoot } from './reactFiber'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DevToolsGlobalHook {
+  renderers?: Map<number, unknown>
+  supportsFiber?: boolean
+  inject?: (renderer: unknown) => number
+  onCommitFiberRoot?: (rendererId: number, root: FiberRoot, ...rest: unknown[]) => void
+  onCommitFiberUnmount?: (...args: unknown[]) => void
+  checkDCE?: () => void
+}
+
+/**
+ * Called after every React commit with the committed root
+ * @param root - Fiber root whose `current` tree was just committed
+ * @param timestamp - `performance.now()` at commit time
+ */
+export type CommitListener = (root: FiberRoot, timestamp: number) => void
+
+// ============================================================================
+// Hook Installation
+// ============================================================================
+
+const listeners = new Set<CommitListener>()
+let patchedHook: DevToolsGlobalHook | null = null
+
+function getGlobalHook(): DevToolsGlobalHook | undefined {
+  if (typeof window === 'undefined') return undefined
+  return (window as unknown as { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsGlobalHook })
+    .__REACT_DEVTOOLS_GLOBAL_HOOK__
+}
+
+/**
+ * Install a minimal DevTools hook when none is present
+ * React DOM only connects to a hook that exists before it loads, so without the
+ * DevTools extension commit tracking needs this to run before React DOM is imported.
+ */
+export function installReactCommitHook(): void {
+  if (typeof window === 'undefined' || getGlobalHook()) return
+
+  const renderers = new Map<number, unknown>()
+  let nextId = 1
+  const hook: DevToolsGlobalHook = {
+    renderers,
+    supportsFiber: true,
+    inject(renderer) {
+      const id = nextId++
+      renderers.set(id, renderer)
+      return id
+    },
+    onCommitFiberRoot() {},
+    onCommitFiberUnmount() {},
+    checkDCE() {},
+  }
+
+  ;(window as unknown as { __REACT_DEVTOOLS_GLOBAL_HOOK__: DevToolsGlobalHook }).__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook
+}
+
+/**
+ * Whether a React renderer is connected to the DevTools hook
+ * When false, commit listeners will never be called
+ */
+export function isReactCommitHookAvailable(): boolean {
+  const hook = getGlobalHook()
+  return !!hook && (!hook.renderers || hook.renderers.size > 0)
+}
+
+function patchHook(hook: DevToolsGlobalHook) {
+  if (patchedHook === hook) return
+  patchedHook = hook
+
+  const original = hook.onCommitFiberRoot
+  hook.onCommitFiberRoot = function (this: DevToolsGlobalHook, rendererId, root, ...rest) {
+    const result = original?.call(this, rendererId, root, ...rest)
+    const timestamp = performance.now()
+    listeners.forEach((listener) => {
+      try {
+        listener(root, timestamp)
+      } catch (error) {
+        console.warn('[Debug] Commit listener failed:', error)
+      }
+    })
+    return result
+  }
+}
+
+// ============================================================================
+// Subscription
+// ============================================================================
+
+/**
+ * Subscribe to React commits
+ * @param listener - Called after every commit
+ * @returns Unsubscribe function
+ */
+export function subscribeToCommits(listener: CommitListener): () => void {
+  installReactCommitHook()
+  const hook = getGlobalHook()
+  if (hook) patchHook(hook)
+
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * React fiber helpers
+ * Read-only access to React internals for component names and commit walking
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal shape of a React fiber node (fields we read)
+ */
+export interface Fiber {
+  tag: number
+  key?: string | null
+  type: unknown
+  elementType?: unknown
+  stateNode: unknown
+  return: Fiber | null
+  child: Fiber | null
+  sibling: Fiber | null
+  alternate: Fiber | null
+  memoizedProps: unknown
+  memoizedState: unknown
+  /** React 17+ effect flags */
+  flags?: number
+  /** React 16 effect flags */
+  effectTag?: number
+  /** Render time including descendants (development and profiling builds only) */
+  actualDuration?: number
+  /** Context dependencies read during the last render */
+  dependencies?: {
+    firstContext: ContextDependency | null
+  } | null
+  /** JSX location from the Babel/SWC jsx-source transform (React 16-18 development builds) */
+  _debugSource?: { fileName: string; lineNumber: number; columnNumber?: number } | null
+  /** Stack captured where the element was created (React 19 development builds) */
+  _debugStack?: Error | string | null
+}
+
+/**
+ * Context read recorded on a fiber
+ */
+export interface ContextDependency {
+  context: { displayName?: string }
+  memoizedValue: unknown
+  next: ContextDependency | null
+}
+
+/**
+ * Hook node in a function component's memoizedState list
+ */
+export interface HookState {
+  memoizedState: unknown
+  /** Non-null for hooks that can schedule updates (useState, useReducer, ...) */
+  queue: unknown
+  next: HookState | null
+}
+
+/**
+ * Minimal shape of a React fiber root
+ */
+export interface FiberRoot {
+  current: Fiber
+}
+
+// Work tags (stable across React 16-19)
+export const FiberTag = {
+  FunctionComponent: 0,
+  ClassComponent: 1,
+  HostRoot: 3,
+  HostComponent: 5,
+  HostText: 6,
+  ContextConsumer: 9,
+  ContextProvider: 10,
+  ForwardRef: 11,
+  MemoComponent: 14,
+  SimpleMemoComponent: 15,
+} as const
+
+// Set on a component fiber when its render function ran in this commit
+const PERFORMED_WORK = 0b1
+
+// Component types belonging to this toolkit, excluded from profiling
+const debugComponentTypes = new WeakSet<object>()
+
+// ============================================================================
+// Fiber Access
+// ============================================================================
+
+/**
+ * Get the fiber attached to a DOM element by React DOM
+ */
+export function getFiberFromElement(element: Element): Fiber | undefined {
+  const fiberKey = Object.keys(element).find(
+    (key) => key.startsWith('__reactFiber$') || key.startsWith('__reactInternalInstance$')
+  )
+
+  if (!fiberKey) return undefined
+  return (element as unknown as Record<string, Fiber | undefined>)[fiberKey]
+}
+
+/**
+ * Whether the fiber belongs to a user component (function, class, memo, forwardRef)
+ */
+export function isComponentFiber(fiber: Fiber): boolean {
+  return (
+    fiber.tag === FiberTag.FunctionComponent ||
+    fiber.tag === FiberTag.ClassComponent ||
+    fiber.tag === FiberTag.ForwardRef ||
+    fiber.tag === FiberTag.MemoComponent ||
+    fiber.tag === FiberTag.SimpleMemoComponent
+  )
+}
+
+/**
+ * Mark components as part of the debugging toolkit
+ * Their fibers and subtrees are skipped when analysing commits
+ */
+export function registerDebugComponent(...types: object[]): void {
+  types.forEach((type) => debugComponentTypes.add(type))
+}
+
+/**
+ * Whether the fiber is a registered debugging toolkit component
+ */
+export function isDebugComponentFiber(fiber: Fiber): boolean {
+  return typeof fiber.type === 'function' && debugComponentTypes.has(fiber.type)
+}
+
+/**
+ * Display name of a fiber's type, unwrapping memo and forwardRef
+ */
+export function getFiberName(fiber: Fiber): string | undefined {
+  const type = fiber.type as
+    | { displayName?: string; name?: string; render?: { displayName?: string; name?: string }; type?: { displayName?: string; name?: string } }
+    | string
+    | null
+    | undefined
+
+  if (!type || typeof type === 'string') return undefined
+  return (
+    type.displayName ||
+    type.name ||
+    type.render?.displayName ||
+    type.render?.name ||
+    type.type?.displayName ||
+    type.type?.name ||
+    undefined
+  )
+}
+
+/**
+ * Extract React component name from fiber internals
+ */
+export function getReactFiberName(element: HTMLElement): string | undefined {
+  try {
+    let fiber = getFiberFromElement(element) ?? null
+    while (fiber) {
+      const name = getFiberName(fiber)
+      if (name && !name.startsWith('_') && name !== 'div' && name !== 'span') {
+        return name
+      }
+      fiber = fiber.return
+    }
+  } catch {
+    // Ignore errors
+  }
+
+  return undefined
+}
+
+/**
+ * Top-level DOM elements rendered by a fiber (its nearest host descendants)
+ * @param fiber - Component fiber
+ * @param limit - Maximum number of elements to return
+ */
+export function getHostElements(fiber: Fiber, limit = 50): Element[] {
+  if (fiber.tag === FiberTag.HostComponent) {
+    return fiber.stateNode instanceof Element ? [fiber.stateNode] : []
+  }
+
+  const elements: Element[] = []
+  const stack: Fiber[] = fiber.child ? [fiber.child] : []
+
+  while (stack.length > 0 && elements.length < limit) {
+    let node: Fiber | null = stack.pop()!
+    while (node && elements.length < limit) {
+      if (node.tag === FiberTag.HostComponent) {
+        if (node.stateNode instanceof Element) elements.push(node.stateNode)
+      } else if (node.child) {
+        stack.push(node.child)
+      }
+      node = node.sibling
+    }
+  }
+
+  return elements
+}
+
+/**
+ * The committed version of a fiber
+ * Fibers cached on DOM nodes may point to the previous tree; the one whose
+ * root is the root's current tree is the committed one.
+ */
+export function getCurrentFiber(fiber: Fiber): Fiber {
+  if (!fiber.alternate) return fiber
+
+  let node = fiber
+  while (node.return) node = node.return
+  if (node.tag !== FiberTag.HostRoot) return fiber
+
+  const root = node.stateNode as FiberRoot | null
+  return root?.current === node ? fiber : fiber.alternate
+}
+
+/**
+ * Components rendering an element, nearest first, up to the root
+ * The toolkit's own components are skipped.
+ */
+export function getComponentFibers(element: Element): Fiber[] {
+  const fibers: Fiber[] = []
+  const hostFiber = getFiberFromElement(element)
+  let fiber = hostFiber ? getCurrentFiber(hostFiber).return : null
+
+  while (fiber) {
+    if (isComponentFiber(fiber) && !isDebugComponentFiber(fiber)) fibers.push(fiber)
+    fiber = fiber.return
+  }
+
+  return fibers
+}
+
+/**
+ * Outermost element rendered by the nearest component around an element
+ * When the element already is that component's outermost element, the next component up is used.
+ */
+export function getComponentRootElement(element: Element): Element | null {
+  for (const fiber of getComponentFibers(element)) {
+    const [root] = getHostElements(getCurrentFiber(fiber), 1)
+    if (root && root !== element && root.contains(element)) return root
+  }
+
+  return null
+}
+
+// ============================================================================
+// Commit Walking
+// ============================================================================
+
+/**
+ * Whether a fiber rendered in the commit that produced it
+ * Mirrors the check React DevTools uses for "highlight updates"
+ */
+export function didFiberRender(fiber: Fiber): boolean {
+  const prev = fiber.alternate
+  if (!prev) return true
+
+  if (isComponentFiber(fiber)) {
+    const flags = fiber.flags ?? fiber.effectTag ?? 0
+    return (flags & PERFORMED_WORK) === PERFORMED_WORK
+  }
+
+  return prev.memoizedProps !== fiber.memoizedProps || prev.memoizedState !== fiber.memoizedState
+}
+
+/**
+ * Walk the fibers touched by the last commit, skipping subtrees React bailed out of
+ * and the debugging toolkit's own components
+ * @param root - Fiber root passed to onCommitFiberRoot
+ * @param visit - Called for each touched fiber; return false to skip its children
+ */
+export function walkCommittedFibers(root: FiberRoot, visit: (fiber: Fiber) => boolean | void): void {
+  const stack: Fiber[] = []
+  if (root.current.child) stack.push(root.current.child)
+
+  while (stack.length > 0) {
+    let fiber: Fiber | null = stack.pop()!
+    while (fiber) {
+      if (isDebugComponentFiber(fiber)) {
+        fiber = fiber.sibling
+        continue
+      }
+      const descend = visit(fiber) !== false
+      // Identical child pointers mean React reused the whole subtree untouched
+      if (descend && fiber.child && fiber.child !== fiber.alternate?.child) {
+        stack.push(fiber.child)
+      }
+      fiber = fiber.sibling
+    }
+  }
+}
+
+/**
+ * Names of the top-most components that rendered in a commit
+ * Descendants of a rendered component are attributed to it and not listed
+ * @param root - Fiber root passed to onCommitFiberRoot
+ * @param limit - Maximum number of names to return
+ */
+export function getRenderedComponentNames(root: FiberRoot, limit = 5): string[] {
+  const names: string[] = []
+
+  walkCommittedFibers(root, (fiber) => {
+    if (names.length >= limit) return false
+    if (isComponentFiber(fiber) && didFiberRender(fiber)) {
+      const name = getFiberName(fiber)
+      if (name && !names.includes(name)) names.push(name)
+      return false
+    }
+  })
+
+  return names
+}
@@ -0,0 +1,300 @@
+/**
+ * Performance Recorder
+ * Captures FPS, frame time, heap and process samples plus user timing marks,
+ * and exports them as JSON or Chrome Trace Event format
+ */
+
+import { observeLongTasks } from './longTasks'
+import { PerformanceMonitor } from './performanceMonitor'
+import type {
+  PerformanceMarkRecord,
+  PerformanceRecording,
+  PerformanceRecorderOptions,
+  PerformanceSample,
+  ProcessInfo,
+  ProcessMetrics,
+  ProcessSample,
+  LongTaskEvent,
+} from './types'
+
+// ============================================================================
+// Recorder
+// ============================================================================
+
+/**
+ * PerformanceRecorder - Records a performance session between start() and stop()
+ *
+ * @example
+ * ```ts
+ * const recorder = new PerformanceRecorder()
+ * recorder.start()
+ * recorder.mark('open-dialog')
+ * const recording = recorder.stop()
+ * download(exportRecordingAsTrace(recording))
+ * ```
+ */
+export class PerformanceRecorder {
+  private readonly sampleInterval: number
+  private readonly processInterval: number
+  private readonly getProcessInfo?: () => Promise<ProcessInfo | null>
+
+  private recording: PerformanceRecording | null = null
+  private monitor: PerformanceMonitor | null = null
+  private processTimer: ReturnType<typeof setInterval> | null = null
+  private markObserver: PerformanceObserver | null = null
+  private stopLongTasks: (() => void) | null = null
+
+  constructor(options: PerformanceRecorderOptions = {}) {
+    this.sampleInterval = options.sampleInterval ?? 250
+    this.processInterval = options.processInterval ?? 2000
+    this.getProcessInfo = options.getProcessInfo
+  }
+
+  get isRecording(): boolean {
+    return this.recording !== null
+  }
+
+  /**
+   * Start a new recording, discarding any in progress
+   */
+  start(): void {
+    if (this.recording) this.teardown()
+
+    const startTime = performance.now()
+    const recording: PerformanceRecording = {
+      version: 1,
+      startedAt: Date.now(),
+      startTime,
+      duration: 0,
+      url: window.location.href,
+      userAgent: navigator.userAgent,
+      samples: [],
+      processSamples: [],
+      marks: [],
+      longTasks: [],
+    }
+    this.recording = recording
+
+    // Frame sampling
+    this.monitor = new PerformanceMonitor({ sampleInterval: this.sampleInterval, historySize: 0 })
+    this.monitor.subscribe(({ fps, frameTime, memory }) => {
+      recording.samples.push({ timestamp: performance.now(), fps, frameTime, memory })
+    })
+    this.monitor.start()
+
+    // Process sampling
+    if (this.getProcessInfo) {
+      const getProcessInfo = this.getProcessInfo
+      const fetchProcessInfo = async () => {
+        try {
+          const info = await getProcessInfo()
+          if (info && this.recording === recording) {
+            recording.processSamples.push({ timestamp: performance.now(), info })
+          }
+        } catch (error) {
+          console.warn('[Debug] Failed to fetch process info:', error)
+        }
+      }
+      fetchProcessInfo()
+      this.processTimer = setInterval(fetchProcessInfo, this.processInterval)
+    }
+
+    // User timing marks and measures
+    if (typeof PerformanceObserver !== 'undefined' && PerformanceObserver.supportedEntryTypes?.includes('mark')) {
+      this.markObserver = new PerformanceObserver((list) => this.collectMarks(list.getEntries()))
+      this.markObserver.observe({ entryTypes: ['mark', 'measure'] })
+    }
+
+    this.stopLongTasks = observeLongTasks((task: LongTaskEvent) => {
+      if (task.startTime >= startTime) recording.longTasks.push(task)
+    })
+  }
+
+  /**
+   * Add a user mark to the current recording
+   * Also emitted via `performance.mark()` so it shows in browser DevTools
+   */
+  mark(name: string, detail?: string): void {
+    if (!this.recording) return
+    try {
+      performance.mark(name, { detail })
+    } catch {
+      // Older browsers do not accept mark options
+      performance.mark(name)
+    }
+    if (!this.markObserver) {
+      this.recording.marks.push({ name, timestamp: performance.now(), detail })
+    }
+  }
+
+  /**
+   * Stop recording
+   * @returns The finished recording, or null if not recording
+   */
+  stop(): PerformanceRecording | null {
+    const recording = this.recording
+    if (!recording) return null
+
+    if (this.markObserver) this.collectMarks(this.markObserver.takeRecords())
+    this.teardown()
+    recording.duration = performance.now() - recording.startTime
+    return recording
+  }
+
+  private collectMarks(entries: PerformanceEntryList) {
+    const recording = this.recording
+    if (!recording) return
+
+    for (const entry of entries) {
+      if (entry.startTime < recording.startTime) continue
+      const detail = (entry as PerformanceMark).detail
+      recording.marks.push({
+        name: entry.name,
+        timestamp: entry.startTime,
+        duration: entry.entryType === 'measure' ? entry.duration : undefined,
+        detail: typeof detail === 'string' ? detail : undefined,
+      })
+    }
+  }
+
+  private teardown() {
+    this.monitor?.stop()
+    if (this.processTimer !== null) clearInterval(this.processTimer)
+    this.markObserver?.disconnect()
+    this.stopLongTasks?.()
+    this.monitor = null
+    this.processTimer = null
+    this.markObserver = null
+    this.stopLongTasks = null
+    this.recording = null
+  }
+}
+
+// ============================================================================
+// Export Utilities
+// ============================================================================
+
+/**
+ * Serialize a recording as plain JSON
+ */
+export function exportRecordingAsJson(recording: PerformanceRecording): string {
+  return JSON.stringify(recording, null, 2)
+}
+
+// Trace Event process/thread ids
+const TRACE_PID = 1
+const TRACE_TID = 1
+
+interface TraceEvent {
+  name: string
+  ph: 'C' | 'X' | 'i' | 'M'
+  ts: number
+  pid: number
+  tid: number
+  dur?: number
+  s?: 'g' | 'p' | 't'
+  cat?: string
+  args?: Record<string, unknown>
+}
+
+/**
+ * Serialize a recording in Chrome Trace Event format
+ * Loadable in chrome://tracing and ui.perfetto.dev
+ */
+export function exportRecordingAsTrace(recording: PerformanceRecording): string {
+  // Trace timestamps are microseconds relative to recording start
+  const toTs = (timestamp: number) => Math.round((timestamp - recording.startTime) * 1000)
+
+  const events: TraceEvent[] = [
+    { name: 'process_name', ph: 'M', ts: 0, pid: TRACE_PID, tid: TRACE_TID, args: { name: 'Renderer' } },
+    { name: 'thread_name', ph: 'M', ts: 0, pid: TRACE_PID, tid: TRACE_TID, args: { name: 'Main' } },
+  ]
+
+  recording.samples.forEach((sample: PerformanceSample) => {
+    const ts = toTs(sample.timestamp)
+    events.push({ name: 'FPS', ph: 'C', ts, pid: TRACE_PID, tid: TRACE_TID, cat: 'fps', args: { fps: sample.fps } })
+    events.push({ name: 'Frame Time (ms)', ph: 'C', ts, pid: TRACE_PID, tid: TRACE_TID, cat: 'fps', args: { frameTime: Number(sample.frameTime.toFixed(2)) } })
+    if (sample.memory) {
+      events.push({
+        name: 'JS Heap (bytes)',
+        ph: 'C',
+        ts,
+        pid: TRACE_PID,
+        tid: TRACE_TID,
+        cat: 'memory',
+        args: { used: sample.memory.usedJSHeapSize, total: sample.memory.totalJSHeapSize },
+      })
+    }
+  })
+
+  recording.processSamples.forEach(({ timestamp, info }: ProcessSample) => {
+    const ts = toTs(timestamp)
+    if (info.mainProcessMemory) {
+      events.push({
+        name: 'Main Process Memory (bytes)',
+        ph: 'C',
+        ts,
+        pid: TRACE_PID,
+        tid: TRACE_TID,
+        cat: 'process',
+        args: { rss: info.mainProcessMemory.rss, heapUsed: info.mainProcessMemory.heapUsed },
+      })
+    }
+    if (info.processes && info.processes.length > 0) {
+      const key = (p: ProcessMetrics) => `${p.type}-${p.pid}`
+      events.push({
+        name: 'Process Memory (bytes)',
+        ph: 'C',
+        ts,
+        pid: TRACE_PID,
+        tid: TRACE_TID,
+        cat: 'process',
+        args: Object.fromEntries(info.processes.map((p) => [key(p), p.memory ?? 0])),
+      })
+      events.push({
+        name: 'Process CPU (%)',
+        ph: 'C',
+        ts,
+        pid: TRACE_PID,
+        tid: TRACE_TID,
+        cat: 'process',
+        args: Object.fromEntries(info.processes.map((p) => [key(p), p.cpu ?? 0])),
+      })
+    }
+  })
+
+  recording.marks.forEach((mark: PerformanceMarkRecord) => {
+    events.push(
+      mark.duration !== undefined
+        ? { name: mark.name, ph: 'X', ts: toTs(mark.timestamp), dur: Math.round(mark.duration * 1000), pid: TRACE_PID, tid: TRACE_TID, cat: 'user-timing', args: { detail: mark.detail } }
+        : { name: mark.name, ph: 'i', s: 'g', ts: toTs(mark.timestamp), pid: TRACE_PID, tid: TRACE_TID, cat: 'user-timing', args: { detail: mark.detail } }
+    )
+  })
+
+  recording.longTasks.forEach((task) => {
+    events.push({
+      name: 'Long Task',
+      ph: 'X',
+      ts: toTs(task.startTime),
+      dur: Math.round(task.duration * 1000),
+      pid: TRACE_PID,
+      tid: TRACE_TID,
+      cat: task.kind,
+      args: {
+        components: task.components,
+        scripts: task.scripts,
+        interaction: task.interaction,
+      },
+    })
+  })
+
+  return JSON.stringify({
+    traceEvents: events,
+    displayTimeUnit: 'ms',
+    metadata: {
+      url: recording.url,
+      userAgent: recording.userAgent,
+      startedAt: new Date(recording.startedAt).toISOString(),
+    },
+  })
+}
@@ -0,0 +1,188 @@
+/**
+ * Render Profiler
+ * Aggregates React commits into per-component render counts, timings and causes
+ */
+
+import {
+  didFiberRender,
+  FiberTag,
+  getFiberName,
+  isComponentFiber,
+  walkCommittedFibers,
+  type ContextDependency,
+  type Fiber,
+  type FiberRoot,
+  type HookState,
+} from './reactFiber'
+import { subscribeToCommits } from './reactCommits'
+import type { ComponentRenderStats, RenderCause, RenderProfilerSnapshot } from './types'
+
+// Number of recent render causes kept per component
+const MAX_CAUSES = 5
+
+// ============================================================================
+// Render Causes
+// ============================================================================
+
+function shallowChangedKeys(prev: unknown, next: unknown): string[] {
+  if (prev === next) return []
+  if (!prev || !next || typeof prev !== 'object' || typeof next !== 'object') return ['(value)']
+
+  const prevRecord = prev as Record<string, unknown>
+  const nextRecord = next as Record<string, unknown>
+  const keys = new Set([...Object.keys(prevRecord), ...Object.keys(nextRecord)])
+  return Array.from(keys).filter((key) => !Object.is(prevRecord[key], nextRecord[key]))
+}
+
+function changedHookIndices(prev: HookState | null, next: HookState | null): string[] {
+  const changed: string[] = []
+  let index = 0
+  while (prev && next) {
+    // Only stateful hooks can trigger a render; effects get new objects every render
+    if (next.queue && !Object.is(prev.memoizedState, next.memoizedState)) {
+      changed.push(`hook #${index}`)
+    }
+    prev = prev.next
+    next = next.next
+    index++
+  }
+  return changed
+}
+
+function changedContexts(prev: Fiber, next: Fiber): string[] {
+  const changed: string[] = []
+  let prevDep: ContextDependency | null = prev.dependencies?.firstContext ?? null
+  let nextDep: ContextDependency | null = next.dependencies?.firstContext ?? null
+  while (prevDep && nextDep) {
+    if (!Object.is(prevDep.memoizedValue, nextDep.memoizedValue)) {
+      changed.push(nextDep.context.displayName || 'Context')
+    }
+    prevDep = prevDep.next
+    nextDep = nextDep.next
+  }
+  return changed
+}
+
+/**
+ * Work out why a component fiber rendered in the last commit
+ * @param fiber - Component fiber that rendered
+ * @param timestamp - Commit timestamp
+ */
+export function getRenderCause(fiber: Fiber, timestamp: number): RenderCause {
+  const prev = fiber.alternate
+  if (!prev) {
+    return { timestamp, isMount: true, props: [], state: [], context: [], parentRendered: false }
+  }
+
+  const props = shallowChangedKeys(prev.memoizedProps, fiber.memoizedProps)
+  const state =
+    fiber.tag === FiberTag.ClassComponent
+      ? shallowChangedKeys(prev.memoizedState, fiber.memoizedState)
+      : changedHookIndices(prev.memoizedState as HookState | null, fiber.memoizedState as HookState | null)
+  const context = changedContexts(prev, fiber)
+
+  return {
+    timestamp,
+    isMount: false,
+    props,
+    state,
+    context,
+    // Nothing of its own changed, so a parent re-render pulled it along
+    parentRendered: props.length === 0 && state.length === 0 && context.length === 0,
+  }
+}
+
+function getSelfDuration(fiber: Fiber): number {
+  let self = fiber.actualDuration ?? 0
+  let child = fiber.child
+  while (child) {
+    self -= child.actualDuration ?? 0
+    child = child.sibling
+  }
+  return Math.max(0, self)
+}
+
+// ============================================================================
+// Profiler
+// ============================================================================
+
+/**
+ * RenderProfiler - Records React commits into per-component statistics
+ * Timings are only available in development and profiling builds of React
+ */
+export class RenderProfiler {
+  private stats = new Map<string, ComponentRenderStats>()
+  private commitCount = 0
+  private lastCommitDuration: number | undefined
+  private unsubscribe: (() => void) | null = null
+  private version = 0
+
+  get isRecording(): boolean {
+    return this.unsubscribe !== null
+  }
+
+  /**
+   * Incremented on every recorded commit, for cheap change detection
+   */
+  get revision(): number {
+    return this.version
+  }
+
+  start(): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = subscribeToCommits((root, timestamp) => this.recordCommit(root, timestamp))
+  }
+
+  stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  reset(): void {
+    this.stats.clear()
+    this.commitCount = 0
+    this.lastCommitDuration = undefined
+    this.version++
+  }
+
+  /**
+   * Record a single commit
+   * @param root - Committed fiber root
+   * @param timestamp - `performance.now()` at commit time
+   */
+  recordCommit(root: FiberRoot, timestamp: number): void {
+    let touched = false
+
+    walkCommittedFibers(root, (fiber) => {
+      if (!isComponentFiber(fiber) || !didFiberRender(fiber)) return
+
+      const name = getFiberName(fiber) || 'Anonymous'
+      let entry = this.stats.get(name)
+      if (!entry) {
+        entry = { name, renderCount: 0, totalTime: 0, selfTime: 0, causes: [] }
+        this.stats.set(name, entry)
+      }
+
+      entry.renderCount++
+      entry.totalTime += fiber.actualDuration ?? 0
+      entry.selfTime += getSelfDuration(fiber)
+      entry.causes = [getRenderCause(fiber, timestamp), ...entry.causes].slice(0, MAX_CAUSES)
+      touched = true
+    })
+
+    // Commits made only by the toolkit itself are not counted
+    if (!touched) return
+
+    this.commitCount++
+    this.lastCommitDuration = root.current.actualDuration
+    this.version++
+  }
+
+  getSnapshot(): RenderProfilerSnapshot {
+    return {
+      commitCount: this.commitCount,
+      lastCommitDuration: this.lastCommitDuration,
+      components: Array.from(this.stats.values(), (entry) => ({ ...entry, causes: [...entry.causes] })),
+    }
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Selector Engine
+ * Builds selectors from stable attributes and verifies they match exactly one element
+ */
+
+import { getAccessibleName, getAccessibleRole } from './accessibility'
+import { getHostElement, getInnerRoot, getTreeRoot } from './deepDom'
+import type { SelectorOptions, SelectorStrategy } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_SELECTOR_STRATEGIES: SelectorStrategy[] = [
+  'id',
+  'testId',
+  'dataNp',
+  'ariaLabel',
+  'roleName',
+  'classes',
+  'nthOfType',
+]
+
+// Prefix marking selectors that are XPath expressions rather than CSS
+export const XPATH_PREFIX = 'xpath:'
+
+// Joins the selector of a shadow host or iframe to a selector inside its shadow root or document
+export const PIERCE_SEPARATOR = ' >>> '
+
+// Ids generated at runtime (React useId, Radix, Headless UI) change between renders or builds
+const GENERATED_ID_PATTERN = /^:r[0-9a-z]*:$|^«r[0-9a-z]*»$|^radix-|^headlessui-/
+
+// Classes per path segment; more rarely adds stability
+const MAX_CLASSES = 2
+
+// Attributes an accessible name can come from, after aria-labelledby and aria-label
+const NAME_ATTRIBUTES = ['alt', 'title', 'placeholder']
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function attributeSelector(name: string, value: string): string {
+  return `[${name}="${value.replace(/["\\]/g, '\\$&')}"]`
+}
+
+/**
+ * XPath string literal, or null when the value contains both kinds of quote
+ */
+function xpathLiteral(value: string): string | null {
+  if (!value.includes('"')) return `"${value}"`
+  if (!value.includes("'")) return `'${value}'`
+  return null
+}
+
+function escapeIdentifier(value: string): string {
+  return typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value.replace(/[^a-zA-Z0-9_-]/g, '\\$&')
+}
+
+/**
+ * Variant (`hover:`, `md:`) and arbitrary-value (`w-[13px]`) utilities describe state or one-off styling
+ */
+function isStableClass(className: string): boolean {
+  return !className.includes(':') && !className.includes('[')
+}
+
+/**
+ * Whether a selector matches exactly the given element
+ * For composite selectors only the last part is checked, inside the tree its host resolves to.
+ */
+export function isUniqueSelector(selector: string, element: Element, root: ParentNode = document): boolean {
+  const boundary = selector.lastIndexOf(PIERCE_SEPARATOR)
+  if (boundary !== -1) {
+    const host = resolveSelector(selector.slice(0, boundary), root as Document | ShadowRoot)
+    const inner = host && getInnerRoot(host)
+    return !!inner && isUniqueSelector(selector.slice(boundary + PIERCE_SEPARATOR.length), element, inner)
+  }
+
+  try {
+    if (selector.startsWith(XPATH_PREFIX)) {
+      if ((root as Node).nodeType !== Node.DOCUMENT_NODE) return false
+      const doc = root as Document
+      const result = doc.evaluate(selector.slice(XPATH_PREFIX.length), doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null)
+      return result.snapshotLength === 1 && result.snapshotItem(0) === element
+    }
+    const matches = root.querySelectorAll(selector)
+    return matches.length === 1 && matches[0] === element
+  } catch {
+    // Invalid selector
+    return false
+  }
+}
+
+/**
+ * Role plus accessible name, matched on whatever the name comes from
+ * The role is the tag's implicit role unless a role attribute sets it. Names from aria-labelledby,
+ * aria-label, alt, title or placeholder become attribute selectors; names from content need an
+ * `xpath:` selector, which can't reach into shadow roots.
+ */
+function fromRoleName(element: Element): string | null {
+  const name = getAccessibleName(element)
+  if (!getAccessibleRole(element) || !name) return null
+
+  const tag = element.tagName.toLowerCase()
+  const role = element.getAttribute('role')
+  const base = tag + (role ? attributeSelector('role', role) : '')
+
+  const labelledBy = element.getAttribute('aria-labelledby')
+  if (labelledBy) return base + attributeSelector('aria-labelledby', labelledBy)
+
+  const attribute = ['aria-label', ...NAME_ATTRIBUTES].find((a) => element.getAttribute(a)?.trim() === name)
+  if (attribute) return base + attributeSelector(attribute, element.getAttribute(attribute)!)
+
+  const nameLiteral = xpathLiteral(name)
+  const roleLiteral = role ? xpathLiteral(role) : ''
+  if (getTreeRoot(element).nodeType !== Node.DOCUMENT_NODE || !nameLiteral || roleLiteral === null) return null
+  return `${XPATH_PREFIX}//${tag}${role ? `[@role=${roleLiteral}]` : ''}[normalize-space()=${nameLiteral}]`
+}
+
+/**
+ * Selector for the element itself using one strategy, or null if the strategy doesn't apply
+ */
+function fromStrategy(element: Element, strategy: SelectorStrategy): string | null {
+  const tag = element.tagName.toLowerCase()
+
+  switch (strategy) {
+    case 'id':
+      return element.id && !GENERATED_ID_PATTERN.test(element.id) ? `#${escapeIdentifier(element.id)}` : null
+    case 'testId': {
+      const testId = element.getAttribute('data-testid')
+      return testId ? attributeSelector('data-testid', testId) : null
+    }
+    case 'dataNp': {
+      const np = element.getAttribute('data-np')
+      return np ? attributeSelector('data-np', np) : null
+    }
+    case 'ariaLabel': {
+      const label = element.getAttribute('aria-label')
+      return label ? tag + attributeSelector('aria-label', label) : null
+    }
+    case 'roleName':
+      return fromRoleName(element)
+    case 'classes': {
+      const classes = Array.from(element.classList).filter(isStableClass).slice(0, MAX_CLASSES)
+      return classes.length > 0 ? tag + classes.map((c) => `.${escapeIdentifier(c)}`).join('') : null
+    }
+    case 'nthOfType':
+      return null
+  }
+}
+
+/**
+ * Path segment for one level: the most specific enabled strategy plus nth-of-type when needed
+ */
+function getSegment(element: Element, strategies: SelectorStrategy[]): string {
+  const tag = element.tagName.toLowerCase()
+  const base = strategies.includes('classes') ? fromStrategy(element, 'classes') ?? tag : tag
+
+  if (!strategies.includes('nthOfType')) return base
+
+  // parentNode rather than parentElement, so children of a shadow root are counted too
+  const parent = element.parentNode as ParentNode | null
+  const sameType = parent ? Array.from(parent.children).filter((child) => child.tagName === element.tagName) : []
+  if (sameType.length <= 1) return base
+  return `${base}:nth-of-type(${sameType.indexOf(element) + 1})`
+}
+
+// ============================================================================
+// XPath
+// ============================================================================
+
+/**
+ * Absolute XPath for an element, anchored at the nearest ancestor with a stable id
+ */
+export function getXPath(element: Element): string {
+  const steps: string[] = []
+  let current: Element | null = element
+
+  while (current && current.nodeType === Node.ELEMENT_NODE) {
+    if (current !== element && current.id && !GENERATED_ID_PATTERN.test(current.id)) {
+      steps.unshift(`//*[@id="${current.id.replace(/"/g, '')}"]`)
+      return steps.join('/')
+    }
+
+    const tag = current.tagName.toLowerCase()
+    const parent: Element | null = current.parentElement
+    const sameType = parent ? Array.from(parent.children).filter((child) => child.tagName === current!.tagName) : []
+    steps.unshift(sameType.length > 1 ? `${tag}[${sameType.indexOf(current) + 1}]` : tag)
+    current = parent
+  }
+
+  return '/' + steps.join('/')
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Selector for an element within its own document or shadow root
+ */
+function generateLocalSelector(element: Element, options: SelectorOptions): string {
+  const { strategies = DEFAULT_SELECTOR_STRATEGIES, maxDepth = 10, xpathFallback = true } = options
+  const root = getTreeRoot(element)
+  const doc = element.ownerDocument
+
+  // A single stable attribute is the most readable and robust
+  for (const strategy of strategies) {
+    const selector = fromStrategy(element, strategy)
+    if (selector && isUniqueSelector(selector, element, root)) return selector
+  }
+
+  // Path from the element up to the first uniquely identifiable ancestor
+  const segments: string[] = []
+  let current: Element | null = element
+  while (current && current !== doc.documentElement && segments.length < maxDepth) {
+    segments.unshift(getSegment(current, strategies))
+    const path = segments.join(' > ')
+    if (isUniqueSelector(path, element, root)) return path
+
+    const parent: Element | null = current.parentElement
+    if (parent && parent !== doc.body && parent !== doc.documentElement) {
+      const anchor = strategies
+        .map((strategy) => (strategy === 'classes' ? null : fromStrategy(parent, strategy)))
+        // An xpath: anchor can't be joined to a CSS path
+        .find(
+          (selector): selector is string =>
+            !!selector && !selector.startsWith(XPATH_PREFIX) && isUniqueSelector(selector, parent, root)
+        )
+      if (anchor) {
+        const anchored = `${anchor} > ${path}`
+        if (isUniqueSelector(anchored, element, root)) return anchored
+      }
+    }
+    current = parent
+  }
+
+  const fullPath = segments.join(' > ')
+  // XPath can't reach into shadow roots
+  if (!xpathFallback || root.nodeType !== Node.DOCUMENT_NODE) return fullPath
+  return XPATH_PREFIX + getXPath(element)
+}
+
+/**
+ * Generate a selector that matches only this element
+ * Tries single-attribute strategies first, then builds a path up to a unique ancestor,
+ * and falls back to an `xpath:` selector when no CSS selector is unique.
+ * Elements inside open shadow roots or same-origin iframes get a composite selector:
+ * the host's selector, ` >>> `, then the selector inside it.
+ *
+ * @example
+ * ```ts
+ * generateSelector(button) // '[data-testid="save"]'
+ * generateSelector(cell, { strategies: ['id', 'nthOfType'] }) // '#grid > div:nth-of-type(3) > span'
+ * generateSelector(input) // 'date-picker >>> input.day'
+ * generateSelector(cell) // 'iframe#report-preview >>> table > tr:nth-of-type(2) > td'
+ * ```
+ */
+export function generateSelector(element: Element, options: SelectorOptions = {}): string {
+  const selector = generateLocalSelector(element, options)
+  const host = getHostElement(element)
+  return host ? generateSelector(host, options) + PIERCE_SEPARATOR + selector : selector
+}
+
+function resolveLocalSelector(selector: string, root: Document | ShadowRoot): Element | null {
+  try {
+    if (selector.startsWith(XPATH_PREFIX)) {
+      if (root.nodeType !== Node.DOCUMENT_NODE) return null
+      const doc = root as Document
+      const result = doc.evaluate(selector.slice(XPATH_PREFIX.length), doc, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null)
+      // Checked by node type, since frame documents come from another realm
+      return result.singleNodeValue?.nodeType === Node.ELEMENT_NODE ? (result.singleNodeValue as Element) : null
+    }
+    return root.querySelector(selector)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Find the element a selector refers to
+ * Understands `xpath:` selectors and composite ` >>> ` selectors into open shadow roots and
+ * same-origin iframes, and returns null for invalid ones instead of throwing.
+ */
+export function resolveSelector(selector: string, root: Document | ShadowRoot = document): Element | null {
+  const [first, ...rest] = selector.split(PIERCE_SEPARATOR)
+  let element = resolveLocalSelector(first, root)
+
+  for (const part of rest) {
+    const inner = element && getInnerRoot(element)
+    if (!inner) return null
+    element = resolveLocalSelector(part, inner)
+  }
+
+  return element
+}
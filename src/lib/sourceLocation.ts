@@ -0,0 +1,141 @@
+/**
+ * Source locations
+ * Resolves where an element's JSX was written and opens it in an editor
+ */
+
+import { getCurrentFiber, getFiberFromElement, type Fiber } from './reactFiber'
+import type { EditorScheme, EditorTarget, SourceLocation } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EDITOR_URL_TEMPLATES: Record<EditorScheme, string> = {
+  vscode: 'vscode://file{file}:{line}:{column}',
+  'vscode-insiders': 'vscode-insiders://file{file}:{line}:{column}',
+  cursor: 'cursor://file{file}:{line}:{column}',
+  windsurf: 'windsurf://file{file}:{line}:{column}',
+  zed: 'zed://file{file}:{line}:{column}',
+  idea: 'idea://open?file={file}&line={line}&column={column}',
+  webstorm: 'webstorm://open?file={file}&line={line}&column={column}',
+}
+
+// Stack frames from React itself, bundled dependencies and libraries
+const LIBRARY_FRAME_PATTERN = /node_modules|react-dom|jsx-dev-runtime|jsx-runtime|react_jsx|\/\.vite\/deps\//
+
+// `at Name (url:line:col)`, `at url:line:col` and Firefox/Safari `name@url:line:col`
+const STACK_FRAME_PATTERN = /(?:\(|@|at )((?:https?|file):\/\/[^\s)]+|\/[^\s)]+):(\d+):(\d+)\)?\s*$/
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function toFilePath(location: string): string {
+  try {
+    const url = new URL(location)
+    const path = decodeURIComponent(url.pathname)
+    if (url.protocol === 'file:') return path
+    // Vite serves files outside its root from /@fs/<absolute path>
+    return path.startsWith('/@fs/') ? path.slice('/@fs'.length) : path
+  } catch {
+    return location
+  }
+}
+
+/**
+ * First application frame of a React 19 element creation stack
+ * Line numbers refer to the code the dev server sent, which may differ slightly from the file.
+ */
+function parseDebugStack(stack: Error | string): SourceLocation | undefined {
+  const text = typeof stack === 'string' ? stack : stack.stack
+  if (!text) return undefined
+
+  for (const line of text.split('\n')) {
+    if (LIBRARY_FRAME_PATTERN.test(line)) continue
+    const match = line.match(STACK_FRAME_PATTERN)
+    if (match) {
+      return { fileName: toFilePath(match[1]), lineNumber: Number(match[2]), columnNumber: Number(match[3]) }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Where a fiber's JSX was written, without looking at its parents
+ */
+export function getFiberSource(fiber: Fiber): SourceLocation | undefined {
+  if (fiber._debugSource) {
+    const { fileName, lineNumber, columnNumber } = fiber._debugSource
+    return { fileName, lineNumber, columnNumber }
+  }
+  return fiber._debugStack ? parseDebugStack(fiber._debugStack) : undefined
+}
+
+/**
+ * Where an element's JSX was written
+ * Elements created inside libraries resolve to the nearest JSX in application code.
+ * Returns undefined in production builds, which strip debug information.
+ */
+export function getSourceLocation(element: Element): SourceLocation | undefined {
+  try {
+    const hostFiber = getFiberFromElement(element)
+    let fiber = hostFiber ? getCurrentFiber(hostFiber) : null
+    while (fiber) {
+      const source = getFiberSource(fiber)
+      if (source) return source
+      fiber = fiber.return
+    }
+  } catch {
+    // Ignore errors
+  }
+
+  return undefined
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * `path:line:column` reference, as understood by editors and terminals
+ * @param short - Only include the file name, not the directory
+ */
+export function formatSourceLocation(source: SourceLocation, short = false): string {
+  const file = short ? source.fileName.split(/[\\/]/).pop() || source.fileName : source.fileName
+  return `${file}:${source.lineNumber}${source.columnNumber !== undefined ? `:${source.columnNumber}` : ''}`
+}
+
+// ============================================================================
+// Opening
+// ============================================================================
+
+/**
+ * URL that opens a source location in an editor
+ * @param editor - Editor scheme or URL template with `{file}`, `{line}` and `{column}`
+ * `{file}` is an absolute path with forward slashes and a leading slash.
+ */
+export function getEditorUrl(source: SourceLocation, editor: Exclude<EditorTarget, (source: SourceLocation) => void> = 'vscode'): string {
+  const template = editor in EDITOR_URL_TEMPLATES ? EDITOR_URL_TEMPLATES[editor as EditorScheme] : editor
+  // Forward slashes with a leading slash, so Windows paths become /C:/...
+  const path = source.fileName.replace(/\\/g, '/')
+  const file = path.startsWith('/') ? path : `/${path}`
+
+  return template
+    .replace(/\{file\}/g, encodeURI(file))
+    .replace(/\{line\}/g, String(source.lineNumber))
+    .replace(/\{column\}/g, String(source.columnNumber ?? 1))
+}
+
+/**
+ * Open a source location in an editor
+ * In Electron, pass a callback that opens `getEditorUrl(source)` with `shell.openExternal`
+ * in the main process instead of navigating the window.
+ */
+export function openInEditor(source: SourceLocation, editor: EditorTarget = 'vscode'): void {
+  if (typeof editor === 'function') {
+    editor(source)
+    return
+  }
+  window.location.assign(getEditorUrl(source, editor))
+}
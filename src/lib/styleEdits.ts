@@ -0,0 +1,235 @@
+/**
+ * Style Edits
+ * Live class and inline style editing with a session change log, revert and diff export
+ */
+
+import { DEBUG_UI_SELECTOR } from './utils'
+import { getElementInfo } from './elementInfo'
+import { formatSourceLocation } from './sourceLocation'
+import type { StyleChange, StyleSnapshot } from './types'
+
+// ============================================================================
+// Store
+// ============================================================================
+
+type StyleChangeListener = (changes: StyleChange[]) => void
+
+// Elements scanned for autocomplete suggestions
+const MAX_SCANNED_ELEMENTS = 5000
+
+let changes: StyleChange[] = []
+let nextChangeId = 1
+const listeners = new Set<StyleChangeListener>()
+
+function notify() {
+  listeners.forEach((listener) => listener(changes))
+}
+
+function takeSnapshot(element: HTMLElement): StyleSnapshot {
+  return { classList: [...element.classList], style: element.getAttribute('style') ?? '' }
+}
+
+function isSameSnapshot(a: StyleSnapshot, b: StyleSnapshot): boolean {
+  return a.style === b.style && a.classList.join(' ') === b.classList.join(' ')
+}
+
+/**
+ * Apply an edit to an element and record it against the element's change
+ */
+function recordEdit(element: HTMLElement, edit: (disabled: Set<string>) => void): void {
+  const existing = changes.find((change) => change.element === element)
+
+  // Element details are taken before the first edit, so the selector matches the original markup
+  let base: Omit<StyleChange, 'after' | 'disabledClasses' | 'timestamp'>
+  if (existing) {
+    base = existing
+  } else {
+    const info = getElementInfo(element)
+    base = {
+      id: `style-${nextChangeId++}`,
+      element,
+      elementInfo: {
+        tagName: info.tagName,
+        id: info.id,
+        uniqueSelector: info.uniqueSelector,
+        componentName: info.componentName,
+        textContent: info.textContent,
+      },
+      source: info.source,
+      before: takeSnapshot(element),
+    }
+  }
+
+  const disabled = new Set(existing?.disabledClasses)
+  edit(disabled)
+  const after = takeSnapshot(element)
+  const others = changes.filter((change) => change !== existing)
+
+  // Edited back to how it started: nothing left to record
+  if (isSameSnapshot(base.before, after) && disabled.size === 0) {
+    changes = others
+  } else {
+    const change = { ...base, after, disabledClasses: [...disabled], timestamp: Date.now() }
+    changes = existing ? changes.map((c) => (c === existing ? change : c)) : [...others, change]
+  }
+  notify()
+}
+
+/**
+ * Edits made this session, in the order elements were first edited
+ */
+export function getStyleChanges(): StyleChange[] {
+  return changes
+}
+
+/**
+ * Classes switched off on an element with `setClassEnabled`
+ */
+export function getDisabledClasses(element: HTMLElement): string[] {
+  return changes.find((change) => change.element === element)?.disabledClasses ?? []
+}
+
+/**
+ * Subscribe to change log updates
+ * @returns Unsubscribe function
+ */
+export function subscribeToStyleChanges(listener: StyleChangeListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * Add one or more space-separated classes
+ */
+export function addClass(element: HTMLElement, className: string): void {
+  const names = className.split(/\s+/).filter(Boolean)
+  if (names.length === 0) return
+  recordEdit(element, (disabled) => {
+    names.forEach((name) => disabled.delete(name))
+    element.classList.add(...names)
+  })
+}
+
+export function removeClass(element: HTMLElement, className: string): void {
+  recordEdit(element, (disabled) => {
+    disabled.delete(className)
+    element.classList.remove(className)
+  })
+}
+
+/**
+ * Switch a class off or back on without forgetting it
+ */
+export function setClassEnabled(element: HTMLElement, className: string, enabled: boolean): void {
+  recordEdit(element, (disabled) => {
+    if (enabled) {
+      disabled.delete(className)
+      element.classList.add(className)
+    } else {
+      disabled.add(className)
+      element.classList.remove(className)
+    }
+  })
+}
+
+/**
+ * Set an inline style property; an empty value removes it
+ * @param value - CSS value, optionally ending in `!important`
+ */
+export function setInlineStyle(element: HTMLElement, property: string, value: string): void {
+  const name = property.trim()
+  if (!name) return
+  const important = /\s*!important\s*$/i
+  recordEdit(element, () => {
+    const trimmed = value.trim()
+    if (trimmed) {
+      element.style.setProperty(name, trimmed.replace(important, ''), important.test(trimmed) ? 'important' : '')
+    } else {
+      element.style.removeProperty(name)
+    }
+    if (element.getAttribute('style') === '') element.removeAttribute('style')
+  })
+}
+
+// ============================================================================
+// Revert
+// ============================================================================
+
+function restore(change: StyleChange) {
+  const { element, before } = change
+  if (before.classList.length > 0) element.setAttribute('class', before.classList.join(' '))
+  else element.removeAttribute('class')
+  if (before.style) element.setAttribute('style', before.style)
+  else element.removeAttribute('style')
+}
+
+/**
+ * Restore an element's original classes and inline style
+ */
+export function revertStyleChange(element: HTMLElement): void {
+  const change = changes.find((c) => c.element === element)
+  if (!change) return
+  restore(change)
+  changes = changes.filter((c) => c !== change)
+  notify()
+}
+
+export function revertAllStyleChanges(): void {
+  changes.forEach(restore)
+  changes = []
+  notify()
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Changes as a unified-style diff of each element's class list and inline style
+ */
+export function formatStyleDiff(list: StyleChange[] = changes): string {
+  return list
+    .map((change) => {
+      const { elementInfo, before, after } = change
+      const label = elementInfo.componentName
+        ? `${elementInfo.uniqueSelector} (${elementInfo.componentName})`
+        : elementInfo.uniqueSelector
+      const lines = [`--- ${label}`, `+++ ${label}`]
+      if (change.source) lines.push(`# ${formatSourceLocation(change.source)}`)
+      if (before.classList.join(' ') !== after.classList.join(' ')) {
+        lines.push(`-class="${before.classList.join(' ')}"`, `+class="${after.classList.join(' ')}"`)
+      }
+      if (before.style !== after.style) {
+        lines.push(`-style="${before.style}"`, `+style="${after.style}"`)
+      }
+      return lines.join('\n')
+    })
+    .join('\n\n')
+}
+
+// ============================================================================
+// Autocomplete
+// ============================================================================
+
+/**
+ * Classes used on the page, for autocomplete
+ */
+export function getPageClassNames(): string[] {
+  const names = new Set<string>()
+  const elements = document.body.querySelectorAll('[class]')
+  const count = Math.min(elements.length, MAX_SCANNED_ELEMENTS)
+
+  for (let i = 0; i < count; i++) {
+    const element = elements[i]
+    if (element.closest(DEBUG_UI_SELECTOR)) continue
+    element.classList.forEach((name) => names.add(name))
+  }
+
+  return [...names].sort()
+}
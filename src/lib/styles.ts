@@ -0,0 +1,206 @@
+/**
+ * Style helpers
+ * Box model, grouped computed styles, custom properties and class rule matching
+ */
+
+import type { BoxEdges, BoxModel, ClassRuleMatch, ComputedStyleGroup } from './types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STYLE_GROUPS: Record<ComputedStyleGroup['name'], string[]> = {
+  layout: [
+    'display',
+    'position',
+    'top',
+    'right',
+    'bottom',
+    'left',
+    'z-index',
+    'width',
+    'height',
+    'box-sizing',
+    'overflow',
+    'flex-direction',
+    'flex-wrap',
+    'justify-content',
+    'align-items',
+    'gap',
+    'grid-template-columns',
+    'grid-template-rows',
+    'transform',
+  ],
+  typography: [
+    'font-family',
+    'font-size',
+    'font-weight',
+    'line-height',
+    'letter-spacing',
+    'text-align',
+    'text-transform',
+    'white-space',
+  ],
+  colors: ['color', 'background-color', 'background-image', 'border-color', 'outline-color', 'box-shadow', 'opacity'],
+}
+
+// Values that are the initial value for most properties and add noise
+const DEFAULT_VALUES = new Set(['none', 'normal', 'auto', 'static', '0px', 'rgba(0, 0, 0, 0)', 'visible', 'nowrap'])
+
+// Declarations listed per class
+const MAX_DECLARATIONS = 6
+
+// ============================================================================
+// Box Model
+// ============================================================================
+
+function readEdges(style: CSSStyleDeclaration, prefix: string, suffix = ''): BoxEdges {
+  const read = (side: string) => parseFloat(style.getPropertyValue(`${prefix}-${side}${suffix}`)) || 0
+  return { top: read('top'), right: read('right'), bottom: read('bottom'), left: read('left') }
+}
+
+/**
+ * Margin, border, padding and content sizes of an element
+ */
+export function getBoxModel(element: Element): BoxModel {
+  const style = getComputedStyle(element)
+  const rect = element.getBoundingClientRect()
+  const border = readEdges(style, 'border', '-width')
+  const padding = readEdges(style, 'padding')
+
+  return {
+    margin: readEdges(style, 'margin'),
+    border,
+    padding,
+    content: {
+      width: Math.max(0, rect.width - border.left - border.right - padding.left - padding.right),
+      height: Math.max(0, rect.height - border.top - border.bottom - padding.top - padding.bottom),
+    },
+  }
+}
+
+// ============================================================================
+// Computed Styles
+// ============================================================================
+
+/**
+ * Computed styles grouped into layout, typography and colours
+ * Properties at their usual default value are left out.
+ */
+export function getComputedStyleGroups(element: Element): ComputedStyleGroup[] {
+  const style = getComputedStyle(element)
+
+  return (Object.keys(STYLE_GROUPS) as ComputedStyleGroup['name'][]).map((name) => ({
+    name,
+    properties: STYLE_GROUPS[name]
+      .map((property) => ({ name: property, value: style.getPropertyValue(property).trim() }))
+      .filter(({ name: property, value }) => value && (property === 'display' || !DEFAULT_VALUES.has(value))),
+  }))
+}
+
+// ============================================================================
+// Stylesheet Rules
+// ============================================================================
+
+interface FlatRule {
+  rule: CSSStyleRule
+  conditions: string[]
+}
+
+/**
+ * All style rules on the page, flattened out of @media, @supports and @layer blocks
+ * Cross-origin stylesheets can't be read and are skipped.
+ */
+function getStyleRules(): FlatRule[] {
+  const rules: FlatRule[] = []
+
+  const walk = (list: CSSRuleList, conditions: string[]) => {
+    for (const rule of Array.from(list)) {
+      if (rule instanceof CSSStyleRule) {
+        rules.push({ rule, conditions })
+      } else if (rule instanceof CSSMediaRule) {
+        walk(rule.cssRules, [...conditions, `@media ${rule.conditionText}`])
+      } else if ('cssRules' in rule) {
+        // @supports, @layer, @container
+        const condition = 'conditionText' in rule ? String((rule as CSSConditionRule).conditionText) : ''
+        walk((rule as CSSGroupingRule).cssRules, condition ? [...conditions, condition] : conditions)
+      }
+    }
+  }
+
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      walk(sheet.cssRules, [])
+    } catch {
+      // Cross-origin stylesheet
+    }
+  }
+
+  return rules
+}
+
+function matchesSafely(element: Element, selector: string): boolean {
+  try {
+    return element.matches(selector)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Stylesheet declarations behind each class on an element, e.g. Tailwind utilities
+ * Only rules whose selector mentions the class and currently matches the element are included.
+ */
+export function getClassRules(element: Element): ClassRuleMatch[] {
+  const classes = Array.from(element.classList)
+  if (classes.length === 0) return []
+
+  const rules = getStyleRules()
+
+  return classes.map((className) => {
+    const classSelector = `.${CSS.escape(className)}`
+    const declarations: string[] = []
+    const conditions = new Set<string>()
+
+    for (const { rule, conditions: ruleConditions } of rules) {
+      if (!rule.selectorText.includes(classSelector)) continue
+      // Variant rules (hover:, focus:) only match in that state
+      if (!matchesSafely(element, rule.selectorText) && !rule.selectorText.includes(':')) continue
+
+      for (let i = 0; i < rule.style.length && declarations.length < MAX_DECLARATIONS; i++) {
+        const property = rule.style[i]
+        declarations.push(`${property}: ${rule.style.getPropertyValue(property).trim()}`)
+      }
+      ruleConditions.forEach((condition) => conditions.add(condition))
+    }
+
+    return { className, declarations, conditions: Array.from(conditions) }
+  })
+}
+
+/**
+ * CSS custom properties that resolve to a value on the element
+ * Names are collected from stylesheets and inline styles, then read from the computed style.
+ */
+export function getCustomProperties(element: Element): Array<{ name: string; value: string }> {
+  const names = new Set<string>()
+
+  for (const { rule } of getStyleRules()) {
+    for (let i = 0; i < rule.style.length; i++) {
+      if (rule.style[i].startsWith('--')) names.add(rule.style[i])
+    }
+  }
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const inline = (current as HTMLElement).style
+    if (!inline) continue
+    for (let i = 0; i < inline.length; i++) {
+      if (inline[i].startsWith('--')) names.add(inline[i])
+    }
+  }
+
+  const style = getComputedStyle(element)
+  return Array.from(names)
+    .map((name) => ({ name, value: style.getPropertyValue(name).trim() }))
+    .filter(({ value }) => value !== '')
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
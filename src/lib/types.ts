@@ -1,3 +1,5 @@
+import type { ReactNode } from 'react'
+
 /**
  * Position options for debug overlays
  */
@@ -8,6 +10,26 @@ export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom
  */
 export type AnnotationStatus = 'pending' | 'in-progress' | 'resolved' | 'dismissed'
 
+/**
+ * Sizes of the four sides of a box edge in px
+ */
+export interface BoxEdges {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+/**
+ * CSS box model of an element in px
+ */
+export interface BoxModel {
+  margin: BoxEdges
+  border: BoxEdges
+  padding: BoxEdges
+  content: { width: number; height: number }
+}
+
 /**
  * Element information extracted by the inspector
  */
@@ -17,6 +39,7 @@ export interface ElementInfo {
   classList: string[]
   dimensions: { width: number; height: number }
   position: { x: number; y: number }
+  boxModel: BoxModel
   componentName?: string
   npComment?: string
   uniqueSelector: string
@@ -25,6 +48,76 @@ export interface ElementInfo {
   textContent?: string
   role?: string
   dataTestId?: string
+  /** Where the element's JSX was written (development builds only) */
+  source?: SourceLocation
+}
+
+/**
+ * File position of the JSX that created an element
+ * Paths from React 19 owner stacks are dev-server URL paths such as `/src/App.tsx`.
+ */
+export interface SourceLocation {
+  fileName: string
+  lineNumber: number
+  columnNumber?: number
+}
+
+/**
+ * Editors with a built-in URL scheme for opening files
+ */
+export type EditorScheme = 'vscode' | 'vscode-insiders' | 'cursor' | 'windsurf' | 'zed' | 'idea' | 'webstorm'
+
+/**
+ * How "Open in editor" opens a source location
+ * - An editor scheme, e.g. `'cursor'`
+ * - A URL template with `{file}`, `{line}` and `{column}` placeholders
+ * - A callback, e.g. to call a dev-server endpoint or Electron IPC
+ */
+export type EditorTarget = EditorScheme | `${string}{file}${string}` | ((source: SourceLocation) => void)
+
+/**
+ * Computed style properties shown together in the style panel
+ */
+export interface ComputedStyleGroup {
+  name: 'layout' | 'typography' | 'colors'
+  properties: Array<{ name: string; value: string }>
+}
+
+/**
+ * Class on an element with the declarations of the stylesheet rules it matches
+ */
+export interface ClassRuleMatch {
+  className: string
+  /** Declarations from matching rules, e.g. `padding: 1rem` */
+  declarations: string[]
+  /** Media or container condition the rules are nested in, if any */
+  conditions: string[]
+}
+
+/**
+ * Classes and inline style of an element at one point in time
+ */
+export interface StyleSnapshot {
+  classList: string[]
+  /** `style` attribute, empty when there is none */
+  style: string
+}
+
+/**
+ * Live class and inline style edits made to one element this session
+ */
+export interface StyleChange {
+  id: string
+  element: HTMLElement
+  /** Element as it was before the first edit */
+  elementInfo: DebugAnnotation['elementInfo']
+  source?: SourceLocation
+  before: StyleSnapshot
+  after: StyleSnapshot
+  /** Classes switched off, kept so they can be switched back on */
+  disabledClasses: string[]
+  /** Time of the latest edit */
+  timestamp: number
 }
 
 /**
@@ -44,6 +137,32 @@ export interface DebugAnnotation {
   aiPrompt?: string
   timestamp: number
   status: AnnotationStatus
+  /** Page URL the annotation was created on */
+  url?: string
+  /** Source location of the annotated element */
+  source?: SourceLocation
+  /** Metric snapshot attached to generated annotations (e.g. budget violations) */
+  metrics?: Record<string, number>
+}
+
+/**
+ * Rolling frame-time statistics (frame times in ms, lows in FPS)
+ */
+export interface FrameTimeStats {
+  /** Per-frame deltas in the history window, oldest first */
+  samples: number[]
+  p95: number
+  p99: number
+  /** Average FPS of the slowest 1% of frames */
+  low1: number
+  /** Average FPS of the slowest 5% of frames */
+  low5: number
+  /** Number of frames over 16.7ms, 33.3ms and 50ms */
+  jank: {
+    over16: number
+    over33: number
+    over50: number
+  }
 }
 
 /**
@@ -57,10 +176,89 @@ export interface PerformanceStats {
     totalJSHeapSize: number
     jsHeapSizeLimit: number
   }
+  frameTimes?: FrameTimeStats
+}
+
+/**
+ * Options for PerformanceMonitor and usePerformanceStats
+ */
+export interface PerformanceMonitorOptions {
+  /**
+   * Interval between emitted stats in ms
+   * @default 1000
+   */
+  sampleInterval?: number
+  /**
+   * Number of frames kept for `frameTimes`; 0 disables frame-time stats
+   * @default 240
+   */
+  historySize?: number
+  /**
+   * Include JS heap usage where `performance.memory` is available
+   * @default true
+   */
+  trackMemory?: boolean
+}
+
+/**
+ * Long task entry type being observed
+ */
+export type LongTaskKind = 'longtask' | 'long-animation-frame'
+
+/**
+ * Script attributed to a long task
+ */
+export interface LongTaskScript {
+  /** What invoked the script, e.g. "BUTTON#save.onclick" or "TimerHandler:setTimeout" */
+  invoker?: string
+  sourceURL?: string
+  functionName?: string
+  duration: number
+}
+
+/**
+ * Blocking task reported by the long task monitor
+ */
+export interface LongTaskEvent {
+  id: string
+  kind: LongTaskKind
+  /** `performance.now()` timestamp of the task start */
+  startTime: number
+  duration: number
+  /** Portion of the frame that blocked input (long-animation-frame only) */
+  blockingDuration?: number
+  scripts: LongTaskScript[]
+  /** Top-most React components that committed during the task */
+  components: string[]
+  /** User interaction that started just before or during the task */
+  interaction?: {
+    type: string
+    componentName?: string
+  }
+}
+
+/**
+ * Kind of process reported in `ProcessInfo.processes`
+ */
+export type ProcessType = 'main' | 'renderer' | 'gpu' | 'utility' | 'other'
+
+/**
+ * Metrics for a single app process (main, renderer, GPU, utility, ...)
+ */
+export interface ProcessMetrics {
+  pid: number
+  type: ProcessType
+  /** Display name, e.g. a utility process service name */
+  name?: string
+  /** CPU usage in percent of one core */
+  cpu?: number
+  /** Resident memory in bytes */
+  memory?: number
 }
 
 /**
  * Process information from backend
+ * Only `pid` and `platform` are required; the overlay shows whatever else is provided.
  */
 export interface ProcessInfo {
   pid: number
@@ -71,6 +269,575 @@ export interface ProcessInfo {
     heapUsed: number
     external: number
   }
+  /** Main process CPU usage in percent of one core */
+  cpu?: number
+  /** Main process uptime in seconds */
+  uptime?: number
+  /** Every process of the app, including the main process */
+  processes?: ProcessMetrics[]
+}
+
+/**
+ * Single sample in a performance recording
+ */
+export interface PerformanceSample {
+  /** `performance.now()` timestamp */
+  timestamp: number
+  fps: number
+  frameTime: number
+  memory?: PerformanceStats['memory']
+}
+
+/**
+ * Process info sample in a performance recording
+ */
+export interface ProcessSample {
+  /** `performance.now()` timestamp */
+  timestamp: number
+  info: ProcessInfo
+}
+
+/**
+ * User timing mark or measure captured during a recording
+ */
+export interface PerformanceMarkRecord {
+  name: string
+  /** `performance.now()` timestamp */
+  timestamp: number
+  /** Set for `performance.measure()` entries */
+  duration?: number
+  detail?: string
+}
+
+/**
+ * Recorded performance session
+ */
+export interface PerformanceRecording {
+  version: 1
+  /** Wall-clock start time (epoch ms) */
+  startedAt: number
+  /** `performance.now()` at start; all timestamps share this clock */
+  startTime: number
+  duration: number
+  url: string
+  userAgent: string
+  samples: PerformanceSample[]
+  processSamples: ProcessSample[]
+  marks: PerformanceMarkRecord[]
+  longTasks: LongTaskEvent[]
+}
+
+/**
+ * Options for PerformanceRecorder
+ */
+export interface PerformanceRecorderOptions {
+  /**
+   * Interval between FPS/heap samples in ms
+   * @default 250
+   */
+  sampleInterval?: number
+  /**
+   * Interval between process info samples in ms
+   * @default 2000
+   */
+  processInterval?: number
+  /**
+   * Optional function to fetch process info from backend
+   */
+  getProcessInfo?: () => Promise<ProcessInfo | null>
+}
+
+/**
+ * Console levels captured by the console panel
+ */
+export type ConsoleLevel = 'log' | 'warn' | 'error'
+
+/**
+ * Captured console message or runtime error
+ */
+export interface ConsoleEntry {
+  id: string
+  level: ConsoleLevel
+  /** console call, window error, unhandled rejection, or error boundary */
+  source: 'console' | 'runtime' | 'promise' | 'react'
+  message: string
+  /** Wall-clock time (epoch ms) */
+  timestamp: number
+  stack?: string
+  /** React component stack, for errors caught by DebugErrorBoundary */
+  componentStack?: string
+}
+
+/**
+ * Props for DebugErrorBoundary
+ */
+export interface DebugErrorBoundaryProps {
+  children?: ReactNode
+  /**
+   * Rendered after an error; a function receives the error and a reset callback
+   */
+  fallback?: ReactNode | ((error: Error, reset: () => void) => ReactNode)
+  onError?: (error: Error, componentStack?: string) => void
+}
+
+/**
+ * Options for the console panel
+ */
+export interface ConsolePanelOptions {
+  /**
+   * Position of the panel
+   * @default "bottom-left"
+   */
+  position?: OverlayPosition
+  className?: string
+}
+
+/**
+ * Network request captured by the network monitor
+ */
+export interface NetworkRequest {
+  id: string
+  type: 'fetch' | 'xhr'
+  method: string
+  /** Absolute URL */
+  url: string
+  state: 'pending' | 'complete' | 'error'
+  /** HTTP status; 0 for network errors */
+  status?: number
+  statusText?: string
+  /** `performance.now()` timestamp when the request was sent */
+  startTime: number
+  duration?: number
+  requestHeaders: Record<string, string>
+  responseHeaders: Record<string, string>
+  /** Text body, or a placeholder such as "[Blob 12 bytes]" */
+  requestBody?: string
+  requestBodyKind?: 'text' | 'form-data' | 'binary'
+  /** Whether the captured request body was cut to the capture limit */
+  requestBodyTruncated?: boolean
+  responseBody?: string
+  /** Request body size in bytes */
+  requestSize?: number
+  /** Response size in bytes (Content-Length, or decoded body length) */
+  responseSize?: number
+  error?: string
+  initiatorStack?: string
+  /** React component that started the request, when it can be found */
+  componentName?: string
+}
+
+/**
+ * Options for the network panel
+ */
+export interface NetworkPanelOptions {
+  /**
+   * Position of the panel
+   * @default "bottom-left"
+   */
+  position?: OverlayPosition
+  /**
+   * Maximum number of requests kept
+   * @default 200
+   */
+  maxRequests?: number
+  className?: string
+}
+
+/**
+ * Core Web Vitals metric names
+ */
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB'
+
+/**
+ * Web Vitals rating bands
+ */
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor'
+
+/**
+ * Measured Web Vital with the elements responsible for it
+ */
+export interface WebVitalMetric {
+  name: WebVitalName
+  /** Milliseconds, except CLS which is unitless */
+  value: number
+  rating: WebVitalRating
+  /** LCP element, shifted nodes, or slow interaction target */
+  elements: Element[]
+}
+
+/**
+ * Current Web Vitals; metrics not yet measured are absent
+ */
+export type WebVitals = Partial<Record<WebVitalName, WebVitalMetric>>
+
+/**
+ * Options for the Web Vitals panel
+ */
+export interface WebVitalsPanelOptions {
+  /**
+   * Position of the panel
+   * @default "top-left"
+   */
+  position?: OverlayPosition
+  className?: string
+}
+
+/**
+ * Result of a least-squares linear fit
+ */
+export interface LinearTrend {
+  /** Growth per minute (bytes, nodes or listeners) */
+  slope: number
+  intercept: number
+  /** Coefficient of determination, 0-1 */
+  r2: number
+}
+
+/**
+ * Single memory monitor sample
+ */
+export interface MemorySample {
+  /** `performance.now()` timestamp */
+  timestamp: number
+  heapUsed?: number
+  /** Main process RSS, when `getProcessInfo` is supplied */
+  mainProcessRss?: number
+  domNodes: number
+  /** Approximate number of registered event listeners */
+  listeners?: number
+  /** Nodes with listeners that are detached from the document but not collected */
+  detachedNodes?: number
+}
+
+/**
+ * Memory trend analysis produced by MemoryMonitor
+ */
+export interface MemoryReport {
+  samples: MemorySample[]
+  /** Time covered by the samples in ms */
+  duration: number
+  heapTrend?: LinearTrend
+  mainProcessTrend?: LinearTrend
+  domNodeTrend?: LinearTrend
+  listenerTrend?: LinearTrend
+  navigations: number
+  interactions: number
+  /** Human-readable descriptions of suspected leaks */
+  warnings: string[]
+  leaking: boolean
+}
+
+/**
+ * Options for MemoryMonitor
+ */
+export interface MemoryMonitorOptions {
+  /**
+   * Interval between samples in ms
+   * @default 5000
+   */
+  sampleInterval?: number
+  /**
+   * Number of samples kept
+   * @default 120
+   */
+  maxSamples?: number
+  /**
+   * Heap growth in bytes per minute (or per navigation) treated as a leak
+   * @default 1048576
+   */
+  growthThreshold?: number
+  /**
+   * Minimum sampled time before trends are judged, in ms
+   * @default 120000
+   */
+  minDuration?: number
+  /**
+   * Count event listeners by patching EventTarget while running
+   * @default false
+   */
+  trackListeners?: boolean
+  /**
+   * Optional function to fetch process info; adds main process memory to samples
+   */
+  getProcessInfo?: () => Promise<ProcessInfo | null>
+}
+
+/**
+ * Kind of hook, inferred from the shape of its memoized state
+ * - state: useState, useReducer and other hooks with an update queue
+ * - effect: useEffect, useLayoutEffect, useInsertionEffect (value is the deps array)
+ * - memo: useMemo, useCallback (value is the memoized value)
+ */
+export type HookKind = 'state' | 'effect' | 'ref' | 'memo' | 'other'
+
+/**
+ * One hook of a function component, in call order
+ */
+export interface HookValue {
+  index: number
+  kind: HookKind
+  value: unknown
+}
+
+/**
+ * Props, state, hooks and context of a component fiber
+ */
+export interface ComponentInspection {
+  name: string
+  key?: string | null
+  props: Record<string, unknown>
+  /** Class component state */
+  state?: unknown
+  /** Function component hooks */
+  hooks: HookValue[]
+  /** Context values read during the last render */
+  contexts: Array<{ name: string; value: unknown }>
+}
+
+/**
+ * Expandable child of a value in the component value tree
+ */
+export interface ValueEntry {
+  key: string
+  value: unknown
+}
+
+/**
+ * One mounted instance of a component, found by name
+ */
+export interface ComponentInstance {
+  name: string
+  /** 1-based position among the matches, in tree order */
+  index: number
+  /** Outermost DOM elements the instance rendered; empty when it renders nothing */
+  elements: Element[]
+  /** One-line `key=value` previews of the props, without children */
+  propsSummary: string
+  /** Where the instance's JSX was written */
+  source?: SourceLocation
+}
+
+/**
+ * Hook options for Component Search
+ */
+export interface ComponentSearchOptions {
+  enabled: boolean
+  /**
+   * Component name to search for when the search opens or the value changes
+   */
+  initialQuery?: string
+  /**
+   * Callback when the search should be closed (ESC)
+   */
+  onClose?: () => void
+  className?: string
+}
+
+/**
+ * Accessibility rules checked by the audit
+ * - name: interactive control or image without an accessible name
+ * - contrast: text below the WCAG AA contrast ratio
+ * - focusable: interactive element that can't be reached with the keyboard
+ * - tabindex: positive tabindex that overrides the natural tab order
+ */
+export type AccessibilityRule = 'name' | 'contrast' | 'focusable' | 'tabindex'
+
+/**
+ * Accessibility problem found on an element
+ */
+export interface AccessibilityViolation {
+  rule: AccessibilityRule
+  severity: 'error' | 'warning'
+  message: string
+  element: Element
+}
+
+/**
+ * Text/background contrast of an element's own text
+ */
+export interface ContrastResult {
+  ratio: number
+  /** Colours as `rgb()` after blending transparent layers */
+  foreground: string
+  background: string
+  /** 24px+, or 18.66px+ bold */
+  largeText: boolean
+  /** Passes WCAG AA: 4.5:1, or 3:1 for large text */
+  aa: boolean
+  /** Passes WCAG AAA: 7:1, or 4.5:1 for large text */
+  aaa: boolean
+  /** A background image, gradient or unsupported colour format was involved */
+  estimated: boolean
+}
+
+/**
+ * Accessibility details of a single element
+ */
+export interface AccessibilityReport {
+  /** Explicit or implicit ARIA role */
+  role?: string
+  /** Computed accessible name, empty when there is none */
+  name: string
+  /** Present when the element has text of its own */
+  contrast?: ContrastResult
+  focusable: boolean
+  /** 1-based position in the keyboard tab order, if reachable with Tab */
+  tabOrder?: number
+  /** Number of elements in the tab order */
+  tabStops: number
+  violations: AccessibilityViolation[]
+}
+
+/**
+ * Accessibility panel options
+ */
+export interface AccessibilityPanelOptions {
+  /**
+   * Element to audit, e.g. the inspector's selection
+   */
+  element?: HTMLElement | null
+  /**
+   * Position of the panel
+   * @default "top-left"
+   */
+  position?: OverlayPosition
+  className?: string
+}
+
+/**
+ * Why a component rendered in a commit
+ */
+export interface RenderCause {
+  /** `performance.now()` timestamp of the commit */
+  timestamp: number
+  isMount: boolean
+  /** Prop keys whose values changed */
+  props: string[]
+  /** Class state keys, or "hook #n" for changed useState/useReducer hooks */
+  state: string[]
+  /** Display names of contexts whose values changed */
+  context: string[]
+  /** Nothing changed locally; rendered because a parent did */
+  parentRendered: boolean
+}
+
+/**
+ * Aggregated render statistics for one component name
+ */
+export interface ComponentRenderStats {
+  name: string
+  renderCount: number
+  /** Total render time including children (ms) */
+  totalTime: number
+  /** Render time excluding children (ms) */
+  selfTime: number
+  /** Most recent render causes, newest first */
+  causes: RenderCause[]
+}
+
+/**
+ * Point-in-time view of the render profiler
+ */
+export interface RenderProfilerSnapshot {
+  commitCount: number
+  lastCommitDuration?: number
+  components: ComponentRenderStats[]
+}
+
+/**
+ * Metrics a performance budget can constrain
+ * - fps: minimum frames per second
+ * - frameTime: maximum average frame time (ms)
+ * - heapUsed: maximum JS heap (bytes)
+ * - longTask: maximum long task duration (ms)
+ */
+export type BudgetMetric = 'fps' | 'frameTime' | 'heapUsed' | 'longTask'
+
+/**
+ * Performance budget declaration
+ *
+ * @example
+ * ```ts
+ * { metric: 'fps', threshold: 50, route: '/dashboard' }
+ * { metric: 'heapUsed', threshold: 300 * 1024 * 1024 }
+ * { metric: 'longTask', threshold: 200 }
+ * ```
+ */
+export interface PerformanceBudget {
+  /** Stable id; defaults to metric and index */
+  id?: string
+  metric: BudgetMetric
+  /** Minimum for fps, maximum for every other metric */
+  threshold: number
+  /** Only enforce on matching pathnames (string prefix or RegExp) */
+  route?: string | RegExp
+  /**
+   * How long the metric must stay out of budget before it counts, in ms
+   * Ignored for long tasks, where each task is judged on its own
+   * @default 2000
+   */
+  sustainFor?: number
+  /** Display label; generated from the metric and threshold if omitted */
+  label?: string
+}
+
+/**
+ * Metric values captured when a budget was checked
+ */
+export interface BudgetSnapshot {
+  /** Omitted for long-task violations, which are reported outside the frame sampling */
+  fps?: number
+  frameTime?: number
+  heapUsed?: number
+  /** Longest recent long task (ms) */
+  longTask?: number
+}
+
+/**
+ * A broken budget
+ */
+export interface BudgetViolation {
+  budgetId: string
+  label: string
+  metric: BudgetMetric
+  value: number
+  threshold: number
+  /** Wall-clock time (epoch ms) */
+  timestamp: number
+  url: string
+  snapshot: BudgetSnapshot
+  /** Focused element, or the element under the pointer */
+  elementInfo?: ElementInfo
+}
+
+/**
+ * Current pass/fail state of a budget
+ */
+export interface BudgetStatus {
+  id: string
+  label: string
+  budget: PerformanceBudget
+  /** Inactive budgets do not match the current route */
+  state: 'pass' | 'fail' | 'inactive'
+  value?: number
+  violationCount: number
+  lastViolation?: BudgetViolation
+}
+
+/**
+ * Options for the performance budget panel
+ */
+export interface BudgetPanelOptions {
+  /**
+   * Current budget statuses, e.g. from `BudgetMonitor.subscribe`
+   */
+  statuses: BudgetStatus[]
+  /**
+   * Position of the panel
+   * @default "top-left"
+   */
+  position?: OverlayPosition
+  className?: string
 }
 
 /**
@@ -91,6 +858,36 @@ export interface FPSOverlayOptions {
   position?: OverlayPosition
   showMemory?: boolean
   showProcessInfo?: boolean
+  /**
+   * Show the frame-time history graph with percentiles and jank counts
+   * @default true
+   */
+  showHistory?: boolean
+  /**
+   * Number of frames kept in the history ring buffer
+   * @default 240
+   */
+  historySize?: number
+  /**
+   * Show recent long tasks with script and component attribution
+   * @default true
+   */
+  showLongTasks?: boolean
+  /**
+   * Sample memory over time and warn about sustained growth
+   * Requires `showMemory`
+   * @default true
+   */
+  detectLeaks?: boolean
+  /**
+   * Count event listeners during leak detection by patching EventTarget.prototype
+   * @default false
+   */
+  trackListeners?: boolean
+  /**
+   * Budget statuses to alert on; failing budgets are shown in red
+   */
+  budgetStatuses?: BudgetStatus[]
   className?: string
   /**
    * Optional function to fetch process info from backend
@@ -99,11 +896,230 @@ export interface FPSOverlayOptions {
   getProcessInfo?: () => Promise<ProcessInfo | null>
 }
 
+/**
+ * Options for the render profiler panel
+ */
+export interface RenderProfilerPanelOptions {
+  /**
+   * Position of the panel
+   * @default "bottom-left"
+   */
+  position?: OverlayPosition
+  className?: string
+}
+
+/**
+ * Options for the re-render highlighter
+ */
+export interface RenderHighlighterOptions {
+  enabled: boolean
+  /**
+   * How long each outline stays visible in ms
+   * @default 600
+   */
+  flashDuration?: number
+}
+
+/**
+ * Way of building a selector, tried in order by the selector engine
+ * - `id` - `#id`, skipping generated ids such as React `useId` values
+ * - `testId` - `[data-testid="..."]`
+ * - `dataNp` - `[data-np="..."]`
+ * - `ariaLabel` - `tag[aria-label="..."]`
+ * - `roleName` - role plus accessible name: an attribute selector when the name comes from
+ *   aria-labelledby, aria-label, alt, title or placeholder, else an `xpath:` text match
+ * - `classes` - tag plus stable classes (no variant or arbitrary-value utilities)
+ * - `nthOfType` - `tag:nth-of-type(n)` path segments
+ */
+export type SelectorStrategy = 'id' | 'testId' | 'dataNp' | 'ariaLabel' | 'roleName' | 'classes' | 'nthOfType'
+
+/**
+ * Options for selector generation
+ */
+export interface SelectorOptions {
+  /**
+   * Strategies in order of preference
+   * @default ['id', 'testId', 'dataNp', 'ariaLabel', 'roleName', 'classes', 'nthOfType']
+   */
+  strategies?: SelectorStrategy[]
+  /**
+   * Maximum number of path segments before giving up on CSS
+   * @default 10
+   */
+  maxDepth?: number
+  /**
+   * Return an `xpath:` selector when no unique CSS selector is found
+   * @default true
+   */
+  xpathFallback?: boolean
+}
+
+/**
+ * Element whose box moved or resized
+ * `layout-shift` changes come from the browser's layout shift entries; the rest from geometry sampling.
+ */
+export interface LayoutChange {
+  kind: 'layout-shift' | 'move' | 'resize'
+  element: Element
+  rect: DOMRectReadOnly
+  previousRect?: DOMRectReadOnly
+  /** Layout shift score of the entry the element belonged to */
+  value?: number
+  /** Whether the shift followed recent user input (excluded from CLS) */
+  hadRecentInput?: boolean
+  /** `performance.now()` timestamp */
+  timestamp: number
+}
+
+/**
+ * Options for the layout shift visualizer
+ */
+export interface LayoutShiftVisualizerOptions {
+  enabled: boolean
+  /**
+   * How long each flash stays visible in ms
+   * @default 1000
+   */
+  flashDuration?: number
+  /**
+   * Also flash elements that moved or resized between frames without a reported layout shift
+   * @default true
+   */
+  trackGeometry?: boolean
+  /**
+   * Called when a flashed region is clicked
+   */
+  onElementSelect?: (element: HTMLElement, info: ElementInfo) => void
+}
+
+/**
+ * Test framework a locator is written for
+ * - testing-library: `screen` queries from Testing Library
+ * - playwright: `page` locators from Playwright Test
+ * - cypress: `cy.findBy*` queries from @testing-library/cypress, `cy.get` for selectors
+ */
+export type LocatorFramework = 'testing-library' | 'playwright' | 'cypress'
+
+/**
+ * What a test locator matches on, in Testing Library's order of preference
+ */
+export type LocatorStrategy = 'role' | 'label' | 'placeholder' | 'text' | 'altText' | 'title' | 'testId' | 'selector'
+
+/**
+ * Locator for an element in one test framework
+ */
+export interface TestLocator {
+  framework: LocatorFramework
+  strategy: LocatorStrategy
+  code: string
+  /** Elements the locator matches in the live DOM; 1 when it is unique */
+  matchCount: number
+  /** False when the page was too large to check every element, so the count may be low */
+  verified: boolean
+}
+
+/**
+ * Offset of an iframe's viewport from the top-level viewport
+ */
+export interface FrameOffset {
+  x: number
+  y: number
+}
+
+/**
+ * Callbacks for touch and pen gestures
+ * `point` is where the press started, in top-level viewport coordinates. Return false
+ * to leave the gesture to the page; otherwise the click (and, after a hold, the context
+ * menu) that follows is swallowed.
+ */
+export interface PointerGestureHandlers {
+  /** Short press that didn't move */
+  onTap?: (event: PointerEvent, point: { x: number; y: number }) => boolean | void
+  /** Press held still for the hold delay */
+  onHold?: (event: PointerEvent, point: { x: number; y: number }) => boolean | void
+}
+
+/**
+ * Line segment in viewport coordinates
+ */
+export interface MeasureLine {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+/**
+ * Distance between an edge of the reference element and an edge of the measured element
+ */
+export interface Measurement {
+  axis: 'horizontal' | 'vertical'
+  /** Side of the measured element the distance is on */
+  side: 'top' | 'right' | 'bottom' | 'left'
+  /** Distance in CSS pixels */
+  distance: number
+  /** Line drawn between the two edges */
+  line: MeasureLine
+  /** Dashed lines extending an edge that doesn't reach the measurement line */
+  extensions: MeasureLine[]
+}
+
+/**
+ * Measure tool options
+ */
+export interface MeasureToolOptions {
+  enabled: boolean
+  /**
+   * Show the grid overlay when the tool opens
+   * @default false
+   */
+  showGrid?: boolean
+  /**
+   * Grid spacing in px
+   * @default 8
+   */
+  gridSize?: number
+  /**
+   * Baseline spacing in px, 0 to hide baselines
+   * @default 0
+   */
+  baseline?: number
+  /**
+   * Callback when the tool should be disabled (ESC with nothing pinned)
+   */
+  onDisable?: () => void
+  className?: string
+}
+
 /**
  * Hook options for Element Inspector
  */
 export interface ElementInspectorOptions {
   enabled: boolean
+  /**
+   * Selected element, kept highlighted with its info shown
+   * Omit to let the inspector track clicks itself; pass null to clear.
+   */
+  selectedElement?: HTMLElement | null
+  /**
+   * Show box model, computed styles, custom properties and class rules for the selected element
+   * @default true
+   */
+  showStyles?: boolean
+  /**
+   * Show props, state, hooks, context and owners of the selected element's component
+   * @default true
+   */
+  showComponent?: boolean
+  /**
+   * How "Open in editor" opens source locations
+   * @default "vscode"
+   */
+  editor?: EditorTarget
+  /**
+   * Selector strategies in order of preference
+   */
+  selectorStrategies?: SelectorStrategy[]
   onElementSelect?: (element: HTMLElement, info: ElementInfo) => void
   onDisable?: () => void
   className?: string
@@ -114,6 +1130,15 @@ export interface ElementInspectorOptions {
  */
 export interface AnnotationSystemOptions {
   enabled: boolean
+  /**
+   * How "Open in editor" opens source locations
+   * @default "vscode"
+   */
+  editor?: EditorTarget
+  /**
+   * Selector strategies in order of preference
+   */
+  selectorStrategies?: SelectorStrategy[]
   onAnnotationCountChange?: (count: number) => void
   /**
    * Custom storage key for localStorage
@@ -136,4 +1161,22 @@ export interface DebugOverlayOptions {
    * Optional function to get process info (for FPS overlay)
    */
   getProcessInfo?: () => Promise<ProcessInfo | null>
+  /**
+   * Performance budgets to enforce while debug mode is open
+   */
+  budgets?: PerformanceBudget[]
+  /**
+   * Create a DebugAnnotation for each budget violation
+   * @default true
+   */
+  annotateBudgetViolations?: boolean
+  /**
+   * Selector strategies used by the inspector and annotations, in order of preference
+   */
+  selectorStrategies?: SelectorStrategy[]
+  /**
+   * How "Open in editor" opens source locations of inspected elements and annotations
+   * @default "vscode"
+   */
+  editor?: EditorTarget
 }
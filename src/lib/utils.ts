@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import type { PerformanceStats } from './types'
 
 /**
  * Utility function to merge class names with tailwind-merge support
@@ -32,6 +33,35 @@ export function getFpsColor(fps: number): string {
   return 'text-red-400'
 }
 
+/**
+ * Read JS heap usage (Chromium only)
+ * @returns Heap sizes in bytes, or undefined if unavailable
+ */
+export function getMemoryInfo(): PerformanceStats['memory'] {
+  const memory = (performance as unknown as { memory?: NonNullable<PerformanceStats['memory']> }).memory
+  if (!memory) return undefined
+  return {
+    usedJSHeapSize: memory.usedJSHeapSize,
+    totalJSHeapSize: memory.totalJSHeapSize,
+    jsHeapSizeLimit: memory.jsHeapSizeLimit,
+  }
+}
+
+/**
+ * Trigger a browser download of text content
+ * @param filename - Suggested file name
+ * @param content - File content
+ * @param type - MIME type
+ */
+export function downloadFile(filename: string, content: string, type = 'application/json'): void {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
 /**
  * Generate unique ID for annotations
  * @returns Unique ID string
@@ -40,6 +70,11 @@ export function generateId(): string {
   return `anno-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
 }
 
+/**
+ * Matches the toolkit's own UI, which inspectors and page scans skip
+ */
+export const DEBUG_UI_SELECTOR = '[data-debug-overlay], [data-debug-panel], [data-debug-inspector], [data-debug-annotation]'
+
 /**
  * Position styles for overlays
  */
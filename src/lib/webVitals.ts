@@ -0,0 +1,182 @@
+/**
+ * Web Vitals
+ * Tracks LCP, CLS, INP, FCP and TTFB with the elements responsible for them
+ */
+
+import type { WebVitalMetric, WebVitalName, WebVitalRating, WebVitals } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface LCPEntry extends PerformanceEntry {
+  element: Element | null
+  renderTime: number
+  loadTime: number
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number
+  hadRecentInput: boolean
+  sources?: Array<{ node: Node | null }>
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number
+  target?: Node | null
+}
+
+// ============================================================================
+// Thresholds
+// ============================================================================
+
+/**
+ * [good, poor] thresholds per metric (ms, except CLS)
+ */
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+}
+
+function rate(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name]
+  if (value <= good) return 'good'
+  if (value <= poor) return 'needs-improvement'
+  return 'poor'
+}
+
+function toElement(node: Node | null | undefined): Element | null {
+  if (!node) return null
+  return node instanceof Element ? node : node.parentElement
+}
+
+// ============================================================================
+// Observer
+// ============================================================================
+
+function observe(type: string, callback: (entries: PerformanceEntryList) => void, options: Record<string, unknown> = {}) {
+  if (typeof PerformanceObserver === 'undefined') return null
+  if (!PerformanceObserver.supportedEntryTypes?.includes(type)) return null
+
+  try {
+    const observer = new PerformanceObserver((list) => callback(list.getEntries()))
+    observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit)
+    return observer
+  } catch {
+    return null
+  }
+}
+
+// CLS session windows: shifts less than 1s apart, capped at 5s
+const CLS_SESSION_GAP = 1000
+const CLS_SESSION_MAX = 5000
+
+// Event timing entries shorter than this are not reported by the browser
+const EVENT_DURATION_THRESHOLD = 40
+
+/**
+ * Observe Core Web Vitals for the current page
+ * Metrics the browser cannot measure are left out of the result
+ * @param onChange - Called with all metrics whenever one changes
+ * @returns Stop function
+ */
+export function observeWebVitals(onChange: (vitals: WebVitals) => void): () => void {
+  const vitals: WebVitals = {}
+  const observers: PerformanceObserver[] = []
+
+  const report = (name: WebVitalName, value: number, elements: Element[]) => {
+    const metric: WebVitalMetric = { name, value, rating: rate(name, value), elements }
+    vitals[name] = metric
+    onChange({ ...vitals })
+  }
+
+  // TTFB from the navigation entry
+  const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[]
+  if (navigation && navigation.responseStart > 0) {
+    report('TTFB', navigation.responseStart, [])
+  }
+
+  // FCP
+  const fcp = observe('paint', (entries) => {
+    const entry = entries.find((e) => e.name === 'first-contentful-paint')
+    if (entry) report('FCP', entry.startTime, [])
+  })
+  if (fcp) observers.push(fcp)
+
+  // LCP: the latest candidate wins
+  const lcp = observe('largest-contentful-paint', (entries) => {
+    const entry = entries[entries.length - 1] as LCPEntry | undefined
+    if (entry) report('LCP', entry.startTime, entry.element ? [entry.element] : [])
+  })
+  if (lcp) observers.push(lcp)
+
+  // CLS: largest session window of unexpected shifts
+  let sessionValue = 0
+  let sessionStart = 0
+  let sessionLast = 0
+  let sessionNodes: Element[] = []
+  let worstValue = -1
+  const cls = observe('layout-shift', (entries) => {
+    for (const entry of entries as LayoutShiftEntry[]) {
+      if (entry.hadRecentInput) continue
+
+      const continues =
+        sessionValue > 0 &&
+        entry.startTime - sessionLast < CLS_SESSION_GAP &&
+        entry.startTime - sessionStart < CLS_SESSION_MAX
+      if (!continues) {
+        sessionValue = 0
+        sessionStart = entry.startTime
+        sessionNodes = []
+      }
+
+      sessionValue += entry.value
+      sessionLast = entry.startTime
+      for (const source of entry.sources ?? []) {
+        const element = toElement(source.node)
+        if (element && !sessionNodes.includes(element)) sessionNodes.push(element)
+      }
+
+      if (sessionValue > worstValue) {
+        worstValue = sessionValue
+        report('CLS', sessionValue, [...sessionNodes])
+      }
+    }
+  })
+  if (cls) {
+    observers.push(cls)
+    if (!vitals.CLS) report('CLS', 0, [])
+  }
+
+  // INP: worst interaction, skipping one outlier per 50 interactions (p98)
+  const interactions = new Map<number, { duration: number; target: Element | null }>()
+  const inp = observe(
+    'event',
+    (entries) => {
+      let changed = false
+      for (const entry of entries as EventTimingEntry[]) {
+        if (!entry.interactionId) continue
+        const existing = interactions.get(entry.interactionId)
+        if (!existing || entry.duration > existing.duration) {
+          interactions.set(entry.interactionId, {
+            duration: entry.duration,
+            target: toElement(entry.target) ?? existing?.target ?? null,
+          })
+          changed = true
+        }
+      }
+      if (!changed) return
+
+      const sorted = Array.from(interactions.values()).sort((a, b) => b.duration - a.duration)
+      const worst = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length / 50))]
+      report('INP', worst.duration, worst.target ? [worst.target] : [])
+    },
+    { durationThreshold: EVENT_DURATION_THRESHOLD }
+  )
+  if (inp) observers.push(inp)
+
+  return () => observers.forEach((observer) => observer.disconnect())
+}